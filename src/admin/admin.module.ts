@@ -1,9 +1,32 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
+import { TrashController } from './trash.controller';
+import { TrashService } from './trash.service';
+import { JobsController } from './jobs.controller';
+import { MailController } from './mail.controller';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
+import { Event } from '../events/entities/event.entity';
+import { GalleryModule } from '../gallery/gallery.module';
+import { UpdatesModule } from '../updates/updates.module';
+import { EventsModule } from '../events/events.module';
+import { CommonModule } from '../common/common.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
-  controllers: [AdminController],
-  providers: [AdminService]
+  imports: [
+    TypeOrmModule.forFeature([GalleryItem, Update, Event]),
+    ConfigModule,
+    GalleryModule,
+    UpdatesModule,
+    EventsModule,
+    CommonModule,
+    MailModule,
+  ],
+  controllers: [AdminController, TrashController, JobsController, MailController],
+  providers: [AdminService, TrashService]
 })
 export class AdminModule {}
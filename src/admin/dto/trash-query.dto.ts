@@ -0,0 +1,23 @@
+// src/admin/dto/trash-query.dto.ts
+import { IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TrashItemType } from '../interfaces/trash.interface';
+
+export class TrashQueryDto {
+  @IsOptional()
+  @IsEnum(TrashItemType, { message: `type must be one of: ${Object.values(TrashItemType).join(', ')}.` })
+  type?: TrashItemType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,16 @@
+// src/admin/interfaces/trash.interface.ts
+export enum TrashItemType {
+  Gallery = 'gallery',
+  Update = 'update',
+  Event = 'event',
+}
+
+export interface TrashEntry {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  deletedAt: Date;
+  deletedBy: { id: string; email: string; fullName: string } | null;
+  // When the scheduled purge will remove the entry for good
+  purgeAfter: Date;
+}
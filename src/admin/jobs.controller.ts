@@ -0,0 +1,54 @@
+// src/admin/jobs.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Req,
+  UseGuards,
+  Logger,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import * as express from 'express';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+import { ScheduledJobStatus } from '../common/scheduler/scheduled-job.interface';
+import { JobRunStatus } from '../common/scheduler/scheduled-job.entity';
+import { User } from '../auth/entities/user.entity';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+
+@Controller('admin/jobs')
+@UseGuards(JwtAuthGuard)
+export class JobsController {
+  private readonly logger = new Logger(JobsController.name);
+
+  constructor(private jobSchedulerService: JobSchedulerService) {
+  }
+
+  @Get()
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  async listJobs(): Promise<ApiResponse<ScheduledJobStatus[]>> {
+    const jobs = await this.jobSchedulerService.listJobs();
+    return { message: 'Scheduled jobs fetched successfully.', data: jobs };
+  }
+
+  // Runs the job now and responds once it has finished; 409 if a run is already in progress
+  @Post(':name/run')
+  @Roles(UserRole.Admin)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async triggerJob(
+    @Param('name') name: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<ScheduledJobStatus>> {
+    this.logger.log(`Manual run of job ${name} by userId=${req.user.id}`);
+    const job = await this.jobSchedulerService.triggerJob(name);
+    const message = job.lastStatus === JobRunStatus.Failed ? `Job ${name} failed: ${job.lastError}` : `Job ${name} completed.`;
+    return { message, data: job };
+  }
+}
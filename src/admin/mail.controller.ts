@@ -0,0 +1,64 @@
+// src/admin/mail.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import * as express from 'express';
+import { MailService, MailMessageSummary } from '../mail/mail.service';
+import { MailMessage } from '../mail/entities/mail-message.entity';
+import { MailQueryDto } from '../mail/dto/mail-query.dto';
+import { User } from '../auth/entities/user.entity';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+
+// Outbox inspection; lists failed messages unless another status is requested
+@Controller('admin/mail')
+@UseGuards(JwtAuthGuard)
+export class MailController {
+  private readonly logger = new Logger(MailController.name);
+
+  constructor(private mailService: MailService) {
+  }
+
+  @Get()
+  @Roles(UserRole.Admin)
+  @UseGuards(RolesGuard)
+  async listMessages(@Query() queryDto: MailQueryDto): Promise<ApiResponse<PaginatedResponse<MailMessageSummary>>> {
+    const messages = await this.mailService.listMessages(queryDto);
+    return { message: 'Mail messages fetched successfully.', data: messages };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.Admin)
+  @UseGuards(RolesGuard)
+  async getMessage(@Param('id', ParseUUIDPipe) id: string): Promise<ApiResponse<MailMessage>> {
+    const message = await this.mailService.getMessage(id);
+    return { message: 'Mail message fetched successfully.', data: message };
+  }
+
+  @Post(':id/retry')
+  @Roles(UserRole.Admin)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async retryMessage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<MailMessage>> {
+    this.logger.log(`Retry of mail message ${id} by userId=${req.user.id}`);
+    const message = await this.mailService.retryMessage(id);
+    return { message: 'Mail message re-queued.', data: message };
+  }
+}
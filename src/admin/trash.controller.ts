@@ -0,0 +1,79 @@
+// src/admin/trash.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import * as express from 'express';
+import { TrashService } from './trash.service';
+import { TrashQueryDto } from './dto/trash-query.dto';
+import { TrashEntry, TrashItemType } from './interfaces/trash.interface';
+import { User } from '../auth/entities/user.entity';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
+import { Event } from '../events/entities/event.entity';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+
+@Controller('admin/trash')
+@UseGuards(JwtAuthGuard)
+export class TrashController {
+  private readonly logger = new Logger(TrashController.name);
+
+  constructor(private trashService: TrashService) {
+  }
+
+  @Get()
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  async listTrash(
+    @Query() queryDto: TrashQueryDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<PaginatedResponse<TrashEntry>>> {
+    this.logger.log(`Trash listing request by userId=${req.user.id}: ${JSON.stringify(queryDto)}`);
+    const trash = await this.trashService.listTrash(queryDto);
+    return { message: 'Trash fetched successfully.', data: trash };
+  }
+
+  @Post(':type/:id/restore')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async restore(
+    @Param('type', new ParseEnumPipe(TrashItemType)) type: TrashItemType,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem | Update | Event>> {
+    this.logger.log(`Restore of ${type} ${id} by userId=${req.user.id}`);
+    const restored = await this.trashService.restore(type, id);
+    return { message: 'Restored from the trash successfully.', data: restored };
+  }
+
+  // Permanent: removes the record and its files
+  @Delete(':type/:id')
+  @Roles(UserRole.Admin)
+  @UseGuards(RolesGuard)
+  async purge(
+    @Param('type', new ParseEnumPipe(TrashItemType)) type: TrashItemType,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    this.logger.log(`Purge of ${type} ${id} by userId=${req.user.id}`);
+    await this.trashService.purge(type, id);
+    return { message: 'Permanently deleted successfully.', data: { success: true } };
+  }
+}
@@ -0,0 +1,195 @@
+// src/admin/trash.service.ts
+import { Injectable, Logger, InternalServerErrorException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, Not, LessThan, FindOptionsWhere } from 'typeorm';
+import * as path from 'path';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
+import { Event } from '../events/entities/event.entity';
+import { User } from '../auth/entities/user.entity';
+import { GalleryService } from '../gallery/gallery.service';
+import { GallerySearchService } from '../gallery/gallery-search.service';
+import { UpdatesService } from '../updates/updates.service';
+import { EventsService } from '../events/events.service';
+import { TrashEntry, TrashItemType } from './interfaces/trash.interface';
+import { TrashQueryDto } from './dto/trash-query.dto';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+
+type TrashedRecord = { id: string; deletedAt: Date | null; deletedBy?: User | null };
+
+/**
+ * Deleting a gallery item, update or event only moves it to the trash. Entries can be restored
+ * until the retention period ends; purging (manual or scheduled) is the only path that removes files.
+ */
+@Injectable()
+export class TrashService implements OnModuleInit {
+  private readonly logger = new Logger(TrashService.name);
+  private readonly PURGE_BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    @InjectRepository(Update)
+    private readonly updateRepository: Repository<Update>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    private readonly galleryService: GalleryService,
+    private readonly gallerySearchService: GallerySearchService,
+    private readonly updatesService: UpdatesService,
+    private readonly eventsService: EventsService,
+    private readonly configService: ConfigService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'trash-purge',
+      description: 'Permanently deletes trashed gallery items, updates and events past the retention period.',
+      cronExpression: '0 * * * *',
+      handler: async () => {
+        await this.purgeExpired();
+      },
+    });
+  }
+
+  async listTrash(queryDto: TrashQueryDto): Promise<PaginatedResponse<TrashEntry>> {
+    const { type, page = 1, limit = 20 } = queryDto;
+    const types = type ? [type] : Object.values(TrashItemType);
+    // Each type is read up to the end of the requested page, then merged by deletion time
+    const take = page * limit;
+
+    try {
+      const results = await Promise.all(types.map(trashType => this.findTrashed(trashType, take)));
+      const entries = results
+        .flatMap(result => result.entries)
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+      const total = results.reduce((sum, result) => sum + result.total, 0);
+
+      return {
+        data: entries.slice((page - 1) * limit, page * limit),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error: any) {
+      this.logger.error(`Failed to list trash: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve trash.');
+    }
+  }
+
+  async restore(type: TrashItemType, id: string): Promise<GalleryItem | Update | Event> {
+    this.logger.log(`Restoring ${type} ${id} from the trash`);
+    let restored: GalleryItem | Update | Event;
+    switch (type) {
+      case TrashItemType.Gallery:
+        restored = await this.galleryService.restoreItem(id);
+        break;
+      case TrashItemType.Update:
+        restored = await this.updatesService.restoreUpdate(id);
+        break;
+      case TrashItemType.Event:
+        restored = await this.eventsService.restoreEvent(id);
+        break;
+    }
+    await this.clearSearchCache();
+    return restored;
+  }
+
+  async purge(type: TrashItemType, id: string): Promise<void> {
+    this.logger.log(`Purging ${type} ${id} from the trash`);
+    switch (type) {
+      case TrashItemType.Gallery:
+        await this.galleryService.purgeItem(id);
+        break;
+      case TrashItemType.Update:
+        await this.updatesService.purgeUpdate(id);
+        break;
+      case TrashItemType.Event:
+        await this.eventsService.purgeEvent(id);
+        break;
+    }
+    await this.clearSearchCache();
+  }
+
+  // Removes entries whose retention period has ended; the only automatic path that deletes files
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    const cutoff = new Date(Date.now() - this.getRetentionDays() * 24 * 60 * 60 * 1000);
+    for (const type of Object.values(TrashItemType)) {
+      const expired = await this.getRepository(type).find({
+        where: { deletedAt: LessThan(cutoff) } as FindOptionsWhere<TrashedRecord>,
+        select: ['id'],
+        withDeleted: true,
+        take: this.PURGE_BATCH_SIZE,
+      });
+      for (const { id } of expired) {
+        try {
+          await this.purge(type, id);
+          purged++;
+        } catch (error: any) {
+          this.logger.error(`Scheduled purge of ${type} ${id} failed: ${error.message}`, error.stack);
+        }
+      }
+    }
+    if (purged > 0) this.logger.log(`Purged ${purged} expired trash entries.`);
+    return purged;
+  }
+
+  private async findTrashed(type: TrashItemType, take: number): Promise<{ entries: TrashEntry[]; total: number }> {
+    const [records, total] = await this.getRepository(type).findAndCount({
+      where: { deletedAt: Not(IsNull()) } as FindOptionsWhere<TrashedRecord>,
+      relations: ['deletedBy'],
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+      take,
+    });
+    return { entries: records.map(record => this.toEntry(type, record)), total };
+  }
+
+  private toEntry(type: TrashItemType, record: GalleryItem | Update | Event): TrashEntry {
+    const deletedAt = record.deletedAt;
+    // User has no hidden columns, so only the identifying fields are exposed
+    const deletedBy = record.deletedBy
+      ? { id: record.deletedBy.id, email: record.deletedBy.email, fullName: record.deletedBy.fullName }
+      : null;
+    return {
+      type,
+      id: record.id,
+      title: this.getTitle(record),
+      deletedAt,
+      deletedBy,
+      purgeAfter: new Date(deletedAt.getTime() + this.getRetentionDays() * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  private getTitle(record: GalleryItem | Update | Event): string {
+    if (record instanceof GalleryItem) return record.caption || path.basename(record.fileUrl ?? '');
+    return record.title;
+  }
+
+  private getRepository(type: TrashItemType): Repository<GalleryItem | Update | Event> {
+    switch (type) {
+      case TrashItemType.Gallery:
+        return this.galleryRepository as Repository<GalleryItem | Update | Event>;
+      case TrashItemType.Update:
+        return this.updateRepository as Repository<GalleryItem | Update | Event>;
+      case TrashItemType.Event:
+        return this.eventRepository as Repository<GalleryItem | Update | Event>;
+    }
+  }
+
+  private getRetentionDays(): number {
+    return Number(this.configService.get<number>('TRASH_RETENTION_DAYS', 30));
+  }
+
+  private async clearSearchCache(): Promise<void> {
+    try {
+      await this.gallerySearchService.clearCache('search:*');
+    } catch (err) {
+      this.logger.warn(`Failed to clear cache: ${(err as Error).message}`);
+    }
+  }
+}
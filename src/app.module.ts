@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CacheModule } from '@nestjs/cache-manager';
+import { ScheduleModule } from '@nestjs/schedule';
 import { redisStore } from 'cache-manager-redis-yet';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
@@ -13,6 +14,7 @@ import { SearchModule } from './search/search.module';
 import { AdminModule } from './admin/admin.module';
 import { AccessibilityModule } from './accessibility/accessibility.module';
 import { CommonModule } from './common/common.module';
+import { MailModule } from './mail/mail.module';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { UsersModule } from './users/users.module';
 
@@ -37,6 +39,8 @@ import { UsersModule } from './users/users.module';
         },
       }),
     }),
+    // Cron jobs are registered at runtime through JobSchedulerService
+    ScheduleModule.forRoot(),
     // Use TypeOrmModule.forRootAsync
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
@@ -62,6 +66,7 @@ import { UsersModule } from './users/users.module';
     AdminModule,
     AccessibilityModule,
     CommonModule,
+    MailModule,
     UsersModule,
   ],
   controllers: [AppController],
@@ -1,5 +1,4 @@
 import {
-  BadRequestException,
   Body,
   Controller, Delete,
   Get, HttpCode, HttpStatus,
@@ -26,6 +25,8 @@ import * as express from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { extname } from 'path';
 import { diskStorage } from 'multer';
+import { stagingDestination } from '../common/storage/upload-staging';
+import { createUploadFileFilter } from '../common/upload-validation/upload-allow-lists';
 import { ApiResponse } from '../common/interfaces/api-response.interface';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { DeleteAccountDto } from './dto/delete-account.dto';
@@ -126,7 +127,7 @@ export class AuthController {
   @UseGuards(JwtAuthGuard)
   @UseInterceptors(FileInterceptor('avatar', {
     storage: diskStorage({
-      destination: './uploads/avatars',
+      destination: stagingDestination,
       filename: (req: RequestWithUser, file, cb) => {
         const userId = req.user?.id || 'unknown-user';
         const uniqueSuffix = Date.now();
@@ -135,12 +136,7 @@ export class AuthController {
         cb(null, filename);
       },
     }),
-    fileFilter: (req, file, cb) => {
-      if (!file.mimetype.match(/\/(jpg|jpeg|png|gif|webp)$/)) {
-        return cb(new BadRequestException('Only image files (JPG, PNG, GIF, WEBP) are allowed!'), false);
-      }
-      cb(null, true);
-    },
+    fileFilter: createUploadFileFilter('avatar'), // Content is sniffed again by AuthService
     limits: {
       fileSize: 2 * 1024 * 1024, // 2MB
     },
@@ -13,6 +13,8 @@ import { Onboarding } from './entities/onboarding.entity';
 import { JwtStrategy } from './jwt.strategy';
 import { GoogleStrategy } from './google.strategy';
 import { RolesGuard } from './roles.guard';
+import { CommonModule } from '../common/common.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
@@ -30,6 +32,8 @@ import { RolesGuard } from './roles.guard';
       }),
     }),
     TypeOrmModule.forFeature([User, ResetToken, Onboarding]),
+    CommonModule,
+    MailModule,
   ],
   controllers: [AuthController],
   providers: [
@@ -6,9 +6,10 @@ import {
   Logger,
   NotFoundException,
   UnauthorizedException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, LessThan } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { User } from './entities/user.entity';
@@ -17,21 +18,23 @@ import * as bcrypt from 'bcrypt';
 import { LoginDto } from './dto/login.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
-import * as nodemailer from 'nodemailer';
 import { randomBytes } from 'crypto';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { Onboarding } from './entities/onboarding.entity';
 import { UserRole } from '../common/interfaces/entities.interface';
-import * as path from 'node:path';
-import { access as accessAsync, unlink as unlinkAsync } from 'fs/promises';
+import { rm as rmAsync } from 'fs/promises';
 import { DeleteAccountDto } from './dto/delete-account.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
+import { StorageService } from '../common/storage/storage.service';
+import { UploadValidationService } from '../common/upload-validation/upload-validation.service';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+import { MailService } from '../mail/mail.service';
 
 
 @Injectable()
-export class AuthService {
+export class AuthService implements OnModuleInit {
   private readonly logger = new Logger(AuthService.name);
-  private readonly transporter: nodemailer.Transporter | null = null;
+  private readonly AVATARS_PREFIX = 'avatars';
 
   constructor(
     @InjectRepository(User)
@@ -42,30 +45,24 @@ export class AuthService {
     private onboardingRepository: Repository<Onboarding>,
     private jwtService: JwtService,
     private configService: ConfigService,
-  ) {
-    // Use ConfigService to get email credentials
-    const emailService = this.configService.get<string>('EMAIL_SERVICE');
-    const emailUser = this.configService.get<string>('EMAIL_USER');
-    const emailPass = this.configService.get<string>('EMAIL_PASS');
+    private storageService: StorageService,
+    private uploadValidationService: UploadValidationService,
+    private jobSchedulerService: JobSchedulerService,
+    private mailService: MailService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'purge-reset-tokens',
+      description: 'Deletes password reset tokens past their expiry.',
+      cronExpression: '0 * * * *',
+      handler: () => this.purgeExpiredResetTokens(),
+    });
+  }
 
-    if (!emailUser || !emailPass || !emailService) {
-      this.logger.error(
-        'Email configuration (EMAIL_SERVICE, EMAIL_USER, EMAIL_PASS) incomplete in environment variables. Email functionality will be disabled.',
-      );
-    } else {
-      try {
-        this.transporter = nodemailer.createTransport({
-          service: emailService,
-          auth: {
-            user: emailUser,
-            pass: emailPass,
-          },
-        });
-        this.logger.log(`AuthService initialized. Email service configured: ${emailService}`);
-      } catch (error) {
-        this.logger.error(`Failed to create Nodemailer transport: ${error.message}`, error.stack);
-      }
-    }
+  async purgeExpiredResetTokens(): Promise<void> {
+    const result = await this.resetTokenRepository.delete({ expiresAt: LessThan(new Date()) });
+    this.logger.log(`Purged ${result.affected ?? 0} expired reset tokens`);
   }
 
   async login(loginDto: LoginDto): Promise<{ access_token: string }> {
@@ -140,12 +137,6 @@ export class AuthService {
     const { email } = forgotPasswordDto;
     this.logger.log(`Processing forgot password request for email: ${email}`);
 
-    // Check if transporter is configured before proceeding
-    if (!this.transporter) {
-      this.logger.error('Nodemailer transporter not configured. Cannot process forgot password request.');
-      throw new Error('Password reset service is temporarily unavailable.');
-    }
-
     const user = await this.userRepository.findOne({ where: { email } });
     if (!user) {
       // Don't reveal if user exists, just log and return successfully to prevent enumeration attacks
@@ -178,20 +169,8 @@ export class AuthService {
       );
       const resetLink = `${frontendResetUrl}?token=${token}`;
 
-      const emailFrom = this.configService.get<string>('EMAIL_USER');
-      if (!emailFrom) {
-        this.logger.error('EMAIL_USER not configured. Cannot set "from" address for reset email.');
-        throw new Error('Email service configuration error.');
-      }
-
-      await this.transporter.sendMail({
-        to: email,
-        from: emailFrom,
-        subject: 'Password Reset Request - CIVE Gallery',
-        text: `You requested a password reset for your CIVE Gallery account. Please click the following link to reset your password: ${resetLink}\n\nThis link will expire in 24 hours.\n\nIf you did not request this reset, please ignore this email.`,
-        html: `<p>You requested a password reset for your CIVE Gallery account.</p><p>Please click the link below to reset your password. This link is valid for 24 hours.</p><p><a href="${resetLink}">Reset Password</a></p><p>If you did not request this reset, please ignore this email.</p>`,
-      });
-      this.logger.log(`Sent password reset email to: ${email}`);
+      await this.mailService.enqueue(email, 'reset-password', { resetLink, expiresInHours: 24 });
+      this.logger.log(`Queued password reset email to: ${email}`);
     } catch (error) {
       this.logger.error(
         `Error processing forgot password for ${email}: ${error.message}`,
@@ -307,21 +286,29 @@ export class AuthService {
     if (!user) {
       this.logger.warn(`User not found for profile update: ID=${userId}`);
       if (avatarFile) {
-        await this.deleteFileSilently(avatarFile.path);
+        await rmAsync(avatarFile.path, { force: true });
       }
       throw new NotFoundException('User not found');
     }
 
     // --- Handle Avatar Upload ---
-    let oldAvatarPath: string | null = null;
+    let oldAvatarKey: string | null = null;
+    let newAvatarKey: string | null = null;
     if (avatarFile) {
-      // Store the old avatar URL path for potential deletion later
-      if (user.avatar) {
-        oldAvatarPath = path.join(process.cwd(), user.avatar);
+      // Store the old avatar key for potential deletion later
+      await this.uploadValidationService.validateUpload(avatarFile, 'avatar', userId);
+      oldAvatarKey = this.getAvatarKey(user.avatar);
+      newAvatarKey = `${this.AVATARS_PREFIX}/${avatarFile.filename}`;
+      try {
+        await this.storageService.moveFile(newAvatarKey, avatarFile.path, { visibility: 'public', contentType: avatarFile.mimetype });
+      } catch (error) {
+        this.logger.error(`Failed to store avatar for user ID=${userId}: ${(error as Error).message}`, (error as Error).stack);
+        await rmAsync(avatarFile.path, { force: true });
+        throw new InternalServerErrorException('Failed to store avatar.');
       }
-      const newAvatarUrlPath = `/uploads/avatars/${avatarFile.filename}`;
-      user.avatar = newAvatarUrlPath; // Update user entity with the new path
-      this.logger.log(`New avatar URL path set for user ID=${userId}: ${newAvatarUrlPath}`);
+      const newAvatarUrl = this.storageService.getPublicUrl(newAvatarKey);
+      user.avatar = newAvatarUrl; // Update user entity with the new URL
+      this.logger.log(`New avatar URL set for user ID=${userId}: ${newAvatarUrl}`);
     }
     // --- End Avatar Handling ---
 
@@ -339,9 +326,9 @@ export class AuthService {
       this.logger.log(`Saved updated profile for user: ${savedUser.email}, ID=${userId}`);
 
       // --- Delete Old Avatar File (AFTER successful save) ---
-      if (avatarFile && oldAvatarPath) {
-        this.logger.debug(`Attempting to delete old avatar: ${oldAvatarPath}`);
-        await this.deleteFileSilently(oldAvatarPath);
+      if (avatarFile && oldAvatarKey) {
+        this.logger.debug(`Attempting to delete old avatar: ${oldAvatarKey}`);
+        await this.deleteFileSilently(oldAvatarKey);
       }
       // --- End Delete Old Avatar ---
 
@@ -352,9 +339,9 @@ export class AuthService {
     } catch (error) {
       this.logger.error(`Error saving updated profile for ID=${userId}: ${(error as Error).message}`, (error as Error).stack);
       // If save failed AND a new file was uploaded, attempt to delete the newly uploaded file
-      if (avatarFile) {
-        this.logger.warn(`Rolling back: deleting newly uploaded avatar due to save error: ${avatarFile.path}`);
-        await this.deleteFileSilently(avatarFile.path);
+      if (newAvatarKey) {
+        this.logger.warn(`Rolling back: deleting newly uploaded avatar due to save error: ${newAvatarKey}`);
+        await this.deleteFileSilently(newAvatarKey);
       }
       throw new InternalServerErrorException(`Failed to update profile.`);
     }
@@ -456,7 +443,7 @@ export class AuthService {
     this.logger.log(`Password confirmed for deletion of userId=${userId}. Proceeding with deletion.`);
 
     // 2. Store paths for cleanup (if user has avatar)
-    const avatarPath = user.avatar ? path.join(process.cwd(), user.avatar) : null;
+    const avatarKey = this.getAvatarKey(user.avatar);
 
     // 3. Delete User Record from Database
     // NOTE: This assumes cascade deletes are NOT set up for related entities (gallery items, etc.)
@@ -478,8 +465,8 @@ export class AuthService {
       this.logger.log(`Successfully deleted database record for userId=${userId}`);
 
       // 4. Attempt to Delete Avatar File (Best Effort)
-      if (avatarPath) {
-        await this.deleteFileSilently(avatarPath);
+      if (avatarKey) {
+        await this.deleteFileSilently(avatarKey);
       }
       // !! IMPORTANT !! Add logic here to delete other user-specific files (e.g., gallery media)
 
@@ -491,23 +478,20 @@ export class AuthService {
     }
   }
 
-  /** Helper to delete files without throwing errors */
-  private async deleteFileSilently(filePath: string): Promise<void> {
+  /** Helper to delete stored files without throwing errors */
+  private async deleteFileSilently(key: string): Promise<void> {
     try {
-      // Optional: Check existence first using the promise version
-      await accessAsync(filePath);
-
-      // Call the explicitly imported promise version
-      await unlinkAsync(filePath);
-      this.logger.log(`Successfully deleted file: ${filePath}`);
+      await this.storageService.delete(key, 'public');
+      this.logger.log(`Successfully deleted file: ${key}`);
     } catch (error: any) {
-      // Log only if it's not a "file not found" error
-      if (error.code !== 'ENOENT') {
-        this.logger.error(`Failed to delete file ${filePath}: ${error.message}`);
-      } else {
-        // Optionally log ENOENT differently if desired
-        this.logger.warn(`File not found for deletion (ENOENT): ${filePath}`);
-      }
+      this.logger.error(`Failed to delete file ${key}: ${error.message}`);
     }
   }
+
+  /** Storage key of an uploaded avatar; null for external (e.g. Google) avatar URLs */
+  private getAvatarKey(avatarUrl?: string | null): string | null {
+    if (!avatarUrl) return null;
+    const key = this.storageService.getKeyFromUrl(avatarUrl);
+    return key.startsWith(`${this.AVATARS_PREFIX}/`) ? key : null;
+  }
 }
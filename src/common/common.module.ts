@@ -1,4 +1,14 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StorageService } from './storage/storage.service';
+import { UploadValidationService } from './upload-validation/upload-validation.service';
+import { JobSchedulerService } from './scheduler/job-scheduler.service';
+import { ScheduledJob } from './scheduler/scheduled-job.entity';
 
-@Module({})
+@Module({
+  imports: [ConfigModule, TypeOrmModule.forFeature([ScheduledJob])],
+  providers: [StorageService, UploadValidationService, JobSchedulerService],
+  exports: [StorageService, UploadValidationService, JobSchedulerService],
+})
 export class CommonModule {}
@@ -0,0 +1,193 @@
+// src/common/scheduler/job-scheduler.service.ts
+import { Injectable, Logger, NotFoundException, ConflictException, InternalServerErrorException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Repository, In } from 'typeorm';
+import { CronJob } from 'cron';
+import * as os from 'os';
+import { ScheduledJob, JobRunStatus, JobTrigger } from './scheduled-job.entity';
+import { ScheduledJobDefinition, ScheduledJobStatus } from './scheduled-job.interface';
+
+/**
+ * Runs registered jobs on a cron schedule. Every run first claims the job's row in `scheduled_job`,
+ * so with several instances only one executes a given job at a time; the others skip that tick.
+ */
+@Injectable()
+export class JobSchedulerService {
+  private readonly logger = new Logger(JobSchedulerService.name);
+  private readonly DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private readonly definitions = new Map<string, ScheduledJobDefinition>();
+
+  constructor(
+    @InjectRepository(ScheduledJob)
+    private readonly jobRepository: Repository<ScheduledJob>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Called by the owning service's onModuleInit
+  async register(definition: ScheduledJobDefinition): Promise<void> {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Scheduled job "${definition.name}" is already registered.`);
+    }
+    const cronExpression = this.resolveCronExpression(definition);
+    this.definitions.set(definition.name, { ...definition, cronExpression });
+
+    try {
+      await this.jobRepository.createQueryBuilder()
+        .insert()
+        .into(ScheduledJob)
+        .values({ name: definition.name })
+        .orIgnore()
+        .execute();
+    } catch (error: any) {
+      this.logger.error(`Failed to create job record for ${definition.name}: ${error.message}`, error.stack);
+    }
+
+    // Manual runs stay available on instances with scheduling switched off
+    if (this.configService.get<string>('SCHEDULER_ENABLED', 'true') === 'false') {
+      this.logger.log(`Registered job ${definition.name} (scheduling disabled on this instance)`);
+      return;
+    }
+    const cronJob = CronJob.from({
+      cronTime: cronExpression,
+      onTick: () => {
+        this.runJob(definition.name, JobTrigger.Schedule)
+          .catch(error => this.logger.error(`Scheduled run of ${definition.name} failed: ${error.message}`, error.stack));
+      },
+      timeZone: this.configService.get<string>('SCHEDULER_TIMEZONE'),
+    });
+    this.schedulerRegistry.addCronJob(definition.name, cronJob);
+    cronJob.start();
+    this.logger.log(`Registered job ${definition.name} with schedule "${cronExpression}"`);
+  }
+
+  async listJobs(): Promise<ScheduledJobStatus[]> {
+    const names = [...this.definitions.keys()].sort();
+    let records: ScheduledJob[];
+    try {
+      records = await this.jobRepository.find({ where: { name: In(names) } });
+    } catch (error: any) {
+      this.logger.error(`Failed to load job records: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve scheduled jobs.');
+    }
+    const recordsByName = new Map(records.map(record => [record.name, record]));
+    return names.map(name => this.toStatus(this.definitions.get(name), recordsByName.get(name)));
+  }
+
+  async triggerJob(name: string): Promise<ScheduledJobStatus> {
+    const definition = this.definitions.get(name);
+    if (!definition) throw new NotFoundException(`Scheduled job ${name} not found.`);
+    const ran = await this.runJob(name, JobTrigger.Manual);
+    if (!ran) throw new ConflictException(`Job ${name} is already running.`);
+    const record = await this.jobRepository.findOne({ where: { name } });
+    return this.toStatus(definition, record);
+  }
+
+  /** Runs the job if its lock can be claimed; returns false when another run holds it. Handler errors are recorded, not thrown. */
+  private async runJob(name: string, trigger: JobTrigger): Promise<boolean> {
+    const definition = this.definitions.get(name);
+    const startedAt = new Date();
+    const claimed = await this.claimLock(definition, startedAt);
+    if (!claimed) {
+      this.logger.debug(`Skipping ${trigger} run of ${name}: already running elsewhere`);
+      return false;
+    }
+
+    this.logger.log(`Running job ${name} (${trigger})`);
+    let failure: Error | null = null;
+    try {
+      await this.jobRepository.update({ name }, { lastStartedAt: startedAt, lastTrigger: trigger });
+      await definition.handler();
+    } catch (error: any) {
+      failure = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(`Job ${name} failed: ${failure.message}`, failure.stack);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+    try {
+      await this.jobRepository.createQueryBuilder()
+        .update(ScheduledJob)
+        .set({
+          lastFinishedAt: finishedAt,
+          lastDurationMs: durationMs,
+          lastStatus: failure ? JobRunStatus.Failed : JobRunStatus.Success,
+          runCount: () => '"runCount" + 1',
+          consecutiveFailures: failure ? () => '"consecutiveFailures" + 1' : 0,
+          // The last failure is kept after later successes so it stays visible to admins
+          ...(failure && {
+            lastError: failure.message,
+            lastFailedAt: finishedAt,
+            failureCount: () => '"failureCount" + 1',
+          }),
+        })
+        .where('name = :name', { name })
+        .execute();
+    } catch (error: any) {
+      this.logger.error(`Failed to record run of job ${name}: ${error.message}`, error.stack);
+    }
+    await this.releaseLock(name);
+    if (!failure) this.logger.log(`Job ${name} finished in ${durationMs}ms`);
+    return true;
+  }
+
+  // Atomic claim: only succeeds when no unexpired lock is held
+  private async claimLock(definition: ScheduledJobDefinition, now: Date): Promise<boolean> {
+    const lockTtlMs = definition.lockTtlMs ?? this.DEFAULT_LOCK_TTL_MS;
+    const result = await this.jobRepository.createQueryBuilder()
+      .update(ScheduledJob)
+      .set({ lockedUntil: new Date(now.getTime() + lockTtlMs), lockedBy: this.instanceId })
+      .where('name = :name', { name: definition.name })
+      .andWhere('("lockedUntil" IS NULL OR "lockedUntil" < :now)', { now })
+      .execute();
+    return result.affected === 1;
+  }
+
+  // Only clears a lock this instance still owns; an expired lock may have been taken over
+  private async releaseLock(name: string): Promise<void> {
+    try {
+      await this.jobRepository.update({ name, lockedBy: this.instanceId }, { lockedUntil: null, lockedBy: null });
+    } catch (error: any) {
+      this.logger.error(`Failed to release lock for job ${name}: ${error.message}`, error.stack);
+    }
+  }
+
+  private resolveCronExpression(definition: ScheduledJobDefinition): string {
+    const configKey = `${definition.name.toUpperCase().replace(/-/g, '_')}_CRON`;
+    const configured = this.configService.get<string>(configKey);
+    if (!configured) return definition.cronExpression;
+    try {
+      CronJob.from({ cronTime: configured, onTick: () => undefined });
+      return configured;
+    } catch {
+      this.logger.error(`Invalid ${configKey}="${configured}", using default "${definition.cronExpression}"`);
+      return definition.cronExpression;
+    }
+  }
+
+  private toStatus(definition: ScheduledJobDefinition, record: ScheduledJob | undefined | null): ScheduledJobStatus {
+    const cronJob = this.schedulerRegistry.doesExist('cron', definition.name)
+      ? this.schedulerRegistry.getCronJob(definition.name)
+      : null;
+    return {
+      name: definition.name,
+      description: definition.description,
+      cronExpression: definition.cronExpression,
+      nextRunAt: cronJob ? cronJob.nextDate().toJSDate() : null,
+      running: !!record?.lockedUntil && record.lockedUntil > new Date(),
+      lastStartedAt: record?.lastStartedAt ?? null,
+      lastFinishedAt: record?.lastFinishedAt ?? null,
+      lastDurationMs: record?.lastDurationMs ?? null,
+      lastStatus: record?.lastStatus ?? null,
+      lastTrigger: record?.lastTrigger ?? null,
+      lastError: record?.lastError ?? null,
+      lastFailedAt: record?.lastFailedAt ?? null,
+      runCount: record?.runCount ?? 0,
+      failureCount: record?.failureCount ?? 0,
+      consecutiveFailures: record?.consecutiveFailures ?? 0,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+// src/common/scheduler/scheduled-job.entity.ts
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export enum JobRunStatus {
+  Success = 'success',
+  Failed = 'failed',
+}
+
+export enum JobTrigger {
+  Schedule = 'schedule',
+  Manual = 'manual',
+}
+
+// One row per registered job: doubles as the cross-instance lock and the record of its last run
+@Entity('scheduled_job')
+export class ScheduledJob {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  lockedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastStartedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastFinishedAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  lastDurationMs: number | null;
+
+  @Column({ type: 'enum', enum: JobRunStatus, nullable: true })
+  lastStatus: JobRunStatus | null;
+
+  @Column({ type: 'enum', enum: JobTrigger, nullable: true })
+  lastTrigger: JobTrigger | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastFailedAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  runCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  failureCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  consecutiveFailures: number;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
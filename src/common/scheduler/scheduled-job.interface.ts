@@ -0,0 +1,31 @@
+// src/common/scheduler/scheduled-job.interface.ts
+import { JobRunStatus, JobTrigger } from './scheduled-job.entity';
+
+export interface ScheduledJobDefinition {
+  // Unique, kebab-case; also the key of the lock row
+  name: string;
+  description: string;
+  // Default cron expression; overridable with <NAME>_CRON, e.g. PURGE_RESET_TOKENS_CRON
+  cronExpression: string;
+  // How long a run may hold the lock before another instance may take over
+  lockTtlMs?: number;
+  handler: () => Promise<void>;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  description: string;
+  cronExpression: string;
+  nextRunAt: Date | null;
+  running: boolean;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastStatus: JobRunStatus | null;
+  lastTrigger: JobTrigger | null;
+  lastError: string | null;
+  lastFailedAt: Date | null;
+  runCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+}
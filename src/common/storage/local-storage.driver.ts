@@ -0,0 +1,96 @@
+// src/common/storage/local-storage.driver.ts
+import { Readable } from 'stream';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import {
+  StorageDriver,
+  StorageVisibility,
+  StoredObjectStats,
+  StorageByteRange,
+  PutFileOptions,
+} from './storage-driver.interface';
+
+export interface LocalStorageDriverOptions {
+  publicRoot: string; // Served statically by main.ts
+  privateRoot: string; // Never served statically
+  publicBaseUrl: string;
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly options: LocalStorageDriverOptions) {}
+
+  async putFile(key: string, localPath: string, options: PutFileOptions): Promise<void> {
+    const targetPath = this.resolvePath(key, options.visibility);
+    await fsp.mkdir(path.dirname(targetPath), { recursive: true });
+    await fsp.copyFile(localPath, targetPath);
+  }
+
+  async createReadStream(key: string, visibility: StorageVisibility, range?: StorageByteRange): Promise<Readable> {
+    const filePath = this.resolvePath(key, visibility);
+    await fsp.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async stat(key: string, visibility: StorageVisibility): Promise<StoredObjectStats | null> {
+    try {
+      const stats = await fsp.stat(this.resolvePath(key, visibility));
+      return { size: stats.size, lastModified: stats.mtime };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string, visibility: StorageVisibility): Promise<void> {
+    try {
+      await fsp.unlink(this.resolvePath(key, visibility));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async deletePrefix(prefix: string, visibility: StorageVisibility): Promise<void> {
+    await fsp.rm(this.resolvePath(prefix, visibility), { recursive: true, force: true });
+  }
+
+  async setVisibility(key: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    await this.rename(this.resolvePath(key, from), this.resolvePath(key, to));
+  }
+
+  async setPrefixVisibility(prefix: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    const targetPath = this.resolvePath(prefix, to);
+    await fsp.rm(targetPath, { recursive: true, force: true });
+    await this.rename(this.resolvePath(prefix, from), targetPath);
+  }
+
+  // Files are already on disk, so nothing needs cleaning up
+  async getLocalCopy(key: string, visibility: StorageVisibility): Promise<{ path: string; cleanup: () => Promise<void> }> {
+    const filePath = this.resolvePath(key, visibility);
+    await fsp.access(filePath, fs.constants.R_OK);
+    return { path: filePath, cleanup: async () => {} };
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.options.publicBaseUrl}/${key}`;
+  }
+
+  private async rename(sourcePath: string, targetPath: string): Promise<void> {
+    try {
+      await fsp.mkdir(path.dirname(targetPath), { recursive: true });
+      await fsp.rename(sourcePath, targetPath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private resolvePath(key: string, visibility: StorageVisibility): string {
+    const root = path.resolve(process.cwd(), visibility === 'public' ? this.options.publicRoot : this.options.privateRoot);
+    const resolved = path.resolve(root, key);
+    // Keys come from stored URLs and route params, so never allow them to escape the root
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes storage root: ${key}`);
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,176 @@
+// src/common/storage/s3-storage.driver.ts
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+  CopyObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import {
+  StorageDriver,
+  StorageVisibility,
+  StoredObjectStats,
+  StorageByteRange,
+  PutFileOptions,
+} from './storage-driver.interface';
+
+export interface S3StorageDriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // Set for MinIO and other S3-compatible servers
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicBaseUrl: string;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  // Private objects live under their own prefix so a bucket policy can expose only the public ones
+  private readonly PRIVATE_PREFIX = 'private/';
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageDriverOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async putFile(key: string, localPath: string, options: PutFileOptions): Promise<void> {
+    const stats = await fsp.stat(localPath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.toObjectKey(key, options.visibility),
+      Body: fs.createReadStream(localPath),
+      ContentLength: stats.size,
+      ContentType: options.contentType,
+    }));
+  }
+
+  async createReadStream(key: string, visibility: StorageVisibility, range?: StorageByteRange): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.toObjectKey(key, visibility),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return response.Body as Readable;
+  }
+
+  async stat(key: string, visibility: StorageVisibility): Promise<StoredObjectStats | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.toObjectKey(key, visibility),
+      }));
+      return { size: response.ContentLength ?? 0, lastModified: response.LastModified ?? new Date(0) };
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  // S3 deletes are idempotent, so missing objects need no special handling
+  async delete(key: string, visibility: StorageVisibility): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.toObjectKey(key, visibility),
+    }));
+  }
+
+  async deletePrefix(prefix: string, visibility: StorageVisibility): Promise<void> {
+    const objectPrefix = this.toObjectKey(prefix.endsWith('/') ? prefix : `${prefix}/`, visibility);
+    let continuationToken: string | undefined;
+    do {
+      const listing = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: objectPrefix,
+        ContinuationToken: continuationToken,
+      }));
+      const objects = (listing.Contents ?? []).flatMap(object => (object.Key ? [{ Key: object.Key }] : []));
+      if (objects.length > 0) {
+        await this.client.send(new DeleteObjectsCommand({
+          Bucket: this.options.bucket,
+          Delete: { Objects: objects, Quiet: true },
+        }));
+      }
+      continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  async setVisibility(key: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    await this.moveObject(this.toObjectKey(key, from), this.toObjectKey(key, to));
+  }
+
+  async setPrefixVisibility(prefix: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    const normalizedPrefix = prefix.endsWith('/') ? prefix : `${prefix}/`;
+    const sourcePrefix = this.toObjectKey(normalizedPrefix, from);
+    const targetPrefix = this.toObjectKey(normalizedPrefix, to);
+    let continuationToken: string | undefined;
+    do {
+      const listing = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: sourcePrefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of listing.Contents ?? []) {
+        if (object.Key) await this.moveObject(object.Key, `${targetPrefix}${object.Key.slice(sourcePrefix.length)}`);
+      }
+      continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  // ffmpeg and sharp need seekable files, so objects are downloaded to a temporary file
+  async getLocalCopy(key: string, visibility: StorageVisibility): Promise<{ path: string; cleanup: () => Promise<void> }> {
+    const tempDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    const tempPath = path.join(tempDir, `${randomUUID()}${path.extname(key)}`);
+    const cleanup = () => fsp.rm(tempDir, { recursive: true, force: true });
+    try {
+      await pipeline(await this.createReadStream(key, visibility), fs.createWriteStream(tempPath));
+    } catch (error) {
+      await cleanup();
+      throw error;
+    }
+    return { path: tempPath, cleanup };
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.options.publicBaseUrl}/${key}`;
+  }
+
+  // S3 has no rename, so objects are copied (metadata included) and the source removed
+  private async moveObject(sourceKey: string, targetKey: string): Promise<void> {
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: this.options.bucket,
+        CopySource: `${this.options.bucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+        Key: targetKey,
+      }));
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) return;
+      throw error;
+    }
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: sourceKey }));
+  }
+
+  private toObjectKey(key: string, visibility: StorageVisibility): string {
+    const normalized = path.posix.normalize(key.replace(/\\/g, '/')).replace(/^\/+/, '');
+    if (normalized.startsWith('..')) {
+      throw new Error(`Storage key escapes storage root: ${key}`);
+    }
+    return visibility === 'private' ? `${this.PRIVATE_PREFIX}${normalized}` : normalized;
+  }
+}
@@ -0,0 +1,37 @@
+// src/common/storage/storage-driver.interface.ts
+import { Readable } from 'stream';
+
+// Public objects are reachable through getPublicUrl; private ones only through the API
+export type StorageVisibility = 'public' | 'private';
+
+export interface StoredObjectStats {
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface PutFileOptions {
+  visibility: StorageVisibility;
+  contentType?: string;
+}
+
+export interface StorageDriver {
+  /** Copies a local file into storage under the given key. The local file is left in place. */
+  putFile(key: string, localPath: string, options: PutFileOptions): Promise<void>;
+  createReadStream(key: string, visibility: StorageVisibility, range?: StorageByteRange): Promise<Readable>;
+  /** Resolves to null when the object does not exist. */
+  stat(key: string, visibility: StorageVisibility): Promise<StoredObjectStats | null>;
+  /** Missing objects are ignored. */
+  delete(key: string, visibility: StorageVisibility): Promise<void>;
+  deletePrefix(prefix: string, visibility: StorageVisibility): Promise<void>;
+  /** Moves an object between visibilities, keeping its key. Missing objects are ignored. */
+  setVisibility(key: string, from: StorageVisibility, to: StorageVisibility): Promise<void>;
+  setPrefixVisibility(prefix: string, from: StorageVisibility, to: StorageVisibility): Promise<void>;
+  /** Returns a path on local disk for reading, and a cleanup callback for temporary copies. */
+  getLocalCopy(key: string, visibility: StorageVisibility): Promise<{ path: string; cleanup: () => Promise<void> }>;
+  getPublicUrl(key: string): string;
+}
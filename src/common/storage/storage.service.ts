@@ -0,0 +1,176 @@
+// src/common/storage/storage.service.ts
+import { Injectable, Logger, NotFoundException, StreamableFile } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { getStagingDirectory } from './upload-staging';
+import {
+  StorageDriver,
+  StorageVisibility,
+  StoredObjectStats,
+  StorageByteRange,
+  PutFileOptions,
+} from './storage-driver.interface';
+import { FileStreamOptions, streamFileWithRanges } from '../utils/file-streaming.util';
+
+/**
+ * Single entry point for stored files. Keys are relative paths such as `media/<file>`;
+ * the driver is chosen by STORAGE_DRIVER (`local` or `s3`).
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly driver: StorageDriver;
+  private readonly driverName: string;
+  // URLs stored before the storage layer existed always used this prefix
+  private readonly LEGACY_URL_PREFIX = '/uploads/';
+
+  constructor(private readonly configService: ConfigService) {
+    this.driverName = this.configService.get<string>('STORAGE_DRIVER', 'local').toLowerCase();
+    this.driver = this.driverName === 's3' ? this.createS3Driver() : this.createLocalDriver();
+    this.logger.log(`Using '${this.driverName}' storage driver.`);
+  }
+
+  isLocal(): boolean {
+    return this.driverName !== 's3';
+  }
+
+  getLocalPublicRoot(): string {
+    return path.resolve(process.cwd(), this.configService.get<string>('STORAGE_LOCAL_PUBLIC_ROOT', 'uploads'));
+  }
+
+  /** Path the local public root is served under; an absolute STORAGE_PUBLIC_BASE_URL contributes its path. */
+  getLocalPublicPrefix(): string {
+    const baseUrl = this.getLocalPublicBaseUrl();
+    const basePath = /^https?:\/\//i.test(baseUrl) ? new URL(baseUrl).pathname : baseUrl;
+    return `${basePath.replace(/\/+$/, '')}/`;
+  }
+
+  getStagingDirectory(): string {
+    return getStagingDirectory();
+  }
+
+  /** Stages a fresh local path for generated files (thumbnails, renditions, archives). */
+  async createStagingPath(fileName: string): Promise<string> {
+    const directory = this.getStagingDirectory();
+    await fsp.mkdir(directory, { recursive: true });
+    return path.join(directory, fileName);
+  }
+
+  putFile(key: string, localPath: string, options: PutFileOptions): Promise<void> {
+    return this.driver.putFile(key, localPath, options);
+  }
+
+  /** Uploads a local file and removes the local copy. */
+  async moveFile(key: string, localPath: string, options: PutFileOptions): Promise<void> {
+    await this.driver.putFile(key, localPath, options);
+    await fsp.unlink(localPath).catch((err: NodeJS.ErrnoException) => {
+      if (err.code !== 'ENOENT') this.logger.warn(`Failed to remove staged file ${localPath}: ${err.message}`);
+    });
+  }
+
+  createReadStream(key: string, visibility: StorageVisibility, range?: StorageByteRange): Promise<Readable> {
+    return this.driver.createReadStream(key, visibility, range);
+  }
+
+  stat(key: string, visibility: StorageVisibility): Promise<StoredObjectStats | null> {
+    return this.driver.stat(key, visibility);
+  }
+
+  async exists(key: string, visibility: StorageVisibility): Promise<boolean> {
+    return (await this.driver.stat(key, visibility)) !== null;
+  }
+
+  delete(key: string, visibility: StorageVisibility): Promise<void> {
+    return this.driver.delete(key, visibility);
+  }
+
+  deletePrefix(prefix: string, visibility: StorageVisibility): Promise<void> {
+    return this.driver.deletePrefix(prefix, visibility);
+  }
+
+  /** Moves an object between public and private storage, e.g. to hide trashed files. */
+  setVisibility(key: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    return this.driver.setVisibility(key, from, to);
+  }
+
+  setPrefixVisibility(prefix: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    return this.driver.setPrefixVisibility(prefix, from, to);
+  }
+
+  /** Runs `fn` against a readable local path for the object, e.g. for ffmpeg or sharp. */
+  async withLocalCopy<T>(key: string, visibility: StorageVisibility, fn: (localPath: string) => Promise<T>): Promise<T> {
+    const copy = await this.driver.getLocalCopy(key, visibility);
+    try {
+      return await fn(copy.path);
+    } finally {
+      await copy.cleanup();
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    return this.driver.getPublicUrl(key);
+  }
+
+  /** Maps a stored public URL back to its key, accepting both current and legacy `/uploads/` URLs. */
+  getKeyFromUrl(url: string): string {
+    const publicPrefix = `${this.driver.getPublicUrl('')}`;
+    if (url.startsWith(publicPrefix)) return url.slice(publicPrefix.length);
+    if (url.startsWith(this.LEGACY_URL_PREFIX)) return url.slice(this.LEGACY_URL_PREFIX.length);
+    return url.replace(/^\/+/, '');
+  }
+
+  /** Streams an object with Range and conditional request support; a missing object is a 404. */
+  async streamFile(
+    req: Request,
+    res: Response,
+    key: string,
+    visibility: StorageVisibility,
+    options: FileStreamOptions,
+  ): Promise<StreamableFile | undefined> {
+    const stats = await this.driver.stat(key, visibility);
+    if (!stats) {
+      throw new NotFoundException('File not found.');
+    }
+    return streamFileWithRanges(req, res, {
+      size: stats.size,
+      lastModified: stats.lastModified,
+      open: range => this.driver.createReadStream(key, visibility, range),
+    }, options);
+  }
+
+  private createLocalDriver(): LocalStorageDriver {
+    return new LocalStorageDriver({
+      publicRoot: this.configService.get<string>('STORAGE_LOCAL_PUBLIC_ROOT', 'uploads'),
+      privateRoot: this.configService.get<string>('STORAGE_LOCAL_PRIVATE_ROOT', 'private'),
+      publicBaseUrl: this.getLocalPublicBaseUrl(),
+    });
+  }
+
+  private getLocalPublicBaseUrl(): string {
+    return this.configService.get<string>('STORAGE_PUBLIC_BASE_URL', '/uploads');
+  }
+
+  private createS3Driver(): S3StorageDriver {
+    const bucket = this.configService.get<string>('S3_BUCKET');
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3.');
+    }
+    const endpoint = this.configService.get<string>('S3_ENDPOINT');
+    const defaultPublicUrl = endpoint ? `${endpoint.replace(/\/+$/, '')}/${bucket}` : `https://${bucket}.s3.amazonaws.com`;
+    return new S3StorageDriver({
+      bucket,
+      region: this.configService.get<string>('S3_REGION', 'us-east-1'),
+      endpoint,
+      // MinIO and most self-hosted S3 servers only support path-style addressing
+      forcePathStyle: this.configService.get<string>('S3_FORCE_PATH_STYLE', endpoint ? 'true' : 'false') === 'true',
+      accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: this.configService.get<string>('S3_SECRET_ACCESS_KEY'),
+      publicBaseUrl: this.configService.get<string>('S3_PUBLIC_URL', defaultPublicUrl).replace(/\/+$/, ''),
+    });
+  }
+}
@@ -0,0 +1,23 @@
+// src/common/storage/upload-staging.ts
+import { Request } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_STAGING_PATH = 'tmp/uploads';
+
+export function getStagingDirectory(): string {
+  return path.resolve(process.cwd(), process.env.STORAGE_STAGING_PATH || DEFAULT_STAGING_PATH);
+}
+
+/**
+ * Multer `destination` for uploads. Files land in a local staging directory and are
+ * moved into the configured storage driver once processing is done.
+ */
+export function stagingDestination(
+  req: Request,
+  file: Express.Multer.File,
+  cb: (error: Error | null, destination: string) => void,
+): void {
+  const directory = getStagingDirectory();
+  fs.mkdir(directory, { recursive: true }, err => cb(err, directory));
+}
@@ -0,0 +1,75 @@
+// src/common/upload-validation/clamav-upload.scanner.ts
+import * as net from 'net';
+import * as fs from 'fs';
+import { once } from 'events';
+import { UploadScanner, UploadScanResult } from './upload-scanner.interface';
+
+export interface ClamAvScannerOptions {
+  host: string;
+  port: number;
+  timeoutMs: number;
+  chunkSize: number; // Must stay below clamd's StreamMaxLength per chunk; 64KB is typical
+}
+
+/**
+ * Minimal clamd client speaking the INSTREAM command over TCP:
+ * `zINSTREAM\0`, then length-prefixed chunks (4-byte big-endian size), then a zero-length chunk.
+ * clamd answers `stream: OK`, `stream: <signature> FOUND` or `<reason> ERROR`.
+ */
+export class ClamAvUploadScanner implements UploadScanner {
+  readonly name = 'clamav';
+
+  constructor(private readonly options: ClamAvScannerOptions) {}
+
+  async scan(filePath: string): Promise<UploadScanResult> {
+    const reply = await this.sendInstream(filePath);
+    return this.parseReply(reply);
+  }
+
+  private sendInstream(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+      const replyChunks: Buffer[] = [];
+      let settled = false;
+      const finish = (error: Error | null, reply?: string) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(reply);
+      };
+
+      socket.setTimeout(this.options.timeoutMs, () => finish(new Error(`clamd did not answer within ${this.options.timeoutMs}ms`)));
+      socket.on('data', (chunk: Buffer) => replyChunks.push(chunk));
+      // clamd may reply and close early (e.g. size limit exceeded), so the reply wins over write errors
+      socket.on('end', () => finish(null, Buffer.concat(replyChunks).toString('utf8')));
+      socket.on('error', (err) => {
+        if (replyChunks.length > 0) finish(null, Buffer.concat(replyChunks).toString('utf8'));
+        else finish(err);
+      });
+      socket.on('connect', () => {
+        this.writeFileChunks(socket, filePath).catch(err => finish(err));
+      });
+    });
+  }
+
+  private async writeFileChunks(socket: net.Socket, filePath: string): Promise<void> {
+    socket.write('zINSTREAM\0');
+    for await (const chunk of fs.createReadStream(filePath, { highWaterMark: this.options.chunkSize })) {
+      const sizeHeader = Buffer.alloc(4);
+      sizeHeader.writeUInt32BE((chunk as Buffer).length, 0);
+      socket.write(sizeHeader);
+      if (!socket.write(chunk) && !socket.destroyed) await once(socket, 'drain');
+      if (socket.destroyed) return;
+    }
+    socket.end(Buffer.alloc(4)); // Zero-length chunk ends the stream
+  }
+
+  private parseReply(rawReply: string): UploadScanResult {
+    const reply = rawReply.replace(/\0/g, '').trim();
+    if (/^stream: OK$/.test(reply)) return { clean: true };
+    const found = /^stream: (.+) FOUND$/.exec(reply);
+    if (found) return { clean: false, signature: found[1] };
+    throw new Error(`Unexpected clamd reply: ${reply || '(empty)'}`);
+  }
+}
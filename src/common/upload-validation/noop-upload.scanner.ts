@@ -0,0 +1,11 @@
+// src/common/upload-validation/noop-upload.scanner.ts
+import { UploadScanner, UploadScanResult } from './upload-scanner.interface';
+
+// Used when UPLOAD_SCANNER=none; content sniffing and allow-lists still apply
+export class NoopUploadScanner implements UploadScanner {
+  readonly name = 'none';
+
+  scan(): Promise<UploadScanResult> {
+    return Promise.resolve({ clean: true });
+  }
+}
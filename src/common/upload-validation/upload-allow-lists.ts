@@ -0,0 +1,115 @@
+// src/common/upload-validation/upload-allow-lists.ts
+import { BadRequestException } from '@nestjs/common';
+import * as express from 'express';
+
+export type UploadCategory = 'gallery' | 'updateAttachment' | 'avatar';
+
+// Types are named as the content sniffer reports them; client-declared variants are mapped via MIME_TYPE_ALIASES.
+// Nothing a browser would render as active content (HTML, SVG, scripts) or could execute belongs here,
+// since public uploads are served from our own origin.
+export const UPLOAD_ALLOW_LISTS: Record<UploadCategory, string[]> = {
+  gallery: [
+    // Images
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/tiff', 'image/bmp',
+    'image/avif', 'image/heic', 'image/heif',
+    // Video
+    'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/vnd.avi',
+    'video/x-matroska', 'video/x-m4v', 'video/mpeg',
+    // Audio
+    'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/aac', 'audio/x-flac',
+    'audio/x-m4a', 'audio/mp4', 'audio/midi',
+  ],
+  updateAttachment: [
+    // Images
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/tiff', 'image/bmp',
+    // Documents
+    'application/pdf', 'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.oasis.opendocument.text',
+    'application/rtf', 'text/plain', 'text/csv',
+    // Spreadsheets
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    // Presentations
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.presentation',
+    // Archives
+    'application/zip',
+    // Audio and video
+    'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/aac', 'audio/x-flac',
+    'video/mp4', 'video/webm', 'video/ogg',
+  ],
+  avatar: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+};
+
+export const UPLOAD_CATEGORY_LABELS: Record<UploadCategory, string> = {
+  gallery: 'gallery uploads',
+  updateAttachment: 'update attachments',
+  avatar: 'avatars',
+};
+
+// Names browsers and OSes use for the same format
+export const MIME_TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-ms-bmp': 'image/bmp',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/flac': 'audio/x-flac',
+  'audio/m4a': 'audio/x-m4a',
+  'audio/x-midi': 'audio/midi',
+  'video/avi': 'video/vnd.avi',
+  'video/x-msvideo': 'video/vnd.avi',
+  'application/x-zip-compressed': 'application/zip',
+};
+
+// Detected types whose signature is shared by other formats; the declared type then decides which one it is
+export const SHARED_SIGNATURE_TYPES: Record<string, string[]> = {
+  'application/x-cfb': ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'],
+  'application/zip': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+  ],
+  'text/plain': ['text/csv'],
+  'image/heic': ['image/heif'],
+  'image/heif': ['image/heic'],
+  'video/webm': ['audio/webm'],
+  'video/ogg': ['audio/ogg'],
+  'audio/ogg': ['video/ogg'],
+  'application/ogg': ['audio/ogg', 'video/ogg'],
+  'video/mp4': ['audio/mp4', 'audio/x-m4a', 'video/x-m4v'],
+  'video/x-m4v': ['video/mp4'],
+  'audio/mp4': ['audio/x-m4a', 'video/mp4'],
+  'audio/x-m4a': ['audio/mp4'],
+};
+
+export function normalizeMimeType(mimeType: string | undefined | null): string {
+  const bare = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+  return MIME_TYPE_ALIASES[bare] ?? bare;
+}
+
+export function isMimeTypeAllowed(category: UploadCategory, mimeType: string): boolean {
+  const normalized = normalizeMimeType(mimeType);
+  return UPLOAD_ALLOW_LISTS[category].includes(normalized);
+}
+
+/**
+ * Multer fileFilter that turns away undeclared or disallowed types before they are written to disk.
+ * This only checks what the client claims; UploadValidationService inspects the content afterwards.
+ */
+export function createUploadFileFilter(category: UploadCategory) {
+  return (req: express.Request, file: Express.Multer.File, cb: (error: Error | null, acceptFile: boolean) => void): void => {
+    if (!isMimeTypeAllowed(category, file.mimetype)) {
+      return cb(new BadRequestException(`File type ${file.mimetype || 'unknown'} is not allowed for ${UPLOAD_CATEGORY_LABELS[category]}.`), false);
+    }
+    cb(null, true);
+  };
+}
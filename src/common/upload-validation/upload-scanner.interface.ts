@@ -0,0 +1,16 @@
+// src/common/upload-validation/upload-scanner.interface.ts
+
+export interface UploadScanResult {
+  clean: boolean;
+  /** Signature name reported by the scanner when the file is infected */
+  signature?: string;
+}
+
+/**
+ * Malware scanner hook run on every staged upload.
+ * Implementations throw when the scan itself could not be completed, so callers can tell that apart from a clean result.
+ */
+export interface UploadScanner {
+  readonly name: string;
+  scan(filePath: string): Promise<UploadScanResult>;
+}
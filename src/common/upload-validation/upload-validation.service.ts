@@ -0,0 +1,238 @@
+// src/common/upload-validation/upload-validation.service.ts
+import { Injectable, Logger, BadRequestException, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as mime from 'mime-types';
+import { StorageService } from '../storage/storage.service';
+import { UploadScanner } from './upload-scanner.interface';
+import { NoopUploadScanner } from './noop-upload.scanner';
+import { ClamAvUploadScanner } from './clamav-upload.scanner';
+import {
+  UploadCategory,
+  UPLOAD_CATEGORY_LABELS,
+  SHARED_SIGNATURE_TYPES,
+  isMimeTypeAllowed,
+  normalizeMimeType,
+} from './upload-allow-lists';
+
+type FileTypeModule = typeof import('file-type');
+
+interface DetectedFileType {
+  mime: string;
+  ext: string;
+}
+
+interface QuarantineRecord {
+  reason: string;
+  category: UploadCategory;
+  originalName: string;
+  declaredMimeType: string;
+  detectedMimeType: string | null;
+  uploaderId: string | null;
+  quarantinedAt: string;
+}
+
+/**
+ * Checks staged uploads before anything is stored: the real type is sniffed from the file's
+ * magic bytes, checked against the category's allow-list, compared with what the client declared,
+ * and passed through the configured malware scanner (UPLOAD_SCANNER = `none` or `clamav`).
+ *
+ * Disallowed files are deleted. Type mismatches and infected files are moved to private
+ * storage under `quarantine/`, with a JSON record alongside, for an admin to inspect.
+ */
+@Injectable()
+export class UploadValidationService {
+  private readonly logger = new Logger(UploadValidationService.name);
+  private readonly QUARANTINE_PREFIX = 'quarantine';
+  private readonly TEXT_SNIFF_BYTES = 8192;
+  private readonly scanner: UploadScanner;
+  private fileTypeModule?: Promise<FileTypeModule>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {
+    this.scanner = this.createScanner();
+    this.logger.log(`Using '${this.scanner.name}' upload scanner.`);
+  }
+
+  /**
+   * Validates one staged upload. On success the file is renamed to the extension of its real type
+   * and `file.mimetype` is replaced with the detected type, so static serving cannot be tricked by
+   * the original name. On rejection the staged file is gone and a 4xx explains why.
+   */
+  async validateUpload(file: Express.Multer.File, category: UploadCategory, uploaderId?: string): Promise<void> {
+    const declaredMimeType = normalizeMimeType(file.mimetype);
+    let detectedType: DetectedFileType | null;
+    try {
+      detectedType = await this.detectFileType(file.path);
+    } catch (error: any) {
+      this.logger.error(`Content sniffing failed for ${file.filename}: ${error.message}`, error.stack);
+      await this.discardStagedFile(file.path);
+      throw new BadRequestException(`${file.originalname} could not be read.`);
+    }
+
+    const detectedMimeType = detectedType?.mime ?? null;
+    const resolvedMimeType = this.resolveMimeType(declaredMimeType, detectedMimeType);
+    if (!detectedMimeType || !isMimeTypeAllowed(category, resolvedMimeType ?? detectedMimeType)) {
+      this.logger.warn(`Rejected ${file.filename} for ${category}: detected=${detectedMimeType ?? 'unknown'}, declared=${declaredMimeType}`);
+      await this.discardStagedFile(file.path);
+      throw new BadRequestException(
+        `${file.originalname} was rejected: its content (${detectedMimeType ?? 'unrecognised format'}) is not an allowed type for ${UPLOAD_CATEGORY_LABELS[category]}.`,
+      );
+    }
+    if (!resolvedMimeType) {
+      const reason = `content is ${detectedMimeType} but it was uploaded as ${declaredMimeType || 'an unknown type'}`;
+      await this.quarantine(file, category, reason, detectedMimeType, uploaderId);
+      throw new BadRequestException(`${file.originalname} was rejected: its ${reason}.`);
+    }
+
+    await this.scanFile(file, category, detectedMimeType, uploaderId);
+    await this.applyDetectedType(file, resolvedMimeType, detectedType);
+  }
+
+  /** Validates a batch all-or-nothing: after the first rejection the remaining staged files are discarded too. */
+  async validateUploads(files: Express.Multer.File[], category: UploadCategory, uploaderId?: string): Promise<void> {
+    for (const [index, file] of files.entries()) {
+      try {
+        await this.validateUpload(file, category, uploaderId);
+      } catch (error) {
+        await Promise.all(files.filter((_, otherIndex) => otherIndex !== index).map(other => this.discardStagedFile(other.path)));
+        throw error;
+      }
+    }
+  }
+
+  // Returns null when the file matches no known signature and is not plain text
+  private async detectFileType(filePath: string): Promise<DetectedFileType | null> {
+    const { fileTypeFromFile } = await this.loadFileType();
+    const fileType = await fileTypeFromFile(filePath);
+    if (fileType) return { mime: normalizeMimeType(fileType.mime), ext: fileType.ext };
+    return this.detectTextType(filePath);
+  }
+
+  // Text formats have no magic bytes: accept valid UTF-8 without NULs, but report markup as HTML so it is never allowed
+  private async detectTextType(filePath: string): Promise<DetectedFileType | null> {
+    const handle = await fsp.open(filePath, 'r');
+    try {
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(this.TEXT_SNIFF_BYTES), 0, this.TEXT_SNIFF_BYTES, 0);
+      const head = buffer.subarray(0, bytesRead);
+      if (head.includes(0)) return null;
+      let text: string;
+      try {
+        // stream: true tolerates a multi-byte character cut off at the end of the sample
+        text = new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+      } catch {
+        return null;
+      }
+      return /^\s*</.test(text.replace(/^\uFEFF/, '')) ? { mime: 'text/html', ext: 'html' } : { mime: 'text/plain', ext: 'txt' };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // The type the file is stored as, or null when the declared type contradicts the content
+  private resolveMimeType(declaredMimeType: string, detectedMimeType: string | null): string | null {
+    if (!detectedMimeType) return null;
+    if (declaredMimeType === detectedMimeType) return detectedMimeType;
+    if (SHARED_SIGNATURE_TYPES[detectedMimeType]?.includes(declaredMimeType)) return declaredMimeType;
+    return null;
+  }
+
+  private async scanFile(file: Express.Multer.File, category: UploadCategory, detectedMimeType: string, uploaderId?: string): Promise<void> {
+    const startTime = Date.now();
+    let result;
+    try {
+      result = await this.scanner.scan(file.path);
+    } catch (error: any) {
+      this.logger.error(`Malware scan of ${file.filename} failed: ${error.message}`);
+      if (this.configService.get<string>('UPLOAD_SCAN_FAIL_OPEN', 'false') === 'true') {
+        this.logger.warn(`UPLOAD_SCAN_FAIL_OPEN is set; accepting unscanned file ${file.filename}`);
+        return;
+      }
+      await this.discardStagedFile(file.path);
+      throw new ServiceUnavailableException('Uploads cannot be scanned right now. Please try again later.');
+    }
+
+    if (!result.clean) {
+      const reason = `malware detected (${result.signature ?? 'unknown signature'})`;
+      await this.quarantine(file, category, reason, detectedMimeType, uploaderId);
+      throw new BadRequestException(`${file.originalname} was rejected: ${reason}.`);
+    }
+    this.logger.debug(`Scanned ${file.filename} with ${this.scanner.name} in ${Date.now() - startTime}ms`);
+  }
+
+  private async applyDetectedType(file: Express.Multer.File, mimeType: string, detectedType: DetectedFileType): Promise<void> {
+    // The sniffer's extension is the conventional one (jpg, mov); a declared sibling type gets its own (doc, csv)
+    const extension = mimeType === detectedType.mime ? detectedType.ext : mime.extension(mimeType) || detectedType.ext;
+    const baseName = path.basename(file.filename, path.extname(file.filename));
+    const fileName = extension ? `${baseName}.${extension}` : baseName;
+    if (fileName !== file.filename) {
+      const filePath = path.join(path.dirname(file.path), fileName);
+      await fsp.rename(file.path, filePath);
+      file.filename = fileName;
+      file.path = filePath;
+    }
+    file.mimetype = mimeType;
+  }
+
+  private async quarantine(
+    file: Express.Multer.File,
+    category: UploadCategory,
+    reason: string,
+    detectedMimeType: string | null,
+    uploaderId?: string,
+  ): Promise<void> {
+    const key = `${this.QUARANTINE_PREFIX}/${file.filename}`;
+    const record: QuarantineRecord = {
+      reason,
+      category,
+      originalName: file.originalname,
+      declaredMimeType: file.mimetype,
+      detectedMimeType,
+      uploaderId: uploaderId ?? null,
+      quarantinedAt: new Date().toISOString(),
+    };
+    this.logger.warn(`Quarantining ${file.filename} from userId=${uploaderId ?? 'unknown'}: ${reason}`);
+    const recordPath = await this.storageService.createStagingPath(`${file.filename}.quarantine.json`);
+    try {
+      await fsp.writeFile(recordPath, JSON.stringify(record, null, 2));
+      await this.storageService.moveFile(key, file.path, { visibility: 'private', contentType: 'application/octet-stream' });
+      await this.storageService.moveFile(`${key}.json`, recordPath, { visibility: 'private', contentType: 'application/json' });
+    } catch (error: any) {
+      // Never leave a suspicious file in staging just because quarantine storage failed
+      this.logger.error(`Failed to quarantine ${file.filename}, deleting it instead: ${error.message}`, error.stack);
+      await this.discardStagedFile(file.path);
+      await this.discardStagedFile(recordPath);
+    }
+  }
+
+  private async discardStagedFile(filePath: string): Promise<void> {
+    try {
+      await fsp.unlink(filePath);
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') this.logger.warn(`Failed to remove staged file ${filePath}: ${err.message}`);
+    }
+  }
+
+  // file-type is ESM-only; eval keeps tsc from compiling the import into require(), as Nest's FileTypeValidator does
+  private loadFileType(): Promise<FileTypeModule> {
+    this.fileTypeModule ??= eval(`import('file-type')`) as Promise<FileTypeModule>;
+    return this.fileTypeModule;
+  }
+
+  private createScanner(): UploadScanner {
+    const scannerName = this.configService.get<string>('UPLOAD_SCANNER', 'none').toLowerCase();
+    if (scannerName === 'clamav') {
+      return new ClamAvUploadScanner({
+        host: this.configService.get<string>('CLAMAV_HOST', '127.0.0.1'),
+        port: Number(this.configService.get<number>('CLAMAV_PORT', 3310)),
+        timeoutMs: Number(this.configService.get<number>('CLAMAV_TIMEOUT_MS', 30000)),
+        chunkSize: 64 * 1024,
+      });
+    }
+    if (scannerName !== 'none') this.logger.warn(`Unknown UPLOAD_SCANNER '${scannerName}'; uploads will not be scanned.`);
+    return new NoopUploadScanner();
+  }
+}
@@ -0,0 +1,16 @@
+// src/common/utils/csv.util.ts
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+function escapeCell(value: string | number | boolean | Date | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row and CRLF line endings. */
+export function toCsv(header: string[], rows: (string | number | boolean | Date | null | undefined)[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,190 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { FileStreamSource, streamFileWithRanges } from './file-streaming.util';
+
+const CONTENT = Buffer.from('0123456789'.repeat(10));
+const LAST_MODIFIED = new Date('2026-01-05T10:00:00Z');
+const ETAG = `"${CONTENT.length.toString(16)}-${LAST_MODIFIED.getTime().toString(16)}"`;
+
+const createRequest = (headers: Record<string, string> = {}): Request => {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { headers: lowerCased, get: (name: string) => lowerCased[name.toLowerCase()] } as unknown as Request;
+};
+
+const createResponse = () => {
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    headers,
+    set(field: string | Record<string, string>, value?: string) {
+      Object.assign(headers, typeof field === 'string' ? { [field]: value } : field);
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+  };
+  return res;
+};
+
+const createSource = (): FileStreamSource & { open: jest.Mock } => ({
+  size: CONTENT.length,
+  lastModified: LAST_MODIFIED,
+  open: jest.fn((range?: { start: number; end: number }) =>
+    Promise.resolve(Readable.from([range ? CONTENT.subarray(range.start, range.end + 1) : CONTENT]))),
+});
+
+const readBody = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+};
+
+const stream = (headers: Record<string, string> = {}) => {
+  const res = createResponse();
+  const source = createSource();
+  const result = streamFileWithRanges(createRequest(headers), res as unknown as Response, source, {
+    contentType: 'video/mp4',
+    contentDisposition: 'attachment; filename="clip.mp4"',
+    cacheControl: 'private, max-age=60',
+  });
+  return { res, source, result };
+};
+
+describe('streamFileWithRanges', () => {
+  it('sends the whole file with validators when there is no Range header', async () => {
+    const { res, source, result } = stream();
+    const file = await result;
+    expect(res.statusCode).toBe(200);
+    expect(res.headers).toMatchObject({
+      'Content-Type': 'video/mp4',
+      'Content-Length': '100',
+      'Accept-Ranges': 'bytes',
+      'ETag': ETAG,
+      'Last-Modified': LAST_MODIFIED.toUTCString(),
+      'Content-Disposition': 'attachment; filename="clip.mp4"',
+      'Cache-Control': 'private, max-age=60',
+    });
+    expect(source.open).toHaveBeenCalledWith();
+    expect(await readBody(file.getStream())).toBe(CONTENT.toString());
+  });
+
+  describe('Range', () => {
+    it('answers a single range with 206 and only those bytes', async () => {
+      const { res, source, result } = stream({ Range: 'bytes=10-19' });
+      const file = await result;
+      expect(res.statusCode).toBe(HttpStatus.PARTIAL_CONTENT);
+      expect(res.headers['Content-Range']).toBe('bytes 10-19/100');
+      expect(res.headers['Content-Length']).toBe('10');
+      expect(source.open).toHaveBeenCalledWith({ start: 10, end: 19 });
+      expect(await readBody(file.getStream())).toBe('0123456789');
+    });
+
+    it('supports suffix and open-ended ranges', async () => {
+      const suffix = stream({ Range: 'bytes=-5' });
+      await suffix.result;
+      expect(suffix.res.headers['Content-Range']).toBe('bytes 95-99/100');
+
+      const openEnded = stream({ Range: 'bytes=90-' });
+      await openEnded.result;
+      expect(openEnded.res.headers['Content-Range']).toBe('bytes 90-99/100');
+    });
+
+    it('clamps a range running past the end of the file', async () => {
+      const { res, result } = stream({ Range: 'bytes=95-200' });
+      await result;
+      expect(res.headers['Content-Range']).toBe('bytes 95-99/100');
+      expect(res.headers['Content-Length']).toBe('5');
+    });
+
+    it('rejects an unsatisfiable range with 416 and the file size', async () => {
+      const { res, source, result } = stream({ Range: 'bytes=200-300' });
+      await expect(result).rejects.toThrow(HttpException);
+      await result.catch((error: HttpException) => expect(error.getStatus()).toBe(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE));
+      expect(res.headers['Content-Range']).toBe('bytes */100');
+      expect(res.headers['Content-Type']).toBeUndefined();
+      expect(res.headers['Content-Disposition']).toBeUndefined();
+      expect(source.open).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the whole file for multiple ranges, other units or a malformed header', async () => {
+      for (const range of ['bytes=0-9,50-59', 'items=0-9', 'bytes 0-9']) {
+        const { res, source, result } = stream({ Range: range });
+        await result;
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['Content-Length']).toBe('100');
+        expect(source.open).toHaveBeenCalledWith();
+      }
+    });
+
+    it('honours an If-Range that matches the current ETag or date', async () => {
+      const byTag = stream({ 'Range': 'bytes=0-9', 'If-Range': ETAG });
+      await byTag.result;
+      expect(byTag.res.statusCode).toBe(HttpStatus.PARTIAL_CONTENT);
+
+      const byDate = stream({ 'Range': 'bytes=0-9', 'If-Range': LAST_MODIFIED.toUTCString() });
+      await byDate.result;
+      expect(byDate.res.statusCode).toBe(HttpStatus.PARTIAL_CONTENT);
+    });
+
+    it('sends the whole file when If-Range is stale', async () => {
+      const byTag = stream({ 'Range': 'bytes=0-9', 'If-Range': '"64-0"' });
+      await byTag.result;
+      expect(byTag.res.statusCode).toBe(200);
+      expect(byTag.source.open).toHaveBeenCalledWith();
+
+      const byDate = stream({ 'Range': 'bytes=0-9', 'If-Range': new Date('2025-01-01T00:00:00Z').toUTCString() });
+      await byDate.result;
+      expect(byDate.res.statusCode).toBe(200);
+    });
+
+    it('compares If-Range strongly, so a weak tag or a later date does not match', async () => {
+      const byWeakTag = stream({ 'Range': 'bytes=0-9', 'If-Range': `W/${ETAG}` });
+      await byWeakTag.result;
+      expect(byWeakTag.res.statusCode).toBe(200);
+      expect(byWeakTag.source.open).toHaveBeenCalledWith();
+
+      const byLaterDate = stream({ 'Range': 'bytes=0-9', 'If-Range': new Date('2027-01-01T00:00:00Z').toUTCString() });
+      await byLaterDate.result;
+      expect(byLaterDate.res.statusCode).toBe(200);
+    });
+  });
+
+  describe('conditional requests', () => {
+    it('answers a matching If-None-Match with 304 and no body', async () => {
+      for (const ifNoneMatch of [ETAG, `W/${ETAG}`, `"other", ${ETAG}`, '*']) {
+        const { res, source, result } = stream({ 'If-None-Match': ifNoneMatch });
+        expect(await result).toBeUndefined();
+        expect(res.statusCode).toBe(HttpStatus.NOT_MODIFIED);
+        expect(res.headers['ETag']).toBe(ETAG);
+        expect(source.open).not.toHaveBeenCalled();
+      }
+    });
+
+    it('answers If-Modified-Since at or after the modification time with 304', async () => {
+      const { res, result } = stream({ 'If-Modified-Since': LAST_MODIFIED.toUTCString() });
+      expect(await result).toBeUndefined();
+      expect(res.statusCode).toBe(HttpStatus.NOT_MODIFIED);
+    });
+
+    it('sends the file when it changed since If-Modified-Since', async () => {
+      const { res, result } = stream({ 'If-Modified-Since': new Date('2025-01-01T00:00:00Z').toUTCString() });
+      expect(await result).toBeDefined();
+      expect(res.statusCode).toBe(200);
+    });
+
+    it('lets If-None-Match take precedence over If-Modified-Since', async () => {
+      const { res, result } = stream({ 'If-None-Match': '"other"', 'If-Modified-Since': LAST_MODIFIED.toUTCString() });
+      expect(await result).toBeDefined();
+      expect(res.statusCode).toBe(200);
+    });
+
+    it('checks validators before the Range header', async () => {
+      const { res, result } = stream({ 'If-None-Match': ETAG, 'Range': 'bytes=0-9' });
+      expect(await result).toBeUndefined();
+      expect(res.statusCode).toBe(HttpStatus.NOT_MODIFIED);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+// src/common/utils/file-streaming.util.ts
+import { HttpException, HttpStatus, StreamableFile } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import rangeParser from 'range-parser';
+
+export interface FileStreamOptions {
+  contentType: string;
+  contentDisposition?: string;
+  cacheControl?: string;
+}
+
+export interface FileStreamSource {
+  size: number;
+  lastModified: Date;
+  open(range?: { start: number; end: number }): Promise<Readable>;
+}
+
+/**
+ * Streams a stored file with conditional and partial request support: sets ETag, Last-Modified and
+ * Accept-Ranges, answers If-None-Match / If-Modified-Since with 304, and a single-range
+ * Range header (honouring If-Range) with 206. Multi-range requests fall back to the full file.
+ * Returns undefined when a 304 has been prepared and no body should be sent.
+ * Callers resolve the source (see StorageService.streamFile) and map missing files themselves.
+ */
+export async function streamFileWithRanges(
+  req: Request,
+  res: Response,
+  source: FileStreamSource,
+  options: FileStreamOptions,
+): Promise<StreamableFile | undefined> {
+  const stats = { size: source.size, mtime: source.lastModified };
+  // Strong, so it can be used with If-Range; size and mtime change whenever the stored file is replaced
+  const etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtime.getTime()).toString(16)}"`;
+  const lastModified = stats.mtime.toUTCString();
+
+  res.set({
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Last-Modified': lastModified,
+  });
+  if (options.cacheControl) res.set('Cache-Control', options.cacheControl);
+
+  if (isNotModified(req, etag, stats.mtime)) {
+    res.status(HttpStatus.NOT_MODIFIED);
+    return undefined;
+  }
+
+  const rangeHeader = req.headers.range;
+  const ranges = rangeHeader && isIfRangeFresh(req, etag, stats.mtime)
+    ? rangeParser(stats.size, rangeHeader, { combine: true })
+    : -2;
+  if (ranges === -1) {
+    // Checked before the entity headers are set, so the error body is not sent as the file
+    res.set('Content-Range', `bytes */${stats.size}`);
+    throw new HttpException('Requested range not satisfiable.', HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE);
+  }
+
+  res.set('Content-Type', options.contentType);
+  if (options.contentDisposition) res.set('Content-Disposition', options.contentDisposition);
+
+  if (ranges !== -2 && ranges.type === 'bytes' && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(HttpStatus.PARTIAL_CONTENT);
+    res.set({
+      'Content-Range': `bytes ${start}-${end}/${stats.size}`,
+      'Content-Length': (end - start + 1).toString(),
+    });
+    return new StreamableFile(await source.open({ start, end }));
+  }
+
+  res.set('Content-Length', stats.size.toString());
+  return new StreamableFile(await source.open());
+}
+
+function isNotModified(req: Request, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    // Weak comparison, as required for If-None-Match
+    const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => stripWeak(tag) === stripWeak(etag));
+  }
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && Math.floor(mtime.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+  return false;
+}
+
+// A stale If-Range means the client's partial copy is outdated, so the whole file is sent instead.
+// Both forms need an exact match: a strong ETag comparison, so weak tags never match, or the exact Last-Modified date.
+function isIfRangeFresh(req: Request, etag: string, mtime: Date): boolean {
+  const ifRange = req.get('if-range');
+  if (!ifRange) return true;
+  if (ifRange.includes('"')) return ifRange.trim() === etag;
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(mtime.getTime() / 1000) === Math.floor(date / 1000);
+}
@@ -0,0 +1,12 @@
+import { IsOptional, IsDateString, IsIn } from 'class-validator';
+
+export class AttendanceQueryDto {
+  // Limits a recurring event's report to one occurrence
+  @IsOptional()
+  @IsDateString()
+  occurrence?: string;
+
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv' = 'json';
+}
@@ -0,0 +1,14 @@
+import { IsOptional, IsEnum, IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { RsvpResponse } from '../entities/event-attendee.entity';
+
+export class AttendeeQueryDto {
+  @IsOptional()
+  @IsEnum(RsvpResponse)
+  response?: RsvpResponse;
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  waitlisted?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { FilterEventDto } from './filter-event.dto';
+
+export class CalendarFeedQueryDto extends FilterEventDto {
+  // Private feed token (see GET /events/feed/token); calendar clients cannot send a bearer header
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
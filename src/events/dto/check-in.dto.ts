@@ -0,0 +1,12 @@
+import { IsJWT, IsOptional, IsDateString } from 'class-validator';
+
+export class CheckInDto {
+  // Scanned from the attendee's QR code (GET /events/:id/ticket)
+  @IsJWT({ message: 'token must be a ticket token.' })
+  token: string;
+
+  // Occurrence of a recurring event; defaults to the one under way or about to start
+  @IsOptional()
+  @IsDateString()
+  occurrence?: string;
+}
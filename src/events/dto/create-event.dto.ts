@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsDateString, IsOptional, IsEnum } from 'class-validator';
+import { IsString, IsNotEmpty, IsDateString, IsOptional, IsEnum, IsArray, MaxLength, IsInt, Min, Max, ArrayMaxSize, IsUUID, IsBoolean } from 'class-validator';
 import { EventStatus } from '../entities/event.entity';
 
 export class CreateEventDto {
@@ -21,6 +21,16 @@ export class CreateEventDto {
   @IsOptional()
   location?: string;
 
+  // Registered venue to book; location defaults to its name
+  @IsUUID()
+  @IsOptional()
+  venueId?: string;
+
+  // Save even if the venue is already booked at that time
+  @IsBoolean()
+  @IsOptional()
+  allowVenueConflict?: boolean;
+
   @IsString()
   @IsNotEmpty()
   organizer: string;
@@ -28,4 +38,30 @@ export class CreateEventDto {
   @IsEnum(EventStatus)
   @IsOptional()
   status?: EventStatus;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number;
+
+  // Minutes before the start, e.g. [1440, 60]; [] turns reminders off
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(30 * 24 * 60, { each: true })
+  @IsOptional()
+  reminderOffsets?: number[];
+
+  // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20261231T000000Z; startDate is the first occurrence
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  recurrenceRule?: string;
+
+  // Occurrence start times to leave out of the series
+  @IsArray()
+  @IsDateString({}, { each: true })
+  @IsOptional()
+  recurrenceExceptions?: string[];
 }
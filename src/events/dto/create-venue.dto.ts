@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, IsOptional, IsArray, IsInt, Min, MaxLength, ArrayMaxSize } from 'class-validator';
+
+export class CreateVenueDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  building?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  @IsOptional()
+  accessibilityFeatures?: string[];
+}
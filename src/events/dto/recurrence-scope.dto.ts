@@ -0,0 +1,24 @@
+// src/events/dto/recurrence-scope.dto.ts
+import { IsOptional, IsEnum, IsDateString, ValidateIf } from 'class-validator';
+
+export enum RecurrenceScope {
+  This = 'this',
+  Following = 'following',
+  All = 'all',
+}
+
+/**
+ * Which part of a recurring event a PATCH/DELETE applies to. Defaults to the whole series; an
+ * occurrence that was already edited on its own is changed alone unless a scope is given.
+ */
+export class RecurrenceScopeDto {
+  @IsOptional()
+  @IsEnum(RecurrenceScope, { message: `scope must be one of: ${Object.values(RecurrenceScope).join(', ')}.` })
+  scope?: RecurrenceScope;
+
+  // Original start of the targeted occurrence (its occurrenceDate); required for 'this' and 'following'.
+  // With 'all' it is optional: new times are then the occurrence's, and the series moves by the difference
+  @ValidateIf((dto: RecurrenceScopeDto) => dto.scope === RecurrenceScope.This || dto.scope === RecurrenceScope.Following)
+  @IsDateString({}, { message: 'occurrence must be the ISO 8601 start of the targeted occurrence.' })
+  occurrence?: string;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { RsvpResponse } from '../entities/event-attendee.entity';
+
+export class RsvpDto {
+  @IsEnum(RsvpResponse, { message: `response must be one of: ${Object.values(RsvpResponse).join(', ')}.` })
+  response: RsvpResponse;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional, IsDateString } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsDateString, IsArray, MaxLength, IsInt, Min, Max, ArrayMaxSize, IsUUID, IsBoolean } from 'class-validator';
 
 export class UpdateEventDto {
   @IsString()
@@ -23,6 +23,16 @@ export class UpdateEventDto {
   @IsOptional()
   location?: string;
 
+  // null frees the venue (location is kept)
+  @IsUUID()
+  @IsOptional()
+  venueId?: string | null;
+
+  // Save even if the venue is already booked at that time
+  @IsBoolean()
+  @IsOptional()
+  allowVenueConflict?: boolean;
+
   @IsString()
   @IsNotEmpty()
   @IsOptional()
@@ -31,4 +41,31 @@ export class UpdateEventDto {
   @IsString()
   @IsOptional()
   status?: 'Upcoming' | 'Ongoing' | 'Completed' | 'Cancelled';
+
+  // Null (on update) removes the limit
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number | null;
+
+  // Minutes before the start, e.g. [1440, 60]; [] turns reminders off; null restores the defaults
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(30 * 24 * 60, { each: true })
+  @IsOptional()
+  reminderOffsets?: number[] | null;
+
+  // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20261231T000000Z; startDate is the first occurrence
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  recurrenceRule?: string; // empty string stops the event repeating
+
+  // Occurrence start times to leave out of the series
+  @IsArray()
+  @IsDateString({}, { each: true })
+  @IsOptional()
+  recurrenceExceptions?: string[];
 }
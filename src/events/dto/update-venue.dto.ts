@@ -0,0 +1,28 @@
+import { IsString, IsNotEmpty, IsOptional, IsArray, IsInt, Min, MaxLength, ArrayMaxSize } from 'class-validator';
+
+export class UpdateVenueDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @IsOptional()
+  name?: string;
+
+  // null clears the building
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  building?: string | null;
+
+  // null clears the capacity
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number | null;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  @IsOptional()
+  accessibilityFeatures?: string[];
+}
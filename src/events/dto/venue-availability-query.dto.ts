@@ -0,0 +1,9 @@
+import { IsDateString } from 'class-validator';
+
+export class VenueAvailabilityQueryDto {
+  @IsDateString()
+  from: string;
+
+  @IsDateString()
+  to: string;
+}
@@ -0,0 +1,25 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+// Secret that lets calendar clients fetch a user's event feed without a bearer token; one per user
+@Entity()
+export class CalendarFeedToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  token: string;
+
+  @Column({ type: 'uuid', unique: true })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+}
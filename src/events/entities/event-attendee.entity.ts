@@ -0,0 +1,48 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { Event } from './event.entity';
+import { User } from '../../auth/entities/user.entity';
+
+export enum RsvpResponse {
+  Going = 'going',
+  Interested = 'interested',
+  NotGoing = 'not_going',
+}
+
+// A user's RSVP to an event (for a recurring event, to the series)
+@Entity()
+@Index('idx_event_attendee_unique', ['eventId', 'userId'], { unique: true })
+@Index('idx_event_attendee_waitlist', ['eventId', 'waitlisted', 'waitlistedAt'])
+export class EventAttendee {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'enum', enum: RsvpResponse })
+  response: RsvpResponse;
+
+  // 'going' but over capacity; promoted in waitlistedAt order as seats free up
+  @Column({ default: false })
+  waitlisted: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  waitlistedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
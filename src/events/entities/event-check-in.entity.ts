@@ -0,0 +1,39 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Event } from './event.entity';
+import { User } from '../../auth/entities/user.entity';
+
+// Recorded attendance of one user at one occurrence of an event (the epoch for one-off events, so
+// rescheduling them never splits their check-ins)
+@Entity()
+@Index('idx_event_check_in_unique', ['eventId', 'userId', 'occurrenceDate'], { unique: true })
+export class EventCheckIn {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'timestamp' })
+  occurrenceDate: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  checkedInById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'checkedInById' })
+  checkedInBy?: User | null;
+
+  @CreateDateColumn()
+  checkedInAt: Date;
+}
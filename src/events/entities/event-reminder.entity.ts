@@ -0,0 +1,42 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Event } from './event.entity';
+
+export enum ReminderStatus {
+  Pending = 'pending',
+  Sent = 'sent',
+  Skipped = 'skipped', // Event cancelled, deleted or already started when the reminder came due
+}
+
+// One reminder for one occurrence of an event, sent `offsetMinutes` before it starts
+@Entity()
+@Index('idx_event_reminder_unique', ['eventId', 'occurrenceDate', 'offsetMinutes'], { unique: true })
+@Index('idx_event_reminder_due', ['status', 'remindAt'])
+export class EventReminder {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'timestamp' })
+  occurrenceDate: Date;
+
+  @Column({ type: 'int' })
+  offsetMinutes: number;
+
+  @Column({ type: 'timestamp' })
+  remindAt: Date;
+
+  @Column({ type: 'enum', enum: ReminderStatus, default: ReminderStatus.Pending })
+  status: ReminderStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,6 +1,7 @@
-import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import { Column, Entity, ManyToOne, JoinColumn, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Index } from 'typeorm';
 import type { IUser } from '../../common/interfaces/entities.interface';
 import { User } from '../../auth/entities/user.entity';
+import { Venue } from './venue.entity';
 
 export enum EventStatus {
   Upcoming = 'Upcoming',
@@ -10,6 +11,8 @@ export enum EventStatus {
 }
 
 @Entity()
+@Index('idx_event_series_occurrence', ['seriesId', 'originalStartDate'])
+@Index('idx_event_venue_start', ['venueId', 'startDate'])
 export class Event {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -29,15 +32,68 @@ export class Event {
   @Column({ nullable: true })
   location?: string;
 
+  // Registered venue the event books; location then holds its name for display
+  @Column({ type: 'uuid', nullable: true })
+  venueId: string | null;
+
+  @ManyToOne(() => Venue, { nullable: true, onDelete: 'SET NULL', eager: true })
+  @JoinColumn({ name: 'venueId' })
+  venue?: Venue | null;
+
   @Column()
   organizer: string;
 
   @Column({ type: 'enum', enum: EventStatus, default: EventStatus.Upcoming })
   status: "Upcoming" | "Ongoing" | "Completed" | "Cancelled";
 
+  // Seats for 'going' RSVPs; further RSVPs join the waitlist. Null means unlimited
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null;
+
+  // Minutes before each start to remind attendees; null uses EVENT_REMINDER_OFFSETS, [] disables reminders
+  @Column({ type: 'jsonb', nullable: true })
+  reminderOffsets: number[] | null;
+
+  // RFC 5545 RRULE without DTSTART (startDate is the first occurrence), e.g. FREQ=WEEKLY;BYDAY=MO;UNTIL=20261220T000000Z
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  recurrenceRule: string | null;
+
+  // Original start times (ISO) of occurrences removed from the series, as in EXDATE
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  recurrenceExceptions: string[];
+
+  // End of the last occurrence, null for open-ended series; lets range queries skip finished series
+  @Column({ type: 'timestamp', nullable: true })
+  recurrenceEndsAt: Date | null;
+
+  // Set on a single occurrence edited apart from its series: the series and the occurrence start it replaces
+  @Column({ type: 'uuid', nullable: true })
+  seriesId: string | null;
+
+  @ManyToOne(() => Event, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'seriesId' })
+  series?: Event | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  originalStartDate: Date | null;
+
   @ManyToOne(() => User, (user) => user.events, { eager: true })
   createdBy: IUser;
 
   @CreateDateColumn()
   createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Set while the event is in the trash
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  deletedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deletedById' })
+  deletedBy?: User | null;
 }
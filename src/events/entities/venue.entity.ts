@@ -0,0 +1,28 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+// A bookable place (lecture hall, grounds, ...); events held there cannot overlap unless explicitly allowed
+@Entity()
+export class Venue {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  building: string | null;
+
+  // Seats; an event's capacity may not exceed it. Null means not recorded
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null;
+
+  // e.g. wheelchair-access, hearing-loop, accessible-toilets
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  accessibilityFeatures: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,274 @@
+// src/events/event-attendance.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, LessThan, Repository } from 'typeorm';
+import { Event, EventStatus } from './entities/event.entity';
+import { EventAttendee, RsvpResponse } from './entities/event-attendee.entity';
+import { User } from '../auth/entities/user.entity';
+import { RsvpDto } from './dto/rsvp.dto';
+import { AttendeeQueryDto } from './dto/attendee-query.dto';
+import { AttendeeSummary, EventAttendanceCounts, EventAttendeeList, RsvpStatus } from './interfaces/event-attendance.interface';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+
+/**
+ * RSVPs, capacity and the waitlist. Seat allocation runs in a transaction holding a row lock on
+ * the event, so concurrent RSVPs cannot overbook it; freed seats go to the longest-waiting users.
+ * RSVPs to a single edited occurrence of a recurring event are recorded against the series.
+ */
+@Injectable()
+export class EventAttendanceService {
+  private readonly logger = new Logger(EventAttendanceService.name);
+
+  constructor(
+    @InjectRepository(EventAttendee)
+    private readonly attendeeRepository: Repository<EventAttendee>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async rsvp(user: User, eventId: string, rsvpDto: RsvpDto): Promise<RsvpStatus> {
+    const event = await this.findRsvpEvent(eventId);
+    if (event.status === EventStatus.Cancelled || event.status === EventStatus.Completed) {
+      throw new BadRequestException(`Cannot RSVP to a ${event.status.toLowerCase()} event.`);
+    }
+
+    let promoted: EventAttendee[] = [];
+    try {
+      await this.eventRepository.manager.transaction(async manager => {
+        const locked = await this.lockEvent(manager, event.id);
+        let attendee = await manager.findOne(EventAttendee, { where: { eventId: event.id, userId: user.id } });
+        const wasSeated = this.isSeated(attendee);
+        attendee ??= manager.create(EventAttendee, { eventId: event.id, userId: user.id });
+
+        if (rsvpDto.response !== RsvpResponse.Going) {
+          attendee.waitlisted = false;
+          attendee.waitlistedAt = null;
+        } else if (attendee.response !== RsvpResponse.Going) {
+          // Someone already going keeps their seat or place in the queue
+          const full = locked.capacity !== null && await this.countSeated(manager, event.id) >= locked.capacity;
+          attendee.waitlisted = full;
+          attendee.waitlistedAt = full ? new Date() : null;
+        }
+        attendee.response = rsvpDto.response;
+        await manager.save(attendee);
+
+        if (wasSeated && !this.isSeated(attendee)) promoted = await this.promoteWaitlisted(manager, locked);
+      });
+    } catch (error: any) {
+      this.logger.error(`Error saving RSVP of user ${user.id} for event ${event.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to save RSVP.');
+    }
+    this.logger.log(`User ${user.id} RSVP'd '${rsvpDto.response}' to event ${event.id}`);
+
+    await this.notifyPromoted(event, promoted);
+    return this.getRsvp(user, event.id);
+  }
+
+  async cancelRsvp(user: User, eventId: string): Promise<void> {
+    const event = await this.findRsvpEvent(eventId);
+    let promoted: EventAttendee[] = [];
+    try {
+      await this.eventRepository.manager.transaction(async manager => {
+        const locked = await this.lockEvent(manager, event.id);
+        const attendee = await manager.findOne(EventAttendee, { where: { eventId: event.id, userId: user.id } });
+        if (!attendee) throw new NotFoundException('You have not RSVP\'d to this event.');
+        await manager.delete(EventAttendee, { id: attendee.id });
+        if (this.isSeated(attendee)) promoted = await this.promoteWaitlisted(manager, locked);
+      });
+    } catch (error: any) {
+      if (error instanceof NotFoundException) throw error;
+      this.logger.error(`Error cancelling RSVP of user ${user.id} for event ${event.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to cancel RSVP.');
+    }
+    this.logger.log(`User ${user.id} withdrew their RSVP to event ${event.id}`);
+    await this.notifyPromoted(event, promoted);
+  }
+
+  async getRsvp(user: User, eventId: string): Promise<RsvpStatus> {
+    const event = await this.findRsvpEvent(eventId);
+    const attendee = await this.attendeeRepository.findOne({ where: { eventId: event.id, userId: user.id } });
+    if (!attendee) throw new NotFoundException('You have not RSVP\'d to this event.');
+
+    const waitlistPosition = attendee.waitlisted
+      ? await this.attendeeRepository.count({
+        where: { eventId: event.id, waitlisted: true, waitlistedAt: LessThan(attendee.waitlistedAt) },
+      }) + 1
+      : null;
+    return {
+      eventId: event.id,
+      response: attendee.response,
+      waitlisted: attendee.waitlisted,
+      waitlistPosition,
+      counts: await this.getCounts(event),
+    };
+  }
+
+  // Visible to the event's creator and to Admin/Staff
+  async getAttendees(user: User, eventId: string, queryDto: AttendeeQueryDto): Promise<EventAttendeeList> {
+    const event = await this.findRsvpEvent(eventId);
+    this.assertCanViewAttendees(user, event);
+
+    const queryBuilder = this.attendeeRepository.createQueryBuilder('attendee')
+      .innerJoin('attendee.user', 'user')
+      .select(['attendee', 'user.id', 'user.fullName', 'user.email', 'user.avatar'])
+      .where('attendee.eventId = :eventId', { eventId: event.id });
+    if (queryDto.response) queryBuilder.andWhere('attendee.response = :response', { response: queryDto.response });
+    if (queryDto.waitlisted !== undefined) queryBuilder.andWhere('attendee.waitlisted = :waitlisted', { waitlisted: queryDto.waitlisted });
+    queryBuilder
+      .orderBy('attendee.response', 'ASC')
+      .addOrderBy('attendee.waitlisted', 'ASC')
+      .addOrderBy('attendee.waitlistedAt', 'ASC')
+      .addOrderBy('attendee.createdAt', 'ASC');
+
+    try {
+      const attendees = await queryBuilder.getMany();
+      return {
+        counts: await this.getCounts(event),
+        attendees: attendees.map(attendee => this.toAttendeeSummary(attendee)),
+      };
+    } catch (error: any) {
+      this.logger.error(`Error fetching attendees for event ${event.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch attendees.');
+    }
+  }
+
+  // Called after an event's capacity changed; hands any newly available seats to the waitlist
+  async fillOpenSeats(eventId: string): Promise<void> {
+    const event = await this.eventRepository.findOne({ where: { id: eventId } });
+    if (!event) return;
+    const promoted = await this.eventRepository.manager.transaction(async manager =>
+      this.promoteWaitlisted(manager, await this.lockEvent(manager, eventId)),
+    );
+    await this.notifyPromoted(event, promoted);
+  }
+
+  // Tells everyone going or interested (waitlist included) about a change to the event
+  async notifyAttendees(event: Event, message: string, excludeUserId?: string): Promise<void> {
+    const attendees = await this.attendeeRepository.find({
+      where: { eventId: event.seriesId ?? event.id, response: In([RsvpResponse.Going, RsvpResponse.Interested]) },
+      select: ['userId'],
+    });
+    const recipients = attendees.filter(attendee => attendee.userId !== excludeUserId);
+    if (recipients.length === 0) return;
+
+    await Promise.all(recipients.map(attendee =>
+      this.notificationsService.createNotification({
+        userId: attendee.userId,
+        message,
+        type: NotificationType.Event,
+        referenceId: event.id,
+      }).catch(error => {
+        this.logger.error(`Failed send event notification to attendee ${attendee.userId} for event ${event.id}: ${error.message}`);
+      }),
+    ));
+    this.logger.log(`Sent/attempted notifications to ${recipients.length} attendees of event ${event.id}`);
+  }
+
+  assertCanViewAttendees(user: User, event: Event): void {
+    if (user.role !== UserRole.Admin && user.role !== UserRole.Staff && event.createdBy?.id !== user.id) {
+      throw new ForbiddenException('Only the event creator, Admin or Staff can view attendees.');
+    }
+  }
+
+  // The event RSVPs are recorded against: the series for an edited occurrence
+  async findRsvpEvent(eventId: string): Promise<Event> {
+    const event = await this.eventRepository.findOne({ where: { id: eventId } });
+    if (!event) {
+      this.logger.warn(`Event not found for RSVP: ID=${eventId}`);
+      throw new NotFoundException(`Event not found: ${eventId}`);
+    }
+    if (!event.seriesId) return event;
+    const series = await this.eventRepository.findOne({ where: { id: event.seriesId } });
+    return series ?? event;
+  }
+
+  // Serialises seat allocation for one event; the query builder does not join the eager createdBy relation
+  private async lockEvent(manager: EntityManager, eventId: string): Promise<Event> {
+    return manager.getRepository(Event).createQueryBuilder('event')
+      .setLock('pessimistic_write')
+      .where('event.id = :eventId', { eventId })
+      .getOneOrFail();
+  }
+
+  private async promoteWaitlisted(manager: EntityManager, event: Event): Promise<EventAttendee[]> {
+    const openSeats = event.capacity === null ? undefined : event.capacity - await this.countSeated(manager, event.id);
+    if (openSeats !== undefined && openSeats <= 0) return [];
+
+    const promoted = await manager.find(EventAttendee, {
+      where: { eventId: event.id, waitlisted: true },
+      order: { waitlistedAt: 'ASC' },
+      take: openSeats,
+    });
+    if (promoted.length === 0) return [];
+    await manager.update(EventAttendee, { id: In(promoted.map(attendee => attendee.id)) }, { waitlisted: false, waitlistedAt: null });
+    this.logger.log(`Promoted ${promoted.length} waitlisted attendee(s) for event ${event.id}`);
+    return promoted;
+  }
+
+  private async notifyPromoted(event: Event, promoted: EventAttendee[]): Promise<void> {
+    await Promise.all(promoted.map(attendee =>
+      this.notificationsService.createNotification({
+        userId: attendee.userId,
+        message: `A seat opened up: you're now going to "${event.title}".`,
+        type: NotificationType.Event,
+        referenceId: event.id,
+      }).catch(error => {
+        this.logger.error(`Failed send waitlist promotion notification to user ${attendee.userId} for event ${event.id}: ${error.message}`);
+      }),
+    ));
+  }
+
+  countSeated(manager: EntityManager, eventId: string): Promise<number> {
+    return manager.count(EventAttendee, { where: { eventId, response: RsvpResponse.Going, waitlisted: false } });
+  }
+
+  isSeated(attendee: EventAttendee | null): boolean {
+    return attendee?.response === RsvpResponse.Going && !attendee.waitlisted;
+  }
+
+  private async getCounts(event: Event): Promise<EventAttendanceCounts> {
+    const rows: { response: RsvpResponse; waitlisted: boolean; count: string }[] = await this.attendeeRepository
+      .createQueryBuilder('attendee')
+      .select('attendee.response', 'response')
+      .addSelect('attendee.waitlisted', 'waitlisted')
+      .addSelect('COUNT(*)', 'count')
+      .where('attendee.eventId = :eventId', { eventId: event.id })
+      .groupBy('attendee.response')
+      .addGroupBy('attendee.waitlisted')
+      .getRawMany();
+
+    const counts: EventAttendanceCounts = { going: 0, interested: 0, notGoing: 0, waitlisted: 0, capacity: event.capacity, seatsLeft: null };
+    rows.forEach(row => {
+      const count = Number(row.count);
+      if (row.waitlisted) counts.waitlisted += count;
+      else if (row.response === RsvpResponse.Going) counts.going += count;
+      else if (row.response === RsvpResponse.Interested) counts.interested += count;
+      else counts.notGoing += count;
+    });
+    if (event.capacity !== null) counts.seatsLeft = Math.max(event.capacity - counts.going, 0);
+    return counts;
+  }
+
+  private toAttendeeSummary(attendee: EventAttendee): AttendeeSummary {
+    return {
+      userId: attendee.userId,
+      fullName: attendee.user.fullName,
+      email: attendee.user.email,
+      avatar: attendee.user.avatar,
+      response: attendee.response,
+      waitlisted: attendee.waitlisted,
+      waitlistedAt: attendee.waitlistedAt,
+      respondedAt: attendee.updatedAt,
+    };
+  }
+}
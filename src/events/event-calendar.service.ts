@@ -0,0 +1,93 @@
+// src/events/event-calendar.service.ts
+import { Injectable, InternalServerErrorException, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Event } from './entities/event.entity';
+import { CalendarFeedToken } from './entities/calendar-feed-token.entity';
+import { User } from '../auth/entities/user.entity';
+import { EventsService } from './events.service';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { CalendarFeedLink } from './interfaces/calendar-feed.interface';
+import { CalendarOptions, renderCalendar } from './utils/ical.util';
+
+/**
+ * iCalendar export of events: single-event downloads and a subscribable feed authenticated by a
+ * per-user token in the URL. Series are exported with their RRULE/EXDATEs and edited occurrences
+ * as RECURRENCE-ID overrides, all under stable UIDs.
+ */
+@Injectable()
+export class EventCalendarService {
+  private readonly logger = new Logger(EventCalendarService.name);
+
+  constructor(
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    @InjectRepository(CalendarFeedToken)
+    private readonly feedTokenRepository: Repository<CalendarFeedToken>,
+    private readonly eventsService: EventsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getEventCalendar(id: string): Promise<string> {
+    const event = await this.eventRepository.findOne({ where: { id } });
+    if (!event) {
+      this.logger.warn(`Event not found for iCalendar export: ID=${id}`);
+      throw new NotFoundException(`Event not found: ${id}`);
+    }
+    // A series goes out together with its separately edited occurrences
+    const overrides = event.recurrenceRule
+      ? await this.eventRepository.find({ where: { seriesId: event.id }, order: { startDate: 'ASC' } })
+      : [];
+    return renderCalendar([event, ...overrides], this.getCalendarOptions(event.title));
+  }
+
+  async getFeed(queryDto: CalendarFeedQueryDto): Promise<string> {
+    const { token, ...filterDto } = queryDto;
+    const feedToken = await this.feedTokenRepository.findOne({ where: { token } });
+    if (!feedToken) {
+      this.logger.warn('Calendar feed requested with an unknown token');
+      throw new UnauthorizedException('Invalid calendar feed token.');
+    }
+
+    const events = await this.eventsService.getCalendarEvents(filterDto);
+    this.feedTokenRepository.update({ id: feedToken.id }, { lastUsedAt: new Date() })
+      .catch(error => this.logger.warn(`Failed to record calendar feed use for user ${feedToken.userId}: ${error.message}`));
+    this.logger.log(`Serving calendar feed with ${events.length} events to user ID=${feedToken.userId}`);
+    return renderCalendar(events, this.getCalendarOptions('CIVE Events'));
+  }
+
+  async getFeedLink(user: User): Promise<CalendarFeedLink> {
+    const existing = await this.feedTokenRepository.findOne({ where: { userId: user.id } });
+    if (existing) return this.toFeedLink(existing.token);
+    return this.rotateFeedToken(user);
+  }
+
+  // Issues a new token; the previous feed URL stops working immediately
+  async rotateFeedToken(user: User): Promise<CalendarFeedLink> {
+    const token = randomBytes(32).toString('hex');
+    try {
+      await this.feedTokenRepository.upsert({ userId: user.id, token, lastUsedAt: null }, ['userId']);
+      this.logger.log(`Issued calendar feed token for user ID=${user.id}`);
+      return this.toFeedLink(token);
+    } catch (error: any) {
+      this.logger.error(`Failed to issue calendar feed token for user ${user.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to create calendar feed link.');
+    }
+  }
+
+  private toFeedLink(token: string): CalendarFeedLink {
+    const apiUrl = this.configService.get<string>('API_PUBLIC_URL', 'http://localhost:5050/api/v1/cive-gallery');
+    return { token, url: `${apiUrl}/events/feed.ics?token=${token}` };
+  }
+
+  private getCalendarOptions(name: string): CalendarOptions {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    return {
+      name,
+      uidDomain: this.configService.get<string>('CALENDAR_UID_DOMAIN', 'cive-gallery'),
+      eventUrl: event => `${frontendUrl}/events/${event.seriesId ?? event.id}`,
+    };
+  }
+}
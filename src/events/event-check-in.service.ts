@@ -0,0 +1,207 @@
+// src/events/event-check-in.service.ts
+import { BadRequestException, Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+import { Event, EventStatus } from './entities/event.entity';
+import { EventAttendee, RsvpResponse } from './entities/event-attendee.entity';
+import { EventCheckIn } from './entities/event-check-in.entity';
+import { User } from '../auth/entities/user.entity';
+import { EventAttendanceService } from './event-attendance.service';
+import { CheckInDto } from './dto/check-in.dto';
+import { AttendanceQueryDto } from './dto/attendance-query.dto';
+import { AttendanceReport, CheckInResult, EventTicket } from './interfaces/event-attendance.interface';
+import { getOccurrenceAtOrBefore, isOccurrenceStart } from './utils/recurrence.util';
+import { toCsv } from '../common/utils/csv.util';
+
+const TICKET_TYPE = 'event-ticket';
+
+interface TicketPayload {
+  sub: string; // EventAttendee id
+  evt: string;
+  typ: typeof TICKET_TYPE;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Attendees may be checked in to a recurring event's occurrence this long before it starts
+const EARLY_CHECK_IN_MS = 2 * 60 * 60 * 1000;
+// One-off events have a single occurrence, so their check-ins share this key whatever the start date
+const ONE_OFF_OCCURRENCE_MS = 0;
+
+/**
+ * QR tickets and attendance. A ticket is a JWT naming the attendee's RSVP, signed with a key
+ * separate from the login tokens' so neither can stand in for the other. Check-ins are unique per
+ * user and occurrence, so scanning a ticket twice is harmless.
+ */
+@Injectable()
+export class EventCheckInService {
+  private readonly logger = new Logger(EventCheckInService.name);
+
+  constructor(
+    @InjectRepository(EventCheckIn)
+    private readonly checkInRepository: Repository<EventCheckIn>,
+    @InjectRepository(EventAttendee)
+    private readonly attendeeRepository: Repository<EventAttendee>,
+    private readonly eventAttendanceService: EventAttendanceService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async issueTicket(user: User, eventId: string): Promise<EventTicket> {
+    const event = await this.eventAttendanceService.findRsvpEvent(eventId);
+    if (event.status === EventStatus.Cancelled) throw new BadRequestException('This event has been cancelled.');
+    const attendee = await this.attendeeRepository.findOne({ where: { eventId: event.id, userId: user.id } });
+    if (!this.eventAttendanceService.isSeated(attendee)) {
+      throw new BadRequestException('A ticket requires a confirmed RSVP (going, not waitlisted).');
+    }
+
+    // Valid until a day after the event (or the last occurrence of a series; a year for open-ended ones)
+    const lastEnd = event.recurrenceRule ? event.recurrenceEndsAt : (event.endDate ?? event.startDate);
+    const expiresAt = lastEnd ? new Date(new Date(lastEnd).getTime() + DAY_MS) : new Date(Date.now() + 365 * DAY_MS);
+    const expiresInSeconds = Math.max(Math.floor((expiresAt.getTime() - Date.now()) / 1000), 60 * 60);
+    const payload: TicketPayload = { sub: attendee.id, evt: event.id, typ: TICKET_TYPE };
+    const token = this.jwtService.sign(payload, { secret: this.getTicketSecret(), expiresIn: expiresInSeconds });
+    return { eventId: event.id, token, expiresAt: new Date(Date.now() + expiresInSeconds * 1000) };
+  }
+
+  async checkIn(staff: User, eventId: string, checkInDto: CheckInDto): Promise<CheckInResult> {
+    const event = await this.eventAttendanceService.findRsvpEvent(eventId);
+    if (event.status === EventStatus.Cancelled) throw new BadRequestException('This event has been cancelled.');
+
+    let payload: TicketPayload;
+    try {
+      payload = this.jwtService.verify<TicketPayload>(checkInDto.token, { secret: this.getTicketSecret() });
+    } catch (error: any) {
+      this.logger.warn(`Rejected check-in ticket for event ${event.id}: ${error.message}`);
+      throw new BadRequestException('Invalid or expired ticket.');
+    }
+    if (payload.typ !== TICKET_TYPE || payload.evt !== event.id) {
+      throw new BadRequestException('This ticket is not for this event.');
+    }
+
+    const attendee = await this.attendeeRepository.findOne({ where: { id: payload.sub, eventId: event.id }, relations: ['user'] });
+    if (!attendee || !this.eventAttendanceService.isSeated(attendee)) {
+      throw new BadRequestException('This ticket is no longer valid: the RSVP was withdrawn or is waitlisted.');
+    }
+
+    const occurrenceDate = this.resolveCheckInOccurrence(event, checkInDto.occurrence);
+    try {
+      const result = await this.checkInRepository.createQueryBuilder()
+        .insert()
+        .into(EventCheckIn)
+        .values({ eventId: event.id, userId: attendee.userId, occurrenceDate, checkedInById: staff.id })
+        .orIgnore()
+        .execute();
+      const alreadyCheckedIn = (result.raw as unknown[]).length === 0;
+      const checkIn = await this.checkInRepository.findOneOrFail({ where: { eventId: event.id, userId: attendee.userId, occurrenceDate } });
+      this.logger.log(`${alreadyCheckedIn ? 'Repeated' : 'Recorded'} check-in of user ${attendee.userId} to event ${event.id} by ${staff.id}`);
+      return {
+        alreadyCheckedIn,
+        occurrenceDate: event.recurrenceRule ? occurrenceDate : new Date(event.startDate),
+        checkedInAt: checkIn.checkedInAt,
+        attendee: {
+          userId: attendee.userId,
+          fullName: attendee.user.fullName,
+          email: attendee.user.email,
+          avatar: attendee.user.avatar,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error(`Error recording check-in for event ${event.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to record check-in.');
+    }
+  }
+
+  async getAttendanceReport(user: User, eventId: string, queryDto: AttendanceQueryDto): Promise<AttendanceReport> {
+    const event = await this.eventAttendanceService.findRsvpEvent(eventId);
+    this.eventAttendanceService.assertCanViewAttendees(user, event);
+
+    const occurrenceDate = queryDto.occurrence ? new Date(queryDto.occurrence) : null;
+    const singleOccurrence = !event.recurrenceRule || occurrenceDate !== null;
+
+    try {
+      const checkInQuery = this.checkInRepository.createQueryBuilder('checkIn')
+        .innerJoin('checkIn.user', 'user')
+        .select(['checkIn', 'user.id', 'user.fullName', 'user.email'])
+        .where('checkIn.eventId = :eventId', { eventId: event.id })
+        .orderBy('checkIn.occurrenceDate', 'ASC')
+        .addOrderBy('checkIn.checkedInAt', 'ASC');
+      if (event.recurrenceRule && occurrenceDate) checkInQuery.andWhere('checkIn.occurrenceDate = :occurrenceDate', { occurrenceDate });
+      const checkIns = await checkInQuery.getMany();
+      // One-off check-ins are keyed by the epoch; the report shows the event's start date instead
+      const occurrenceOf = (checkIn: EventCheckIn) => event.recurrenceRule ? checkIn.occurrenceDate : event.startDate;
+
+      const registered = await this.attendeeRepository.find({
+        where: { eventId: event.id, response: RsvpResponse.Going, waitlisted: false },
+        relations: ['user'],
+        order: { createdAt: 'ASC' },
+      });
+      const checkedInUserIds = new Set(checkIns.map(checkIn => checkIn.userId));
+      const noShows = singleOccurrence ? registered.filter(attendee => !checkedInUserIds.has(attendee.userId)) : [];
+
+      const perOccurrence = new Map<number, number>();
+      checkIns.forEach(checkIn => {
+        const key = new Date(occurrenceOf(checkIn)).getTime();
+        perOccurrence.set(key, (perOccurrence.get(key) ?? 0) + 1);
+      });
+
+      return {
+        eventId: event.id,
+        title: event.title,
+        occurrenceDate: event.recurrenceRule ? occurrenceDate : event.startDate,
+        counts: {
+          registered: registered.length,
+          checkedIn: checkedInUserIds.size,
+          noShows: singleOccurrence ? noShows.length : null,
+          attendanceRate: singleOccurrence && registered.length > 0
+            ? Math.round(((registered.length - noShows.length) / registered.length) * 1000) / 1000
+            : null,
+        },
+        occurrences: [...perOccurrence.entries()].map(([time, checkedIn]) => ({ occurrenceDate: new Date(time), checkedIn })),
+        checkIns: checkIns.map(checkIn => ({
+          userId: checkIn.userId,
+          fullName: checkIn.user.fullName,
+          email: checkIn.user.email,
+          occurrenceDate: occurrenceOf(checkIn),
+          checkedInAt: checkIn.checkedInAt,
+        })),
+        noShows: noShows.map(attendee => ({ userId: attendee.userId, fullName: attendee.user.fullName, email: attendee.user.email })),
+      };
+    } catch (error: any) {
+      this.logger.error(`Error building attendance report for event ${event.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to build attendance report.');
+    }
+  }
+
+  // One row per check-in, followed by the no-shows when the report covers a single occurrence
+  toCsv(report: AttendanceReport): string {
+    const rows = [
+      ...report.checkIns.map(record => [record.fullName, record.email, record.occurrenceDate, 'yes', record.checkedInAt]),
+      ...report.noShows.map(attendee => [attendee.fullName, attendee.email, report.occurrenceDate, 'no', null]),
+    ];
+    return toCsv(['name', 'email', 'occurrence', 'attended', 'checked_in_at'], rows);
+  }
+
+  private resolveCheckInOccurrence(event: Event, occurrence?: string): Date {
+    if (!event.recurrenceRule) return new Date(ONE_OFF_OCCURRENCE_MS);
+    if (occurrence) {
+      const occurrenceDate = new Date(occurrence);
+      if (!isOccurrenceStart(event, occurrenceDate)) {
+        throw new BadRequestException(`${occurrenceDate.toISOString()} is not an occurrence of this event.`);
+      }
+      return occurrenceDate;
+    }
+    const current = getOccurrenceAtOrBefore(event, new Date(Date.now() + EARLY_CHECK_IN_MS));
+    if (!current) throw new NotFoundException('No occurrence of this event is under way.');
+    return current;
+  }
+
+  private getTicketSecret(): string {
+    const secret = this.configService.get<string>('EVENT_TICKET_SECRET');
+    if (secret) return secret;
+    // Derived rather than reused, so a ticket never verifies as a login token
+    return createHmac('sha256', this.configService.get<string>('JWT_SECRET', '')).update(TICKET_TYPE).digest('hex');
+  }
+}
@@ -0,0 +1,105 @@
+// src/events/event-content.service.ts
+import { Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { Event } from './entities/event.entity';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
+import { EventContentQueryDto } from './dto/event-content-query.dto';
+import { EventRelatedContent } from './interfaces/event-content.interface';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+
+const PREVIEW_MEDIA_COUNT = 6;
+const PREVIEW_UPDATE_COUNT = 3;
+
+/**
+ * Gallery items and updates linked to events. Only approved content is listed; a series lists the
+ * content of its separately edited occurrences along with its own.
+ */
+@Injectable()
+export class EventContentService {
+  private readonly logger = new Logger(EventContentService.name);
+
+  constructor(
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    @InjectRepository(Update)
+    private readonly updateRepository: Repository<Update>,
+  ) {}
+
+  async getMedia(id: string, queryDto: EventContentQueryDto): Promise<PaginatedResponse<GalleryItem>> {
+    const { page = 1, limit = 20 } = queryDto;
+    const eventIds = await this.getLinkedEventIds(await this.findEvent(id));
+    try {
+      const [data, total] = await this.createMediaQuery(eventIds)
+        .skip((page - 1) * limit)
+        .take(limit)
+        .getManyAndCount();
+      return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error: any) {
+      this.logger.error(`Error fetching media of event ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch event media.');
+    }
+  }
+
+  async getUpdates(id: string, queryDto: EventContentQueryDto): Promise<PaginatedResponse<Update>> {
+    const { page = 1, limit = 20 } = queryDto;
+    const eventIds = await this.getLinkedEventIds(await this.findEvent(id));
+    try {
+      const [data, total] = await this.createUpdatesQuery(eventIds)
+        .skip((page - 1) * limit)
+        .take(limit)
+        .getManyAndCount();
+      return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error: any) {
+      this.logger.error(`Error fetching updates of event ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch event updates.');
+    }
+  }
+
+  async getRelatedContent(event: Event): Promise<EventRelatedContent> {
+    const eventIds = await this.getLinkedEventIds(event);
+    const [[media, mediaCount], [updates, updateCount]] = await Promise.all([
+      this.createMediaQuery(eventIds).take(PREVIEW_MEDIA_COUNT).getManyAndCount(),
+      this.createUpdatesQuery(eventIds).take(PREVIEW_UPDATE_COUNT).getManyAndCount(),
+    ]);
+    return { mediaCount, updateCount, media, updates };
+  }
+
+  async countMedia(event: Event): Promise<number> {
+    return this.createMediaQuery(await this.getLinkedEventIds(event)).getCount();
+  }
+
+  private createMediaQuery(eventIds: string[]): SelectQueryBuilder<GalleryItem> {
+    return this.galleryRepository.createQueryBuilder('gallery')
+      .leftJoinAndSelect('gallery.uploadedBy', 'user', 'user.isActive = :isActive', { isActive: true })
+      .where('gallery.eventId IN (:...eventIds)', { eventIds })
+      .andWhere('gallery.isApproved = :isApproved', { isApproved: true })
+      .orderBy('gallery.uploadedAt', 'DESC');
+  }
+
+  private createUpdatesQuery(eventIds: string[]): SelectQueryBuilder<Update> {
+    return this.updateRepository.createQueryBuilder('update')
+      .leftJoinAndSelect('update.author', 'author')
+      .where('update.eventId IN (:...eventIds)', { eventIds })
+      .andWhere('update.isApproved = :isApproved', { isApproved: true })
+      .orderBy('update.createdAt', 'DESC');
+  }
+
+  private async findEvent(id: string): Promise<Event> {
+    const event = await this.eventRepository.findOne({ where: { id } });
+    if (!event) {
+      this.logger.warn(`Event not found for related content: ID=${id}`);
+      throw new NotFoundException(`Event not found: ${id}`);
+    }
+    return event;
+  }
+
+  private async getLinkedEventIds(event: Event): Promise<string[]> {
+    if (!event.recurrenceRule) return [event.id];
+    const overrides = await this.eventRepository.find({ where: { seriesId: event.id }, select: ['id'] });
+    return [event.id, ...overrides.map(override => override.id)];
+  }
+}
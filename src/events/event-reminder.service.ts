@@ -0,0 +1,201 @@
+// src/events/event-reminder.service.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DeepPartial, In, IsNull, LessThanOrEqual, MoreThan, Not, Repository } from 'typeorm';
+import { Event, EventStatus } from './entities/event.entity';
+import { EventReminder, ReminderStatus } from './entities/event-reminder.entity';
+import { EventAttendee, RsvpResponse } from './entities/event-attendee.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+import { getOccurrenceStarts } from './utils/recurrence.util';
+
+const MINUTE_MS = 60 * 1000;
+// Reminders of a recurring event are only materialised this far ahead (plus the largest offset)
+const SERIES_HORIZON_MS = 7 * 24 * 60 * MINUTE_MS;
+
+/**
+ * Reminders before events start, sent to everyone going or interested. Rows are (re)built from the
+ * event whenever its time, recurrence or reminder settings change; a job delivers those that are
+ * due and another keeps recurring events scheduled ahead. A sent reminder is never repeated for the
+ * same occurrence and offset.
+ */
+@Injectable()
+export class EventReminderService implements OnModuleInit {
+  private readonly logger = new Logger(EventReminderService.name);
+  private readonly DISPATCH_BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(EventReminder)
+    private readonly reminderRepository: Repository<EventReminder>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    @InjectRepository(EventAttendee)
+    private readonly attendeeRepository: Repository<EventAttendee>,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'event-reminders',
+      description: 'Sends event reminders that have come due to attendees.',
+      cronExpression: '*/5 * * * *',
+      handler: () => this.dispatchDueReminders(),
+    });
+    await this.jobSchedulerService.register({
+      name: 'event-reminder-scheduling',
+      description: 'Schedules reminders for upcoming occurrences of recurring events.',
+      cronExpression: '15 * * * *',
+      handler: () => this.scheduleRecurringReminders(),
+    });
+  }
+
+  // Replaces the event's pending reminders with ones matching its current schedule
+  async scheduleReminders(event: Event): Promise<void> {
+    if (event.status === EventStatus.Cancelled || event.deletedAt) {
+      await this.cancelReminders(event.id);
+      return;
+    }
+    const reminders = await this.buildReminders(event, new Date());
+    await this.reminderRepository.manager.transaction(async manager => {
+      await manager.delete(EventReminder, { eventId: event.id, status: ReminderStatus.Pending });
+      if (reminders.length > 0) {
+        await manager.createQueryBuilder().insert().into(EventReminder).values(reminders).orIgnore().execute();
+      }
+    });
+    this.logger.debug(`Scheduled ${reminders.length} reminder(s) for event ${event.id}`);
+  }
+
+  // Drops pending reminders of the event and of its separately edited occurrences
+  async cancelReminders(eventId: string): Promise<void> {
+    const result = await this.reminderRepository.createQueryBuilder()
+      .delete()
+      .from(EventReminder)
+      .where('status = :status', { status: ReminderStatus.Pending })
+      .andWhere('"eventId" IN (SELECT id FROM event WHERE id = :eventId OR "seriesId" = :eventId)', { eventId })
+      .execute();
+    if (result.affected) this.logger.log(`Cancelled ${result.affected} pending reminder(s) for event ${eventId}`);
+  }
+
+  async dispatchDueReminders(): Promise<void> {
+    let sent = 0;
+    let skipped = 0;
+    for (;;) {
+      const now = new Date();
+      const due = await this.reminderRepository.find({
+        where: { status: ReminderStatus.Pending, remindAt: LessThanOrEqual(now) },
+        order: { remindAt: 'ASC' },
+        take: this.DISPATCH_BATCH_SIZE,
+      });
+      if (due.length === 0) break;
+
+      // Soft-deleted events are not found, so their reminders are skipped
+      const events = await this.eventRepository.find({ where: { id: In([...new Set(due.map(reminder => reminder.eventId))]) } });
+      const eventsById = new Map(events.map(event => [event.id, event]));
+      for (const reminder of due) {
+        const event = eventsById.get(reminder.eventId);
+        const deliverable = event && event.status !== EventStatus.Cancelled && new Date(reminder.occurrenceDate) > now;
+        const claim = await this.reminderRepository.update(
+          { id: reminder.id, status: ReminderStatus.Pending },
+          deliverable ? { status: ReminderStatus.Sent, sentAt: now } : { status: ReminderStatus.Skipped },
+        );
+        if (claim.affected !== 1) continue;
+        if (!deliverable) {
+          skipped++;
+          continue;
+        }
+        await this.deliver(event, reminder);
+        sent++;
+      }
+      if (due.length < this.DISPATCH_BATCH_SIZE) break;
+    }
+    this.logger.log(`Event reminder dispatch finished: ${sent} sent, ${skipped} skipped.`);
+  }
+
+  // Tops up reminders of active recurring events as their occurrences come within the horizon
+  async scheduleRecurringReminders(): Promise<void> {
+    const now = new Date();
+    const series = await this.eventRepository.find({
+      where: [
+        { recurrenceRule: Not(IsNull()), status: Not(EventStatus.Cancelled), recurrenceEndsAt: IsNull() },
+        { recurrenceRule: Not(IsNull()), status: Not(EventStatus.Cancelled), recurrenceEndsAt: MoreThan(now) },
+      ],
+    });
+    let scheduled = 0;
+    for (const event of series) {
+      const reminders = await this.buildReminders(event, now);
+      if (reminders.length === 0) continue;
+      const result = await this.reminderRepository.createQueryBuilder().insert().into(EventReminder).values(reminders).orIgnore().execute();
+      scheduled += (result.raw as unknown[]).length;
+    }
+    this.logger.log(`Scheduled ${scheduled} new reminder(s) across ${series.length} recurring events.`);
+  }
+
+  private async buildReminders(event: Event, now: Date): Promise<DeepPartial<EventReminder>[]> {
+    const offsets = this.getOffsets(event);
+    if (offsets.length === 0) return [];
+
+    let starts: Date[];
+    if (event.recurrenceRule) {
+      const horizon = new Date(now.getTime() + Math.max(...offsets) * MINUTE_MS + SERIES_HORIZON_MS);
+      // Occurrences edited on their own have their own row and reminders
+      const overrides = await this.eventRepository.find({ where: { seriesId: event.id }, select: ['id', 'originalStartDate'] });
+      const overridden = new Set(overrides.map(override => new Date(override.originalStartDate).getTime()));
+      starts = getOccurrenceStarts(event, now, horizon).filter(start => !overridden.has(start.getTime()));
+    } else {
+      starts = [new Date(event.startDate)];
+    }
+
+    return starts.flatMap(start => offsets
+      .map(offsetMinutes => ({
+        eventId: event.id,
+        occurrenceDate: start,
+        offsetMinutes,
+        remindAt: new Date(start.getTime() - offsetMinutes * MINUTE_MS),
+        status: ReminderStatus.Pending,
+      }))
+      .filter(reminder => reminder.remindAt > now));
+  }
+
+  private async deliver(event: Event, reminder: EventReminder): Promise<void> {
+    const attendees = await this.attendeeRepository.find({
+      where: { eventId: event.seriesId ?? event.id, response: In([RsvpResponse.Going, RsvpResponse.Interested]) },
+      select: ['userId'],
+    });
+    if (attendees.length === 0) return;
+
+    const where = event.location ? ` at ${event.location}` : '';
+    const message = `Reminder: "${event.title}" starts in ${this.formatOffset(reminder.offsetMinutes)}${where}.`;
+    await Promise.all(attendees.map(attendee =>
+      this.notificationsService.notifyByPreference({
+        userId: attendee.userId,
+        message,
+        type: NotificationType.EventReminder,
+        referenceId: event.id,
+      }).catch(error => {
+        this.logger.error(`Failed to send reminder for event ${event.id} to user ${attendee.userId}: ${error.message}`);
+      }),
+    ));
+    this.logger.log(`Sent/attempted ${reminder.offsetMinutes}-minute reminders to ${attendees.length} attendees of event ${event.id}`);
+  }
+
+  private getOffsets(event: Event): number[] {
+    if (event.reminderOffsets) return [...new Set(event.reminderOffsets)];
+    return [...new Set(
+      this.configService.get<string>('EVENT_REMINDER_OFFSETS', '1440,60')
+        .split(',')
+        .map(value => Number(value.trim()))
+        .filter(value => Number.isInteger(value) && value > 0),
+    )];
+  }
+
+  private formatOffset(minutes: number): string {
+    const [value, unit] = minutes % 1440 === 0 ? [minutes / 1440, 'day']
+      : minutes % 60 === 0 ? [minutes / 60, 'hour']
+        : [minutes, 'minute'];
+    return `${value} ${unit}${value === 1 ? '' : 's'}`;
+  }
+}
@@ -0,0 +1,187 @@
+// src/events/event-venue.service.ts
+import { BadRequestException, ConflictException, Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Event, EventStatus } from './entities/event.entity';
+import { Venue } from './entities/venue.entity';
+import { CreateVenueDto } from './dto/create-venue.dto';
+import { UpdateVenueDto } from './dto/update-venue.dto';
+import { VenueAvailabilityQueryDto } from './dto/venue-availability-query.dto';
+import { VenueAvailability, VenueBooking } from './interfaces/venue.interface';
+import { getDurationMs, getOccurrenceStarts } from './utils/recurrence.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Events without an end date hold their venue this long
+const UNTIMED_BOOKING_MS = 60 * 60 * 1000;
+// Open-ended series are checked for clashes this far ahead
+const CONFLICT_HORIZON_MS = 366 * DAY_MS;
+const MAX_AVAILABILITY_RANGE_MS = 366 * DAY_MS;
+
+interface BookingWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Registry of venues and their bookings. An event books its venue from start to end (an hour when
+ * it has no end), every occurrence of a series included; cancelled and trashed events free it.
+ * Only bookings from now on are compared, so past clashes never block an edit.
+ */
+@Injectable()
+export class EventVenueService {
+  private readonly logger = new Logger(EventVenueService.name);
+
+  constructor(
+    @InjectRepository(Venue)
+    private readonly venueRepository: Repository<Venue>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+  ) {}
+
+  async createVenue(createVenueDto: CreateVenueDto): Promise<Venue> {
+    await this.assertNameAvailable(createVenueDto.name);
+    try {
+      const venue = await this.venueRepository.save(this.venueRepository.create(createVenueDto));
+      this.logger.log(`Created venue: ID=${venue.id}, name=${venue.name}`);
+      return venue;
+    } catch (error: any) {
+      this.logger.error(`Error creating venue ${createVenueDto.name}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to create venue.');
+    }
+  }
+
+  async getVenues(): Promise<Venue[]> {
+    return this.venueRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async getVenue(id: string): Promise<Venue> {
+    const venue = await this.venueRepository.findOne({ where: { id } });
+    if (!venue) {
+      this.logger.warn(`Venue not found: ID=${id}`);
+      throw new NotFoundException(`Venue not found: ${id}`);
+    }
+    return venue;
+  }
+
+  async updateVenue(id: string, updateVenueDto: UpdateVenueDto): Promise<Venue> {
+    const venue = await this.getVenue(id);
+    if (updateVenueDto.name && updateVenueDto.name !== venue.name) await this.assertNameAvailable(updateVenueDto.name);
+
+    venue.name = updateVenueDto.name ?? venue.name;
+    if ('building' in updateVenueDto) venue.building = updateVenueDto.building ?? null;
+    if ('capacity' in updateVenueDto) venue.capacity = updateVenueDto.capacity ?? null;
+    venue.accessibilityFeatures = updateVenueDto.accessibilityFeatures ?? venue.accessibilityFeatures;
+    try {
+      const saved = await this.venueRepository.save(venue);
+      this.logger.log(`Updated venue: ID=${saved.id}, name=${saved.name}`);
+      return saved;
+    } catch (error: any) {
+      this.logger.error(`Error updating venue ID=${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to update venue.');
+    }
+  }
+
+  async getAvailability(id: string, queryDto: VenueAvailabilityQueryDto): Promise<VenueAvailability> {
+    const from = new Date(queryDto.from);
+    const to = new Date(queryDto.to);
+    if (to <= from) throw new BadRequestException('to must be after from.');
+    if (to.getTime() - from.getTime() > MAX_AVAILABILITY_RANGE_MS) {
+      throw new BadRequestException('The availability range cannot exceed 366 days.');
+    }
+    const venue = await this.getVenue(id);
+    try {
+      const bookings = await this.getBookings(venue.id, { from, to }, []);
+      return { venue, from, to, bookings };
+    } catch (error: any) {
+      this.logger.error(`Error fetching availability of venue ID=${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch venue availability.');
+    }
+  }
+
+  /**
+   * Other events' bookings of the event's venue that overlap its own from now on. The event's own
+   * series and edited occurrences never count, nor do the events in `excludeEventIds`.
+   */
+  async findConflicts(event: Event, excludeEventIds: string[] = []): Promise<VenueBooking[]> {
+    if (!event.venueId || event.status === EventStatus.Cancelled) return [];
+
+    const now = new Date();
+    const lastEnd = event.recurrenceRule
+      ? (event.recurrenceEndsAt ? new Date(event.recurrenceEndsAt) : new Date(now.getTime() + CONFLICT_HORIZON_MS))
+      : new Date(new Date(event.startDate).getTime() + this.getBookedMs(event));
+    const window = {
+      from: new Date(Math.max(now.getTime(), new Date(event.startDate).getTime())),
+      to: new Date(Math.min(lastEnd.getTime(), now.getTime() + CONFLICT_HORIZON_MS)),
+    };
+    if (window.to <= window.from) return [];
+
+    const overridden = event.id && event.recurrenceRule ? await this.getOverriddenStarts([event.id]) : new Set<string>();
+    const own = this.toBookings(event, window, overridden);
+    if (own.length === 0) return [];
+
+    const excluded = [event.id, event.seriesId, ...excludeEventIds].filter((id): id is string => !!id);
+    const others = await this.getBookings(event.venueId, window, excluded);
+    return others.filter(other => own.some(booking => booking.start < other.end && other.start < booking.end));
+  }
+
+  // Bookings of the venue overlapping the window, by start time
+  private async getBookings(venueId: string, window: BookingWindow, excludeEventIds: string[]): Promise<VenueBooking[]> {
+    const query = this.eventRepository.createQueryBuilder('event')
+      .where('event.venueId = :venueId', { venueId })
+      .andWhere('event.status != :cancelled', { cancelled: EventStatus.Cancelled })
+      .andWhere('event.startDate < :to', { to: window.to })
+      .andWhere(
+        '((event.recurrenceRule IS NULL AND COALESCE(event.endDate, event.startDate) > :untimedFrom) OR ' +
+        '(event.recurrenceRule IS NOT NULL AND (event.recurrenceEndsAt IS NULL OR event.recurrenceEndsAt > :untimedFrom)))',
+        { untimedFrom: new Date(window.from.getTime() - UNTIMED_BOOKING_MS) },
+      );
+    if (excludeEventIds.length > 0) {
+      // Excluding a series excludes its edited occurrences too
+      query
+        .andWhere('event.id NOT IN (:...excludeEventIds)', { excludeEventIds })
+        .andWhere('(event.seriesId IS NULL OR event.seriesId NOT IN (:...excludeEventIds))', { excludeEventIds });
+    }
+    const events = await query.getMany();
+
+    const seriesIds = events.filter(event => event.recurrenceRule).map(event => event.id);
+    const overridden = seriesIds.length > 0 ? await this.getOverriddenStarts(seriesIds) : new Set<string>();
+    return events
+      .flatMap(event => this.toBookings(event, window, overridden))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  // The event's occurrences overlapping the window, skipping those replaced by an edited occurrence
+  private toBookings(event: Event, window: BookingWindow, overridden: Set<string>): VenueBooking[] {
+    const bookedMs = this.getBookedMs(event);
+    const starts = event.recurrenceRule
+      ? getOccurrenceStarts(event, new Date(window.from.getTime() - bookedMs), window.to)
+        .filter(start => !overridden.has(`${event.id}:${start.getTime()}`))
+      : [new Date(event.startDate)];
+    return starts
+      .map(start => ({
+        eventId: event.id,
+        title: event.title,
+        start,
+        end: new Date(start.getTime() + bookedMs),
+        occurrenceDate: event.recurrenceRule ? start : null,
+      }))
+      .filter(booking => booking.start < window.to && booking.end > window.from);
+  }
+
+  private getBookedMs(event: Event): number {
+    return event.endDate ? getDurationMs(event) : UNTIMED_BOOKING_MS;
+  }
+
+  private async getOverriddenStarts(seriesIds: string[]): Promise<Set<string>> {
+    const overrides = await this.eventRepository.find({
+      where: { seriesId: In(seriesIds) },
+      select: ['id', 'seriesId', 'originalStartDate'],
+    });
+    return new Set(overrides.map(override => `${override.seriesId}:${new Date(override.originalStartDate).getTime()}`));
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.venueRepository.findOne({ where: { name } });
+    if (existing) throw new ConflictException(`A venue named "${name}" already exists.`);
+  }
+}
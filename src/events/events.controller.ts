@@ -1,19 +1,55 @@
-import { Controller, Post, Get, Patch, Delete, Body, Query, Param, UseGuards, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Get, Patch, Delete, Body, Query, Param, UseGuards, Req, Res, HttpCode, HttpStatus } from '@nestjs/common';
+import { Response } from 'express';
 import { EventsService } from './events.service';
+import { EventCalendarService } from './event-calendar.service';
+import { EventAttendanceService } from './event-attendance.service';
+import { EventCheckInService } from './event-check-in.service';
+import { EventVenueService } from './event-venue.service';
+import { EventContentService } from './event-content.service';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { FilterEventDto } from './dto/filter-event.dto';
+import { RecurrenceScopeDto } from './dto/recurrence-scope.dto';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { RsvpDto } from './dto/rsvp.dto';
+import { AttendeeQueryDto } from './dto/attendee-query.dto';
+import { CheckInDto } from './dto/check-in.dto';
+import { AttendanceQueryDto } from './dto/attendance-query.dto';
+import { CreateVenueDto } from './dto/create-venue.dto';
+import { UpdateVenueDto } from './dto/update-venue.dto';
+import { VenueAvailabilityQueryDto } from './dto/venue-availability-query.dto';
+import { EventContentQueryDto } from './dto/event-content-query.dto';
 import { Event } from './entities/event.entity';
+import { Venue } from './entities/venue.entity';
+import { EventOccurrence } from './interfaces/event-occurrence.interface';
+import { CalendarFeedLink } from './interfaces/calendar-feed.interface';
+import { VenueAvailability } from './interfaces/venue.interface';
+import { EventDetails } from './interfaces/event-content.interface';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+import { AttendanceReport, CheckInResult, EventAttendeeList, EventTicket, RsvpStatus } from './interfaces/event-attendance.interface';
 import { User } from '../auth/entities/user.entity';
 import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
 import { ParseUUIDPipe } from '@nestjs/common';
 
+// Guards are per route: the calendar feed is fetched by calendar clients with a token instead of a bearer header
 @Controller('events')
-@UseGuards(JwtAuthGuard)
 export class EventsController {
-  constructor(private readonly eventsService: EventsService) {}
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly eventCalendarService: EventCalendarService,
+    private readonly eventAttendanceService: EventAttendanceService,
+    private readonly eventCheckInService: EventCheckInService,
+    private readonly eventVenueService: EventVenueService,
+    private readonly eventContentService: EventContentService,
+  ) {}
 
   @Post()
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.CREATED)
   create(@Req() req: { user: User }, @Body() createEventDto: CreateEventDto): Promise<Event> {
     // req.user should be populated by JwtAuthGuard/Passport strategy
@@ -21,30 +57,207 @@ export class EventsController {
   }
 
   @Get()
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
-  getAll(@Query() filterDto: FilterEventDto): Promise<Event[]> {
+  getAll(@Query() filterDto: FilterEventDto): Promise<EventOccurrence[]> {
     return this.eventsService.getEvents(filterDto);
   }
 
+  // Literal routes are declared before ':id'
+  @Get('feed.ics')
+  @HttpCode(HttpStatus.OK)
+  async getFeed(@Query() queryDto: CalendarFeedQueryDto, @Res({ passthrough: true }) res: Response): Promise<string> {
+    const calendar = await this.eventCalendarService.getFeed(queryDto);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="cive-events.ics"',
+      'Cache-Control': 'private, no-cache',
+    });
+    return calendar;
+  }
+
+  @Get('feed/token')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getFeedLink(@Req() req: { user: User }): Promise<CalendarFeedLink> {
+    return this.eventCalendarService.getFeedLink(req.user);
+  }
+
+  @Post('feed/token')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.CREATED)
+  rotateFeedToken(@Req() req: { user: User }): Promise<CalendarFeedLink> {
+    return this.eventCalendarService.rotateFeedToken(req.user);
+  }
+
+  @Post('venues')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.CREATED)
+  createVenue(@Body() createVenueDto: CreateVenueDto): Promise<Venue> {
+    return this.eventVenueService.createVenue(createVenueDto);
+  }
+
+  @Get('venues')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getVenues(): Promise<Venue[]> {
+    return this.eventVenueService.getVenues();
+  }
+
+  @Patch('venues/:id')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  updateVenue(@Param('id', ParseUUIDPipe) id: string, @Body() updateVenueDto: UpdateVenueDto): Promise<Venue> {
+    return this.eventVenueService.updateVenue(id, updateVenueDto);
+  }
+
+  @Get('venues/:id/availability')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getVenueAvailability(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() queryDto: VenueAvailabilityQueryDto,
+  ): Promise<VenueAvailability> {
+    return this.eventVenueService.getAvailability(id, queryDto);
+  }
+
+  @Get(':id/ics')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getEventCalendar(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const calendar = await this.eventCalendarService.getEventCalendar(id);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="event-${id}.ics"`,
+    });
+    return calendar;
+  }
+
+  @Post(':id/rsvp')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  rsvp(
+    @Req() req: { user: User },
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() rsvpDto: RsvpDto,
+  ): Promise<RsvpStatus> {
+    return this.eventAttendanceService.rsvp(req.user, id, rsvpDto);
+  }
+
+  @Get(':id/rsvp')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getRsvp(@Req() req: { user: User }, @Param('id', ParseUUIDPipe) id: string): Promise<RsvpStatus> {
+    return this.eventAttendanceService.getRsvp(req.user, id);
+  }
+
+  @Delete(':id/rsvp')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancelRsvp(@Req() req: { user: User }, @Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.eventAttendanceService.cancelRsvp(req.user, id);
+  }
+
+  @Get(':id/attendees')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getAttendees(
+    @Req() req: { user: User },
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() queryDto: AttendeeQueryDto,
+  ): Promise<EventAttendeeList> {
+    return this.eventAttendanceService.getAttendees(req.user, id, queryDto);
+  }
+
+  @Get(':id/ticket')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getTicket(@Req() req: { user: User }, @Param('id', ParseUUIDPipe) id: string): Promise<EventTicket> {
+    return this.eventCheckInService.issueTicket(req.user, id);
+  }
+
+  @Post(':id/check-in')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  checkIn(
+    @Req() req: { user: User },
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() checkInDto: CheckInDto,
+  ): Promise<CheckInResult> {
+    return this.eventCheckInService.checkIn(req.user, id, checkInDto);
+  }
+
+  @Get(':id/attendance')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getAttendance(
+    @Req() req: { user: User },
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() queryDto: AttendanceQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AttendanceReport | string> {
+    const report = await this.eventCheckInService.getAttendanceReport(req.user, id, queryDto);
+    if (queryDto.format !== 'csv') return report;
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="attendance-${report.eventId}.csv"`,
+    });
+    return this.eventCheckInService.toCsv(report);
+  }
+
+  @Get(':id/media')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getMedia(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() queryDto: EventContentQueryDto,
+  ): Promise<PaginatedResponse<GalleryItem>> {
+    return this.eventContentService.getMedia(id, queryDto);
+  }
+
+  @Get(':id/updates')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  getUpdates(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() queryDto: EventContentQueryDto,
+  ): Promise<PaginatedResponse<Update>> {
+    return this.eventContentService.getUpdates(id, queryDto);
+  }
+
   @Get(':id')
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
-  getById(@Param('id', ParseUUIDPipe) id: string): Promise<Event> {
-    return this.eventsService.getEventById(id);
+  getById(@Param('id', ParseUUIDPipe) id: string): Promise<EventDetails> {
+    return this.eventsService.getEventDetails(id);
   }
 
   @Patch(':id')
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   update(
     @Req() req: { user: User },
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateEventDto: UpdateEventDto,
+    @Query() scopeDto: RecurrenceScopeDto,
   ): Promise<Event> {
-    return this.eventsService.updateEvent(req.user, id, updateEventDto);
+    return this.eventsService.updateEvent(req.user, id, updateEventDto, scopeDto);
   }
 
   @Delete(':id')
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.NO_CONTENT)
-  async delete(@Req() req: { user: User }, @Param('id', ParseUUIDPipe) id: string): Promise<void> {
-    await this.eventsService.deleteEvent(req.user, id);
+  async delete(
+    @Req() req: { user: User },
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() scopeDto: RecurrenceScopeDto,
+  ): Promise<void> {
+    await this.eventsService.deleteEvent(req.user, id, scopeDto);
   }
 }
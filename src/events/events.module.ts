@@ -3,17 +3,37 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { EventsService } from './events.service';
 import { EventsController } from './events.controller';
+import { EventCalendarService } from './event-calendar.service';
+import { EventAttendanceService } from './event-attendance.service';
+import { EventCheckInService } from './event-check-in.service';
+import { EventReminderService } from './event-reminder.service';
+import { EventVenueService } from './event-venue.service';
+import { EventContentService } from './event-content.service';
 import { Event } from './entities/event.entity';
+import { CalendarFeedToken } from './entities/calendar-feed-token.entity';
+import { EventAttendee } from './entities/event-attendee.entity';
+import { EventCheckIn } from './entities/event-check-in.entity';
+import { EventReminder } from './entities/event-reminder.entity';
+import { Venue } from './entities/venue.entity';
+import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Update } from '../updates/entities/update.entity';
 import { User } from '../auth/entities/user.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+import { ConfigModule } from '@nestjs/config';
 
 @Module({
   imports: [
     // Register Event AND User entities for use within this module's services
-    TypeOrmModule.forFeature([Event, User]),
+    TypeOrmModule.forFeature([Event, User, CalendarFeedToken, EventAttendee, EventCheckIn, EventReminder, Venue, GalleryItem, Update]),
     NotificationsModule,
+    AuthModule, // JwtService for check-in tickets
+    CommonModule,
+    ConfigModule,
   ],
   controllers: [EventsController],
-  providers: [EventsService],
+  providers: [EventsService, EventCalendarService, EventAttendanceService, EventCheckInService, EventReminderService, EventVenueService, EventContentService],
+  exports: [EventsService],
 })
 export class EventsModule {}
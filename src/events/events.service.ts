@@ -1,25 +1,51 @@
 // src/events/events.service.ts
 import {
   BadRequestException,
+  ConflictException,
   ForbiddenException,
   Injectable,
   InternalServerErrorException,
   Logger,
   NotFoundException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { DeepPartial, In, Not, Repository, SelectQueryBuilder } from 'typeorm';
+import { Between, DeepPartial, EntityManager, FindOptionsWhere, In, IsNull, MoreThanOrEqual, Not, Repository, SelectQueryBuilder } from 'typeorm';
 import { Event, EventStatus } from './entities/event.entity';
 import { User } from '../auth/entities/user.entity';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { FilterEventDto } from './dto/filter-event.dto';
+import { RecurrenceScope, RecurrenceScopeDto } from './dto/recurrence-scope.dto';
+import { EventOccurrence } from './interfaces/event-occurrence.interface';
+import { EventDetails } from './interfaces/event-content.interface';
+import {
+  continueRuleFrom,
+  getDurationMs,
+  getOccurrenceAtOrBefore,
+  getOccurrenceStarts,
+  getSeriesEnd,
+  isOccurrenceStart,
+  normalizeRecurrenceRule,
+  shiftDates,
+  truncateRuleBefore,
+} from './utils/recurrence.util';
 import { UserRole } from '../common/interfaces/entities.interface';
 import { NotificationsService } from '../notifications/notifications.service';
+import { EventAttendanceService } from './event-attendance.service';
+import { EventReminderService } from './event-reminder.service';
+import { EventVenueService } from './event-venue.service';
+import { EventContentService } from './event-content.service';
 import { NotificationType } from '../notifications/entities/notification.entity';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+
+interface DateRange {
+  from: Date | null;
+  to: Date | null;
+}
 
 @Injectable()
-export class EventsService {
+export class EventsService implements OnModuleInit {
   private readonly logger = new Logger(EventsService.name);
 
   constructor(
@@ -28,10 +54,24 @@ export class EventsService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly notificationsService: NotificationsService,
+    private readonly eventAttendanceService: EventAttendanceService,
+    private readonly eventReminderService: EventReminderService,
+    private readonly eventVenueService: EventVenueService,
+    private readonly eventContentService: EventContentService,
+    private readonly jobSchedulerService: JobSchedulerService,
   ) {
     this.logger.log('EventsService initialized');
   }
 
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'event-status-transitions',
+      description: 'Moves events between Upcoming, Ongoing and Completed as their start and end times pass.',
+      cronExpression: '*/5 * * * *',
+      handler: () => this.updateEventStatusesBasedOnTime(),
+    });
+  }
+
   async createEvent(creator: User, createEventDto: CreateEventDto): Promise<Event> {
     this.logger.log(`Creating event by user: ${creator.email}`);
 
@@ -61,8 +101,10 @@ export class EventsService {
       initialStatus = createEventDto.status;
     }
 
+    const { allowVenueConflict, ...eventFields } = createEventDto;
     const eventData: DeepPartial<Event> = {
-      ...createEventDto,
+      ...eventFields,
+      ...this.parseRecurrence(createEventDto.recurrenceRule, createEventDto.recurrenceExceptions),
       startDate: start,
       endDate: endDateObj,
       createdBy: creator,
@@ -70,10 +112,16 @@ export class EventsService {
     };
 
     const event = this.eventRepository.create(eventData);
+    if (event.recurrenceRule) {
+      this.refreshSeriesEnd(event);
+      if (!createEventDto.status) this.updateSingleEventStatusBasedOnTime(event);
+    }
+    await this.applyVenue(event, null, createEventDto.location, allowVenueConflict);
 
     try {
       const savedEvent = await this.eventRepository.save(event);
       this.logger.log(`Created event: ID=${savedEvent.id}, title=${savedEvent.title}`);
+      await this.rescheduleReminders(savedEvent);
 
       try {
         await this.notifyAdminsOnEventChange(savedEvent, creator, 'created');
@@ -89,28 +137,47 @@ export class EventsService {
     }
   }
 
-  async getEvents(filterDto: FilterEventDto = {}): Promise<Event[]> {
+  async getEvents(filterDto: FilterEventDto = {}): Promise<EventOccurrence[]> {
     this.logger.log(`Fetching events with filter: ${JSON.stringify(filterDto)}`);
     const queryBuilder = this.eventRepository
       .createQueryBuilder('event')
-      .leftJoinAndSelect('event.createdBy', 'createdBy');
+      .leftJoinAndSelect('event.createdBy', 'createdBy')
+      .leftJoinAndSelect('event.venue', 'venue');
 
-    this.applyFilters(queryBuilder, filterDto);
+    const range = this.applyFilters(queryBuilder, filterDto);
     queryBuilder.orderBy('event.startDate', 'ASC');
 
     try {
       const events = await queryBuilder.getMany();
-      this.logger.log(`Fetched ${events.length} events matching filter.`);
-      return events;
+      const listed = await this.expandRecurringEvents(events, range, filterDto.status);
+      this.logger.log(`Fetched ${events.length} events (${listed.length} listed) matching filter.`);
+      return listed;
     } catch (error: any) {
       this.logger.error(`Error fetching events: ${error.message}`, error.stack);
       throw new InternalServerErrorException(`Failed to fetch events.`);
     }
   }
 
-  private applyFilters(queryBuilder: SelectQueryBuilder<Event>, filterDto: FilterEventDto): void {
-    const { status, view, startDate, endDate } = filterDto;
-    const today = new Date();
+  // Stored rows matching the filter, with series left unexpanded (calendar feeds carry the RRULE itself)
+  async getCalendarEvents(filterDto: FilterEventDto = {}): Promise<Event[]> {
+    const queryBuilder = this.eventRepository
+      .createQueryBuilder('event')
+      .leftJoinAndSelect('event.createdBy', 'createdBy')
+      .leftJoinAndSelect('event.venue', 'venue');
+    this.applyFilters(queryBuilder, filterDto);
+    queryBuilder.orderBy('event.startDate', 'ASC');
+
+    try {
+      const events = await queryBuilder.getMany();
+      return events.filter(event => !filterDto.status || event.status === filterDto.status);
+    } catch (error: any) {
+      this.logger.error(`Error fetching calendar events: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(`Failed to fetch events.`);
+    }
+  }
+
+  private applyFilters(queryBuilder: SelectQueryBuilder<Event>, filterDto: FilterEventDto): DateRange {
+    const { status } = filterDto;
     let hasWhere = false;
 
     const addCondition = (condition: string, params: object) => {
@@ -122,46 +189,112 @@ export class EventsService {
     };
 
     if (status) {
-      addCondition('event.status = :status', { status });
+      // Occurrences of a series get their own status, so series are filtered after expansion
+      addCondition('(event.status = :status OR event.recurrenceRule IS NOT NULL)', { status });
       this.logger.debug(`Applying status filter: ${status}`);
     }
 
+    const range = this.resolveDateRange(filterDto);
+    if (range.from) {
+      // A series matches while it still has occurrences at or after the start of the range
+      addCondition(
+        '((event.recurrenceRule IS NULL AND event.startDate >= :rangeFrom) OR ' +
+        '(event.recurrenceRule IS NOT NULL AND (event.recurrenceEndsAt IS NULL OR event.recurrenceEndsAt >= :rangeFrom)))',
+        { rangeFrom: range.from },
+      );
+    }
+    if (range.to) {
+      addCondition('event.startDate <= :rangeTo', { rangeTo: range.to });
+    }
+    return range;
+  }
+
+  // Narrowest range given by the calendar view and the explicit dates; either bound may be open
+  private resolveDateRange(filterDto: FilterEventDto): DateRange {
+    const { view, startDate, endDate } = filterDto;
+    const today = new Date();
+    let from: Date | null = null;
+    let to: Date | null = null;
+
     if (view === 'monthly') {
-      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1, 0, 0, 0, 0);
-      const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0, 23, 59, 59, 999);
-      addCondition('event.startDate BETWEEN :monthStart AND :monthEnd', { monthStart, monthEnd });
-      this.logger.debug(`Applying monthly filter: ${monthStart.toISOString()} to ${monthEnd.toISOString()}`);
+      from = new Date(today.getFullYear(), today.getMonth(), 1, 0, 0, 0, 0);
+      to = new Date(today.getFullYear(), today.getMonth() + 1, 0, 23, 59, 59, 999);
+      this.logger.debug(`Applying monthly filter: ${from.toISOString()} to ${to.toISOString()}`);
     } else if (view === 'weekly') {
       const dayOfWeek = today.getDay();
       const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
-      const weekStart = new Date(today.setDate(diff));
-      weekStart.setHours(0, 0, 0, 0);
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
-      addCondition('event.startDate BETWEEN :weekStart AND :weekEnd', { weekStart, weekEnd });
-      this.logger.debug(`Applying weekly filter: ${weekStart.toISOString()} to ${weekEnd.toISOString()}`);
-    }
-
-    if (startDate && endDate) {
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      start.setHours(0, 0, 0, 0);
-      end.setHours(23, 59, 59, 999);
-      if (end < start) throw new BadRequestException('Filter end date cannot be before start date');
-      addCondition('event.startDate BETWEEN :startDate AND :endDate', { startDate: start, endDate: end });
-      this.logger.debug(`Applying date range filter: ${start.toISOString()} to ${end.toISOString()}`);
-    } else if (startDate) {
-      const start = new Date(startDate);
-      start.setHours(0, 0, 0, 0);
-      addCondition('event.startDate >= :startDate', { startDate: start });
+      from = new Date(today.setDate(diff));
+      from.setHours(0, 0, 0, 0);
+      to = new Date(from);
+      to.setDate(from.getDate() + 6);
+      to.setHours(23, 59, 59, 999);
+      this.logger.debug(`Applying weekly filter: ${from.toISOString()} to ${to.toISOString()}`);
+    }
+
+    const start = startDate ? new Date(startDate) : null;
+    const end = endDate ? new Date(endDate) : null;
+    start?.setHours(0, 0, 0, 0);
+    end?.setHours(23, 59, 59, 999);
+    if (start && end && end < start) throw new BadRequestException('Filter end date cannot be before start date');
+    if (start) {
+      from = from && from > start ? from : start;
       this.logger.debug(`Applying start date filter: >= ${start.toISOString()}`);
-    } else if (endDate) {
-      const end = new Date(endDate);
-      end.setHours(23, 59, 59, 999);
-      addCondition('event.startDate <= :endDate', { endDate: end });
+    }
+    if (end) {
+      to = to && to < end ? to : end;
       this.logger.debug(`Applying end date filter: <= ${end.toISOString()}`);
     }
+    return { from, to };
+  }
+
+  /**
+   * Lists each series once per occurrence in the range, skipping exceptions and occurrences that
+   * have their own (edited) row. A series can only be expanded within a bounded range; otherwise it
+   * is listed once as stored.
+   */
+  private async expandRecurringEvents(events: Event[], range: DateRange, status?: string): Promise<EventOccurrence[]> {
+    const series = events.filter(event => event.recurrenceRule);
+    const asListed = (event: Event): EventOccurrence => ({ ...event, occurrenceDate: event.originalStartDate ?? null });
+    if (series.length === 0 || !range.from || !range.to) {
+      return events.filter(event => !status || event.status === status).map(asListed);
+    }
+
+    const overrides = await this.eventRepository.find({
+      where: { seriesId: In(series.map(event => event.id)) },
+      select: ['id', 'seriesId', 'originalStartDate'],
+    });
+    const overridden = new Set(overrides.map(override => `${override.seriesId}:${new Date(override.originalStartDate).getTime()}`));
+
+    const now = new Date();
+    const listed: EventOccurrence[] = [];
+    for (const event of events) {
+      if (!event.recurrenceRule) {
+        listed.push(asListed(event));
+        continue;
+      }
+      const durationMs = getDurationMs(event);
+      for (const occurrenceStart of getOccurrenceStarts(event, range.from, range.to)) {
+        if (overridden.has(`${event.id}:${occurrenceStart.getTime()}`)) continue;
+        const occurrenceEnd = event.endDate ? new Date(occurrenceStart.getTime() + durationMs) : undefined;
+        listed.push({
+          ...event,
+          startDate: occurrenceStart,
+          endDate: occurrenceEnd,
+          status: this.getOccurrenceStatus(event, occurrenceStart, occurrenceEnd, now),
+          occurrenceDate: occurrenceStart,
+        });
+      }
+    }
+    return listed
+      .filter(event => !status || event.status === status)
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+
+  // Occurrences without an end date count as finished once they have started
+  private getOccurrenceStatus(series: Event, start: Date, end: Date | undefined, now: Date): EventStatus {
+    if (series.status === EventStatus.Cancelled) return EventStatus.Cancelled;
+    if (start > now) return EventStatus.Upcoming;
+    return (end ?? start) >= now ? EventStatus.Ongoing : EventStatus.Completed;
   }
 
   async getEventById(id: string): Promise<Event> {
@@ -175,7 +308,19 @@ export class EventsService {
     return event;
   }
 
-  async updateEvent(updater: User, id: string, updateEventDto: UpdateEventDto): Promise<Event> {
+  // The event with a preview of the gallery items and updates linked to it
+  async getEventDetails(id: string): Promise<EventDetails> {
+    const event = await this.getEventById(id);
+    try {
+      const relatedContent = await this.eventContentService.getRelatedContent(event);
+      return { ...event, relatedContent };
+    } catch (error: any) {
+      this.logger.error(`Error fetching related content of event ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch event details.');
+    }
+  }
+
+  async updateEvent(updater: User, id: string, updateEventDto: UpdateEventDto, scopeDto: RecurrenceScopeDto = {}): Promise<Event> {
     this.logger.log(`Updating event ID=${id} by user: ${updater.email}`);
 
     if (updater.role !== UserRole.Admin && updater.role !== UserRole.Staff) {
@@ -188,29 +333,47 @@ export class EventsService {
       throw new NotFoundException(`Event not found: ${id}`);
     }
 
-    const originalEventData = { ...event };
-
-    let newStartDate = event.startDate;
-    let newEndDate = event.endDate;
-
-    if (updateEventDto.startDate) {
-      newStartDate = new Date(updateEventDto.startDate);
+    const { scope } = scopeDto;
+    if (event.seriesId && (scope === RecurrenceScope.Following || scope === RecurrenceScope.All)) {
+      // An occurrence edited on its own: the scope applies to its series, starting from this occurrence
+      return this.updateEvent(updater, event.seriesId, updateEventDto, { scope, occurrence: event.originalStartDate.toISOString() });
     }
-    // Fix ESLint (no-prototype-builtins): Use 'in' operator
-    if ('endDate' in updateEventDto) {
-      newEndDate = updateEventDto.endDate ? new Date(updateEventDto.endDate) : undefined;
+    if (event.recurrenceRule && scope === RecurrenceScope.This) {
+      return this.updateOccurrence(updater, event, new Date(scopeDto.occurrence), updateEventDto);
+    }
+    if (event.recurrenceRule && scope === RecurrenceScope.Following) {
+      const occurrence = new Date(scopeDto.occurrence);
+      this.assertOccurrence(event, occurrence);
+      if (occurrence.getTime() !== new Date(event.startDate).getTime()) {
+        return this.updateFollowingOccurrences(updater, event, occurrence, updateEventDto);
+      }
+    }
+    if (event.recurrenceRule && (scope === RecurrenceScope.Following || scope === RecurrenceScope.All) && scopeDto.occurrence) {
+      const occurrence = new Date(scopeDto.occurrence);
+      this.assertOccurrence(event, occurrence);
+      updateEventDto = await this.toSeriesTimes(event, occurrence, updateEventDto);
     }
 
-    if (newEndDate && newStartDate && newEndDate < newStartDate) {
-      throw new BadRequestException('End date cannot be before start date');
+    const originalEventData = { ...event };
+    const previousStart = new Date(event.startDate);
+    this.applyEventUpdate(event, updateEventDto);
+
+    if (updateEventDto.recurrenceRule !== undefined || updateEventDto.recurrenceExceptions) {
+      if (event.seriesId) {
+        throw new BadRequestException('A single occurrence cannot repeat; update the series instead.');
+      }
+      Object.assign(event, this.parseRecurrence(
+        updateEventDto.recurrenceRule ?? event.recurrenceRule,
+        updateEventDto.recurrenceExceptions ?? event.recurrenceExceptions,
+      ));
     }
 
-    event.title = updateEventDto.title ?? event.title;
-    event.description = updateEventDto.description ?? event.description;
-    event.startDate = newStartDate;
-    event.endDate = newEndDate;
-    event.location = updateEventDto.location ?? event.location;
-    event.organizer = updateEventDto.organizer ?? event.organizer;
+    // Moving the whole series moves its exceptions and edited occurrences along with it
+    const shiftMs = event.recurrenceRule ? new Date(event.startDate).getTime() - previousStart.getTime() : 0;
+    if (shiftMs && !updateEventDto.recurrenceExceptions) {
+      event.recurrenceExceptions = shiftDates(event.recurrenceExceptions, shiftMs);
+    }
+    this.refreshSeriesEnd(event);
 
     // Handle status update
     if (updateEventDto.status) {
@@ -218,32 +381,177 @@ export class EventsService {
     } else {
       this.updateSingleEventStatusBasedOnTime(event);
     }
+    await this.applyVenue(event, originalEventData, updateEventDto.location, updateEventDto.allowVenueConflict);
+
+    return this.saveEventUpdate(updater, event, originalEventData, async manager => {
+      if (shiftMs) await this.moveOverrides(manager, event.id, { shiftMs });
+    });
+  }
+
+  // Edits one occurrence by giving it its own row, linked to the series through seriesId/originalStartDate
+  private async updateOccurrence(updater: User, series: Event, occurrence: Date, updateEventDto: UpdateEventDto): Promise<Event> {
+    if (updateEventDto.recurrenceRule !== undefined || updateEventDto.recurrenceExceptions) {
+      throw new BadRequestException('Recurrence can only be changed for the whole series or this and following occurrences.');
+    }
+    let override = await this.eventRepository.findOne({
+      where: { seriesId: series.id, originalStartDate: occurrence },
+      relations: ['createdBy'],
+    });
+    if (!override) {
+      this.assertOccurrence(series, occurrence);
+      override = this.eventRepository.create({
+        ...this.copySeriesDetails(series, occurrence),
+        seriesId: series.id,
+        originalStartDate: occurrence,
+        recurrenceRule: null,
+        recurrenceExceptions: [],
+      });
+      override.status = this.getOccurrenceStatus(series, override.startDate, override.endDate, new Date());
+    }
 
+    const originalEventData = { ...override };
+    const isNewOverride = !override.id;
+    this.applyEventUpdate(override, updateEventDto);
+    if (updateEventDto.status) {
+      override.status = updateEventDto.status;
+    } else {
+      this.updateSingleEventStatusBasedOnTime(override);
+    }
+    await this.applyVenue(override, originalEventData, updateEventDto.location, updateEventDto.allowVenueConflict);
+    const savedOverride = await this.saveEventUpdate(updater, override, originalEventData);
+    // The occurrence now has reminders of its own, so the series drops its ones for it
+    if (isNewOverride) await this.rescheduleReminders(series);
+    return savedOverride;
+  }
 
+  // Ends the series before `occurrence` and continues it as a new series carrying the changes
+  private async updateFollowingOccurrences(updater: User, series: Event, occurrence: Date, updateEventDto: UpdateEventDto): Promise<Event> {
+    const nextSeries = this.eventRepository.create({
+      ...this.copySeriesDetails(series, occurrence),
+      status: series.status,
+      recurrenceRule: continueRuleFrom(series.recurrenceRule, series.startDate, occurrence),
+      recurrenceExceptions: series.recurrenceExceptions.filter(date => new Date(date) >= occurrence),
+    });
+    const originalEventData = { ...nextSeries };
+    this.applyEventUpdate(nextSeries, updateEventDto);
+    if (updateEventDto.recurrenceRule !== undefined || updateEventDto.recurrenceExceptions) {
+      Object.assign(nextSeries, this.parseRecurrence(
+        updateEventDto.recurrenceRule ?? nextSeries.recurrenceRule,
+        updateEventDto.recurrenceExceptions ?? nextSeries.recurrenceExceptions,
+      ));
+    }
+    const shiftMs = new Date(nextSeries.startDate).getTime() - occurrence.getTime();
+    if (shiftMs && !updateEventDto.recurrenceExceptions) {
+      nextSeries.recurrenceExceptions = shiftDates(nextSeries.recurrenceExceptions, shiftMs);
+    }
+    this.refreshSeriesEnd(nextSeries);
+    if (updateEventDto.status) {
+      nextSeries.status = updateEventDto.status;
+    } else {
+      this.updateSingleEventStatusBasedOnTime(nextSeries);
+    }
+    // The series being split ends before the continuation starts, so it cannot clash with it
+    await this.applyVenue(nextSeries, originalEventData, updateEventDto.location, updateEventDto.allowVenueConflict, [series.id]);
+
+    this.truncateSeries(series, occurrence);
+
+    const savedSeries = await this.saveEventUpdate(updater, nextSeries, originalEventData, async (manager, saved) => {
+      await manager.save(series);
+      if (saved.recurrenceRule) {
+        await this.moveOverrides(manager, series.id, { from: occurrence, targetSeriesId: saved.id, shiftMs });
+      } else {
+        // The continuation no longer repeats, so occurrences edited after the split have nothing to belong to
+        await this.trashOverrides(manager, series.id, updater, new Date(), occurrence);
+      }
+    });
+    await this.rescheduleReminders(series);
+    return savedSeries;
+  }
+
+  private async saveEventUpdate(
+    updater: User,
+    event: Event,
+    originalEventData: Event,
+    saveRelated?: (manager: EntityManager, savedEvent: Event) => Promise<void>,
+  ): Promise<Event> {
     try {
-      const savedEvent = await this.eventRepository.save(event);
-      this.logger.log(`Updated event: ID=${id}, title=${savedEvent.title}`);
+      const savedEvent = await this.eventRepository.manager.transaction(async manager => {
+        const saved = await manager.save(event);
+        if (saveRelated) await saveRelated(manager, saved);
+        return saved;
+      });
+      this.logger.log(`Updated event: ID=${savedEvent.id}, title=${savedEvent.title}`);
 
       try {
         const changes = this.getEventChanges(originalEventData, savedEvent);
         if (Object.keys(changes).length > 0) {
-          this.logger.log(`Significant changes detected for event ${id}: ${Object.keys(changes).join(', ')}`);
+          this.logger.log(`Significant changes detected for event ${savedEvent.id}: ${Object.keys(changes).join(', ')}`);
           await this.notifyAdminsOnEventChange(savedEvent, updater, 'updated', changes);
+          await this.notifyAttendeesOnEventChange(savedEvent, updater, changes);
         } else {
-          this.logger.log(`No significant changes detected for event ${id}, skipping update notifications.`);
+          this.logger.log(`No significant changes detected for event ${savedEvent.id}, skipping update notifications.`);
         }
       } catch (notificationError: any) {
-        this.logger.error(`Failed send notifications for updated event ${id}: ${notificationError.message}`, notificationError.stack);
+        this.logger.error(`Failed send notifications for updated event ${savedEvent.id}: ${notificationError.message}`, notificationError.stack);
+      }
+
+      if (!originalEventData.id || this.affectsReminders(originalEventData, savedEvent)) {
+        await this.rescheduleReminders(savedEvent);
+      }
+
+      if (originalEventData.id && originalEventData.status !== EventStatus.Completed && savedEvent.status === EventStatus.Completed) {
+        await this.notifyAttendeesOnCompletion(savedEvent);
+      }
+
+      if (originalEventData.capacity !== savedEvent.capacity) {
+        await this.eventAttendanceService.fillOpenSeats(savedEvent.id).catch(waitlistError => {
+          this.logger.error(`Failed to promote waitlisted attendees for event ${savedEvent.id}: ${waitlistError.message}`, waitlistError.stack);
+        });
       }
 
       return savedEvent;
     } catch (error: any) {
-      this.logger.error(`Error saving updated event ID=${id}: ${error.message}`, error.stack);
+      this.logger.error(`Error saving updated event ID=${event.id ?? 'new'}: ${error.message}`, error.stack);
       throw new InternalServerErrorException(`Failed to update event.`);
     }
   }
 
-  async deleteEvent(deleter: User, id: string): Promise<void> {
+  private applyEventUpdate(event: Event, updateEventDto: UpdateEventDto): void {
+    let newStartDate = event.startDate;
+    let newEndDate = event.endDate;
+
+    if (updateEventDto.startDate) {
+      newStartDate = new Date(updateEventDto.startDate);
+    }
+    // Fix ESLint (no-prototype-builtins): Use 'in' operator
+    if ('endDate' in updateEventDto) {
+      newEndDate = updateEventDto.endDate ? new Date(updateEventDto.endDate) : undefined;
+    }
+
+    if (newEndDate && newStartDate && newEndDate < newStartDate) {
+      throw new BadRequestException('End date cannot be before start date');
+    }
+
+    event.title = updateEventDto.title ?? event.title;
+    event.description = updateEventDto.description ?? event.description;
+    event.startDate = newStartDate;
+    event.endDate = newEndDate;
+    event.location = updateEventDto.location ?? event.location;
+    event.organizer = updateEventDto.organizer ?? event.organizer;
+    if ('capacity' in updateEventDto) {
+      event.capacity = updateEventDto.capacity ?? null;
+    }
+    if ('venueId' in updateEventDto && updateEventDto.venueId !== event.venueId) {
+      // The loaded relation would win over the column on save; applyVenue sets the new one
+      event.venueId = updateEventDto.venueId ?? null;
+      event.venue = event.venueId ? undefined : null;
+    }
+    if ('reminderOffsets' in updateEventDto) {
+      event.reminderOffsets = updateEventDto.reminderOffsets ?? null;
+    }
+  }
+
+  async deleteEvent(deleter: User, id: string, scopeDto: RecurrenceScopeDto = {}): Promise<void> {
     this.logger.log(`Deleting event ID=${id} by user: ${deleter.email}`);
 
     if (deleter.role !== UserRole.Admin && deleter.role !== UserRole.Staff) {
@@ -256,13 +564,41 @@ export class EventsService {
       throw new NotFoundException(`Event not found: ${id}`);
     }
 
+    const { scope } = scopeDto;
+    if (event.seriesId) {
+      if (scope === RecurrenceScope.Following || scope === RecurrenceScope.All) {
+        return this.deleteEvent(deleter, event.seriesId, { scope, occurrence: event.originalStartDate.toISOString() });
+      }
+      const series = await this.eventRepository.findOne({ where: { id: event.seriesId } });
+      if (series?.recurrenceRule) return this.deleteOccurrence(deleter, series, event.originalStartDate);
+    }
+    if (event.recurrenceRule && scope === RecurrenceScope.This) {
+      return this.deleteOccurrence(deleter, event, new Date(scopeDto.occurrence));
+    }
+    if (event.recurrenceRule && scope === RecurrenceScope.Following) {
+      const occurrence = new Date(scopeDto.occurrence);
+      this.assertOccurrence(event, occurrence);
+      if (occurrence.getTime() !== new Date(event.startDate).getTime()) {
+        return this.deleteFollowingOccurrences(deleter, event, occurrence);
+      }
+    }
+
     try {
       const eventDataCopy = { ...event };
-      await this.eventRepository.remove(event);
-      this.logger.log(`Deleted event: ID=${id}, title=${eventDataCopy.title}`);
+      // A series and its edited occurrences share one deletedAt so they are restored together
+      const deletedAt = new Date();
+      await this.eventRepository.manager.transaction(async manager => {
+        await manager.update(Event, { id }, { deletedById: deleter.id, deletedAt });
+        if (event.recurrenceRule) await this.trashOverrides(manager, id, deleter, deletedAt);
+      });
+      this.logger.log(`Moved event to the trash: ID=${id}, title=${eventDataCopy.title}`);
+      await this.eventReminderService.cancelReminders(id).catch(reminderError => {
+        this.logger.error(`Failed to cancel reminders for deleted event ${id}: ${reminderError.message}`, reminderError.stack);
+      });
 
       try {
         await this.notifyAdminsOnEventChange(eventDataCopy, deleter, 'deleted');
+        await this.eventAttendanceService.notifyAttendees(eventDataCopy, `Event "${eventDataCopy.title}" you RSVP'd to has been cancelled.`, deleter.id);
       } catch (notificationError: any) {
         this.logger.error(`Failed send notification for deleted event ${id}: ${notificationError.message}`, notificationError.stack);
       }
@@ -273,13 +609,197 @@ export class EventsService {
     }
   }
 
+  private async deleteOccurrence(deleter: User, series: Event, occurrence: Date): Promise<void> {
+    this.assertOccurrence(series, occurrence);
+    const recurrenceExceptions = [...series.recurrenceExceptions, occurrence.toISOString()];
+    await this.saveSeriesTrim(deleter, series, { recurrenceExceptions }, async manager => {
+      await manager.update(Event, { id: series.id }, { recurrenceExceptions });
+      await this.trashOverrides(manager, series.id, deleter, new Date(), occurrence, occurrence);
+    });
+    series.recurrenceExceptions = recurrenceExceptions;
+    await this.rescheduleReminders(series);
+  }
+
+  private async deleteFollowingOccurrences(deleter: User, series: Event, occurrence: Date): Promise<void> {
+    const originalEventData = { ...series };
+    this.truncateSeries(series, occurrence);
+    await this.saveSeriesTrim(deleter, originalEventData, this.getEventChanges(originalEventData, series), async manager => {
+      await manager.save(series);
+      await this.trashOverrides(manager, series.id, deleter, new Date(), occurrence);
+    });
+    await this.rescheduleReminders(series);
+  }
+
+  // Persists occurrences removed from a series; the series itself stays, so this is reported as an update
+  private async saveSeriesTrim(
+    deleter: User,
+    series: Event,
+    changes: Partial<Event>,
+    persist: (manager: EntityManager) => Promise<void>,
+  ): Promise<void> {
+    try {
+      await this.eventRepository.manager.transaction(persist);
+      this.logger.log(`Removed occurrences from event series: ID=${series.id}, title=${series.title}`);
+    } catch (error: any) {
+      this.logger.error(`Error deleting occurrences of event ID=${series.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(`Failed to delete event.`);
+    }
+    try {
+      await this.notifyAdminsOnEventChange(series, deleter, 'updated', changes);
+    } catch (notificationError: any) {
+      this.logger.error(`Failed send notification for trimmed event ${series.id}: ${notificationError.message}`, notificationError.stack);
+    }
+  }
+
+  async restoreEvent(id: string): Promise<Event> {
+    const event = await this.eventRepository.findOne({ where: { id }, withDeleted: true });
+    if (!event?.deletedAt) throw new NotFoundException(`Event is not in the trash: ${id}`);
+    try {
+      await this.eventRepository.restore({ id });
+      await this.eventRepository.update({ id }, { deletedById: null });
+      if (event.recurrenceRule) {
+        // Edited occurrences trashed together with the series
+        await this.eventRepository.update({ seriesId: id, deletedAt: event.deletedAt }, { deletedAt: null, deletedById: null });
+      }
+      this.logger.log(`Restored event from the trash: ID=${id}`);
+      const restored = await this.eventRepository.findOneOrFail({ where: { id }, relations: ['createdBy'] });
+      const overrides = restored.recurrenceRule ? await this.eventRepository.find({ where: { seriesId: id } }) : [];
+      await this.rescheduleReminders(restored, ...overrides);
+      return restored;
+    } catch (error: any) {
+      this.logger.error(`Error restoring event ID=${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(`Failed to restore event.`);
+    }
+  }
+
+  // Permanently removes a trashed event; only reachable through the trash
+  async purgeEvent(id: string): Promise<void> {
+    const event = await this.eventRepository.findOne({ where: { id }, withDeleted: true });
+    if (!event?.deletedAt) throw new NotFoundException(`Event is not in the trash: ${id}`);
+    try {
+      await this.eventRepository.delete({ id });
+      this.logger.log(`Purged event: ID=${id}, title=${event.title}`);
+    } catch (error: any) {
+      this.logger.error(`Error purging event ID=${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(`Failed to purge event.`);
+    }
+  }
+
+  private parseRecurrence(
+    rule: string | null | undefined,
+    exceptions: string[] | undefined,
+  ): Pick<Event, 'recurrenceRule' | 'recurrenceExceptions'> {
+    let recurrenceRule: string | null = null;
+    if (rule) {
+      try {
+        recurrenceRule = normalizeRecurrenceRule(rule);
+      } catch (error: any) {
+        throw new BadRequestException(error.message);
+      }
+    }
+    const recurrenceExceptions = recurrenceRule ? (exceptions ?? []).map(date => new Date(date).toISOString()) : [];
+    return { recurrenceRule, recurrenceExceptions };
+  }
+
+  private assertOccurrence(series: Event, occurrence: Date): void {
+    if (isNaN(occurrence.getTime()) || !isOccurrenceStart(series, occurrence)) {
+      const label = isNaN(occurrence.getTime()) ? 'The given date' : occurrence.toISOString();
+      throw new BadRequestException(`${label} is not an occurrence of event ${series.id}`);
+    }
+  }
+
+  private refreshSeriesEnd(event: Event): void {
+    event.recurrenceEndsAt = event.recurrenceRule ? getSeriesEnd(event) : null;
+  }
+
+  private truncateSeries(series: Event, occurrence: Date): void {
+    series.recurrenceRule = truncateRuleBefore(series.recurrenceRule, occurrence);
+    series.recurrenceExceptions = series.recurrenceExceptions.filter(date => new Date(date) < occurrence);
+    this.refreshSeriesEnd(series);
+    this.updateSingleEventStatusBasedOnTime(series);
+  }
+
+  // Details a new row for part of a series starts from, placed at `occurrence`
+  private copySeriesDetails(series: Event, occurrence: Date): DeepPartial<Event> {
+    return {
+      title: series.title,
+      description: series.description,
+      location: series.location,
+      organizer: series.organizer,
+      venueId: series.venueId,
+      venue: series.venue,
+      capacity: series.capacity,
+      reminderOffsets: series.reminderOffsets,
+      createdBy: series.createdBy,
+      startDate: occurrence,
+      endDate: series.endDate ? new Date(occurrence.getTime() + getDurationMs(series)) : undefined,
+    };
+  }
+
+  // Times sent for a targeted occurrence are that occurrence's, so the series start moves by the same amount
+  // and keeps the requested duration. An edited occurrence is compared at its own (edited) times.
+  private async toSeriesTimes(series: Event, occurrence: Date, updateEventDto: UpdateEventDto): Promise<UpdateEventDto> {
+    if (!updateEventDto.startDate && !updateEventDto.endDate) return updateEventDto;
+    const override = await this.eventRepository.findOne({ where: { seriesId: series.id, originalStartDate: occurrence } });
+    const occurrenceStart = override ? new Date(override.startDate) : occurrence;
+    const requestedStart = updateEventDto.startDate ? new Date(updateEventDto.startDate) : occurrenceStart;
+    const seriesStart = new Date(new Date(series.startDate).getTime() + requestedStart.getTime() - occurrenceStart.getTime());
+
+    const seriesTimes: UpdateEventDto = { ...updateEventDto };
+    if (updateEventDto.startDate) seriesTimes.startDate = seriesStart.toISOString();
+    if (updateEventDto.endDate) {
+      const durationMs = new Date(updateEventDto.endDate).getTime() - requestedStart.getTime();
+      seriesTimes.endDate = new Date(seriesStart.getTime() + durationMs).toISOString();
+    }
+    return seriesTimes;
+  }
+
+  // Re-points edited occurrences (from `from` on) to another series and/or shifts the starts they replace
+  private async moveOverrides(
+    manager: EntityManager,
+    seriesId: string,
+    options: { from?: Date; targetSeriesId?: string; shiftMs?: number },
+  ): Promise<void> {
+    const overrides = await manager.find(Event, {
+      where: { seriesId, ...(options.from ? { originalStartDate: MoreThanOrEqual(options.from) } : {}) },
+      withDeleted: true,
+    });
+    if (overrides.length === 0) return;
+    overrides.forEach(override => {
+      override.seriesId = options.targetSeriesId ?? seriesId;
+      override.originalStartDate = new Date(new Date(override.originalStartDate).getTime() + (options.shiftMs ?? 0));
+    });
+    await manager.save(overrides);
+  }
+
+  // Trashes edited occurrences of a series, optionally only those replacing starts within [from, to]
+  private async trashOverrides(
+    manager: EntityManager,
+    seriesId: string,
+    deleter: User,
+    deletedAt: Date,
+    from?: Date,
+    to?: Date,
+  ): Promise<void> {
+    const where: FindOptionsWhere<Event> = { seriesId, deletedAt: IsNull() };
+    if (from && to) where.originalStartDate = Between(from, to);
+    else if (from) where.originalStartDate = MoreThanOrEqual(from);
+    await manager.update(Event, where, { deletedById: deleter.id, deletedAt });
+  }
+
   private updateSingleEventStatusBasedOnTime(event: Event): void {
     if (event.status === EventStatus.Cancelled) return;
     const now = new Date();
     const start = new Date(event.startDate);
     const end = event.endDate ? new Date(event.endDate) : null;
     let newStatus: EventStatus;
-    if (start > now) newStatus = EventStatus.Upcoming;
+    if (event.recurrenceRule) {
+      // A series is Ongoing while one of its occurrences is, and Completed once the last one has ended
+      const current = getOccurrenceAtOrBefore(event, now);
+      if (event.recurrenceEndsAt && new Date(event.recurrenceEndsAt) < now) newStatus = EventStatus.Completed;
+      else if (current && current.getTime() + getDurationMs(event) >= now.getTime()) newStatus = EventStatus.Ongoing;
+      else newStatus = EventStatus.Upcoming;
+    } else if (start > now) newStatus = EventStatus.Upcoming;
     else if (start <= now && (!end || end >= now)) newStatus = EventStatus.Ongoing;
     else newStatus = EventStatus.Completed;
     if (event.status !== newStatus) {
@@ -299,7 +819,7 @@ export class EventsService {
         .getMany();
     } catch (error: any) {
       this.logger.error(`Error fetching stale events: ${error.message}`, error.stack);
-      return;
+      throw error;
     }
 
     if (potentiallyStaleEvents.length === 0) {
@@ -308,11 +828,13 @@ export class EventsService {
     }
 
     const updates: DeepPartial<Event>[] = [];
+    const completed: Event[] = [];
     for (const event of potentiallyStaleEvents) {
       const originalStatus = event.status;
       this.updateSingleEventStatusBasedOnTime(event);
       if (event.status !== originalStatus) {
         updates.push({ id: event.id, status: event.status });
+        if (event.status === EventStatus.Completed) completed.push(event);
       }
     }
 
@@ -320,8 +842,10 @@ export class EventsService {
       try {
         await this.eventRepository.save(updates);
         this.logger.log(`Successfully updated statuses for ${updates.length} events.`);
+        for (const event of completed) await this.notifyAttendeesOnCompletion(event);
       } catch (error: any) {
         this.logger.error(`Error during bulk status update: ${error.message}`, error.stack);
+        throw error;
       }
     } else {
       this.logger.log('No status changes detected during scheduled update.');
@@ -429,10 +953,106 @@ export class EventsService {
     this.logger.log(`Sent/attempted new event notifications to ${relevantUsers.length} users for event ${event.id}`);
   }
 
+  /**
+   * Checks the event's venue booking before it is saved: the venue must exist and seat the event's
+   * capacity, and a new or moved booking must not overlap another event there. An overlap is
+   * rejected unless `allowConflict` is set, in which case it is only logged. A newly chosen venue
+   * also becomes the location unless one was given.
+   */
+  private async applyVenue(
+    event: Event,
+    original: Event | null,
+    location: string | undefined,
+    allowConflict = false,
+    excludeEventIds: string[] = [],
+  ): Promise<void> {
+    if (!event.venueId) return;
+    const venue = await this.eventVenueService.getVenue(event.venueId);
+    event.venue = venue;
+    const isNewBooking = !original?.id || original.venueId !== event.venueId;
+    if (isNewBooking && !location) {
+      event.location = venue.building ? `${venue.name}, ${venue.building}` : venue.name;
+    }
+    if (venue.capacity && event.capacity && event.capacity > venue.capacity) {
+      throw new BadRequestException(`Capacity ${event.capacity} exceeds the ${venue.capacity} seats of venue "${venue.name}".`);
+    }
+    if (!isNewBooking && !this.affectsVenueBooking(original, event)) return;
+
+    const conflicts = await this.eventVenueService.findConflicts(event, excludeEventIds);
+    if (conflicts.length === 0) return;
+    const described = conflicts.slice(0, 3)
+      .map(booking => `"${booking.title}" (${booking.start.toISOString()} - ${booking.end.toISOString()})`)
+      .join(', ');
+    const more = conflicts.length > 3 ? ` and ${conflicts.length - 3} more` : '';
+    if (allowConflict) {
+      this.logger.warn(`Event ${event.id ?? 'new'} double-books venue ${venue.id} with ${described}${more}`);
+      return;
+    }
+    throw new ConflictException(
+      `Venue "${venue.name}" is already booked at that time by ${described}${more}. Set allowVenueConflict to book it anyway.`,
+    );
+  }
+
+  private affectsVenueBooking(original: Event, updated: Event): boolean {
+    const time = (date: Date | null | undefined) => (date ? new Date(date).getTime() : null);
+    return time(original.startDate) !== time(updated.startDate)
+      || time(original.endDate) !== time(updated.endDate)
+      || original.recurrenceRule !== updated.recurrenceRule
+      || JSON.stringify(original.recurrenceExceptions) !== JSON.stringify(updated.recurrenceExceptions)
+      || original.status !== updated.status;
+  }
+
+  // Whether an update moves, stops or re-times the event's reminders
+  private affectsReminders(original: Event, updated: Event): boolean {
+    const time = (date: Date | null | undefined) => (date ? new Date(date).getTime() : null);
+    return time(original.startDate) !== time(updated.startDate)
+      || time(original.endDate) !== time(updated.endDate)
+      || original.recurrenceRule !== updated.recurrenceRule
+      || JSON.stringify(original.recurrenceExceptions) !== JSON.stringify(updated.recurrenceExceptions)
+      || original.status !== updated.status
+      || JSON.stringify(original.reminderOffsets) !== JSON.stringify(updated.reminderOffsets);
+  }
+
+  // Reminder failures are logged rather than failing the change that triggered them
+  private async rescheduleReminders(...events: Event[]): Promise<void> {
+    for (const event of events) {
+      await this.eventReminderService.scheduleReminders(event).catch(reminderError => {
+        this.logger.error(`Failed to schedule reminders for event ${event.id}: ${reminderError.message}`, reminderError.stack);
+      });
+    }
+  }
+
+  // Points attendees to the event's photos once it is over; failures are only logged
+  private async notifyAttendeesOnCompletion(event: Event): Promise<void> {
+    try {
+      const mediaCount = await this.eventContentService.countMedia(event);
+      const photos = mediaCount > 0 ? `${mediaCount} photo${mediaCount === 1 ? ' is' : 's are'} already available` : 'Photos will be available';
+      await this.eventAttendanceService.notifyAttendees(
+        event,
+        `"${event.title}" has ended. ${photos} on the event page; add your own by linking your uploads to the event.`,
+      );
+    } catch (error: any) {
+      this.logger.error(`Failed to notify attendees of completed event ${event.id}: ${error.message}`, error.stack);
+    }
+  }
+
+  private async notifyAttendeesOnEventChange(event: Event, actor: User, changes: Partial<Event>): Promise<void> {
+    let message: string;
+    if (changes.status === EventStatus.Cancelled) {
+      message = `Event "${event.title}" you RSVP'd to has been cancelled.`;
+    } else {
+      // Capacity and status transitions are of no interest to attendees
+      const changed = Object.keys(changes).filter(key => key !== 'capacity' && key !== 'status');
+      if (changed.length === 0) return;
+      message = `Event "${event.title}" you RSVP'd to was updated: ${changed.map(key => `${key} changed`).join(', ')}.`;
+    }
+    await this.eventAttendanceService.notifyAttendees(event, message, actor.id);
+  }
+
   private getEventChanges(original: Event, updated: Event): Partial<Event> {
     const changes: Partial<Event> = {};
     const fieldsToCompare: (keyof Event)[] = [
-      'title', 'description', 'location', 'startDate', 'endDate', 'status', 'organizer',
+      'title', 'description', 'location', 'startDate', 'endDate', 'status', 'organizer', 'capacity', 'recurrenceRule',
     ];
 
     fieldsToCompare.forEach(key => {
@@ -449,6 +1069,10 @@ export class EventsService {
         if (originalValue !== updatedValue) {
           changes[key] = updatedValue as EventStatus;
         }
+      } else if (key === 'capacity') {
+        if (originalValue !== updatedValue) {
+          changes[key] = updatedValue as number | null;
+        }
       } else if (key === 'createdBy') {
         // Skip comparing user objects directly
       } else if (originalValue !== updatedValue) {
@@ -0,0 +1,5 @@
+// src/events/interfaces/calendar-feed.interface.ts
+export interface CalendarFeedLink {
+  token: string;
+  url: string; // Subscribable feed URL, token included
+}
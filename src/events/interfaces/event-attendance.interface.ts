@@ -0,0 +1,71 @@
+// src/events/interfaces/event-attendance.interface.ts
+import { RsvpResponse } from '../entities/event-attendee.entity';
+
+export interface EventAttendanceCounts {
+  going: number; // Seated only; waitlisted RSVPs are counted separately
+  interested: number;
+  notGoing: number;
+  waitlisted: number;
+  capacity: number | null;
+  seatsLeft: number | null;
+}
+
+export interface RsvpStatus {
+  eventId: string;
+  response: RsvpResponse;
+  waitlisted: boolean;
+  waitlistPosition: number | null; // 1-based
+  counts: EventAttendanceCounts;
+}
+
+export interface AttendeeSummary {
+  userId: string;
+  fullName: string | null;
+  email: string;
+  avatar: string | null;
+  response: RsvpResponse;
+  waitlisted: boolean;
+  waitlistedAt: Date | null;
+  respondedAt: Date;
+}
+
+export interface EventAttendeeList {
+  counts: EventAttendanceCounts;
+  attendees: AttendeeSummary[];
+}
+
+export interface EventTicket {
+  eventId: string;
+  token: string; // Encode as the QR code; signed, so it cannot be forged or moved to another event
+  expiresAt: Date;
+}
+
+export interface CheckInResult {
+  alreadyCheckedIn: boolean;
+  occurrenceDate: Date;
+  checkedInAt: Date;
+  attendee: Pick<AttendeeSummary, 'userId' | 'fullName' | 'email' | 'avatar'>;
+}
+
+export interface AttendanceRecord {
+  userId: string;
+  fullName: string | null;
+  email: string;
+  occurrenceDate: Date;
+  checkedInAt: Date;
+}
+
+export interface AttendanceReport {
+  eventId: string;
+  title: string;
+  occurrenceDate: Date | null; // Set when the report covers a single occurrence
+  counts: {
+    registered: number; // Currently holding a seat
+    checkedIn: number;
+    noShows: number | null; // Only for a single occurrence
+    attendanceRate: number | null; // checkedIn / registered, 0-1; only for a single occurrence
+  };
+  occurrences: { occurrenceDate: Date; checkedIn: number }[];
+  checkIns: AttendanceRecord[];
+  noShows: Pick<AttendeeSummary, 'userId' | 'fullName' | 'email'>[];
+}
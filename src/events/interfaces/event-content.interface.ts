@@ -0,0 +1,14 @@
+// src/events/interfaces/event-content.interface.ts
+import { Event } from '../entities/event.entity';
+import { GalleryItem } from '../../gallery/entities/gallery.entity';
+import { Update } from '../../updates/entities/update.entity';
+
+// Approved gallery items and updates linked to an event (and, for a series, its edited occurrences)
+export interface EventRelatedContent {
+  mediaCount: number;
+  updateCount: number;
+  media: GalleryItem[]; // Latest few; the rest via GET /events/:id/media
+  updates: Update[]; // Latest few; the rest via GET /events/:id/updates
+}
+
+export type EventDetails = Event & { relatedContent: EventRelatedContent };
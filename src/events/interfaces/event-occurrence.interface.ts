@@ -0,0 +1,9 @@
+// src/events/interfaces/event-occurrence.interface.ts
+import { Event } from '../entities/event.entity';
+
+/**
+ * An event as listed by getEvents. For recurring series each occurrence is returned separately,
+ * carrying the series' id; occurrenceDate is its original start and identifies it in
+ * update/delete requests (?scope=this|following&occurrence=...). Null for one-off events.
+ */
+export type EventOccurrence = Event & { occurrenceDate: Date | null };
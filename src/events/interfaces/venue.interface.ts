@@ -0,0 +1,18 @@
+// src/events/interfaces/venue.interface.ts
+import { Venue } from '../entities/venue.entity';
+
+// One occurrence of an event holding a venue
+export interface VenueBooking {
+  eventId: string; // The series for an occurrence of a recurring event
+  title: string;
+  start: Date;
+  end: Date;
+  occurrenceDate: Date | null; // Set for occurrences of recurring events
+}
+
+export interface VenueAvailability {
+  venue: Venue;
+  from: Date;
+  to: Date;
+  bookings: VenueBooking[]; // Busy periods in the range, by start time; anything else is free
+}
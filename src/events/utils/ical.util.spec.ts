@@ -0,0 +1,119 @@
+import { Event, EventStatus } from '../entities/event.entity';
+import { foldLine, getEventUid, renderCalendar } from './ical.util';
+
+const unfold = (text: string) => text.replace(/\r\n /g, '');
+
+const makeEvent = (fields: Partial<Event>): Event => Object.assign(new Event(), {
+  id: 'a7d8f6e2-0b1c-4c2d-9e3f-1a2b3c4d5e6f',
+  title: 'Open day',
+  description: null,
+  startDate: new Date('2026-01-05T10:00:00Z'),
+  endDate: new Date('2026-01-05T11:30:00Z'),
+  location: null,
+  organizer: null,
+  status: EventStatus.Upcoming,
+  recurrenceRule: null,
+  recurrenceExceptions: [],
+  seriesId: null,
+  originalStartDate: null,
+  createdAt: new Date('2025-12-01T08:00:00Z'),
+  updatedAt: new Date('2025-12-02T08:00:00Z'),
+  ...fields,
+});
+
+const options = { name: 'Department events', uidDomain: 'events.example.org' };
+
+describe('ical.util', () => {
+  describe('foldLine', () => {
+    it('leaves lines of up to 75 octets alone', () => {
+      const line = `SUMMARY:${'x'.repeat(67)}`;
+      expect(line).toHaveLength(75);
+      expect(foldLine(line)).toBe(line);
+    });
+
+    it('folds longer lines into 75-octet lines, continuations starting with a space', () => {
+      const line = `DESCRIPTION:${'abcdefghij'.repeat(20)}`;
+      const folded = foldLine(line);
+      const parts = folded.split('\r\n');
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part, index) => {
+        expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+        if (index > 0) expect(part.startsWith(' ')).toBe(true);
+      });
+      expect(parts[0]).toHaveLength(75);
+      expect(unfold(folded)).toBe(line);
+    });
+
+    it('counts octets rather than characters and never splits a multi-byte character', () => {
+      const line = `LOCATION:${'é'.repeat(60)}`;
+      const folded = foldLine(line);
+      folded.split('\r\n').forEach(part => {
+        expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+        expect(part).not.toContain('�');
+      });
+      expect(unfold(folded)).toBe(line);
+    });
+  });
+
+  describe('renderCalendar', () => {
+    it('wraps the events in a VCALENDAR with CRLF line endings', () => {
+      const calendar = renderCalendar([makeEvent({})], options);
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+      expect(calendar).toContain('X-WR-CALNAME:Department events\r\n');
+    });
+
+    it('renders times in UTC basic format', () => {
+      const calendar = renderCalendar([makeEvent({})], options);
+      expect(calendar).toContain('DTSTART:20260105T100000Z\r\n');
+      expect(calendar).toContain('DTEND:20260105T113000Z\r\n');
+      expect(calendar).toContain('CREATED:20251201T080000Z\r\n');
+    });
+
+    it('escapes text values', () => {
+      const calendar = renderCalendar([makeEvent({
+        title: 'Talks; posters, demos',
+        description: 'Line one\nC:\\path',
+        organizer: 'Dept. of Physics',
+      })], options);
+      expect(calendar).toContain('SUMMARY:Talks\\; posters\\, demos\r\n');
+      expect(unfold(calendar)).toContain('DESCRIPTION:Line one\\nC:\\\\path\\n\\nOrganizer: Dept. of Physics\r\n');
+    });
+
+    it('adds the rule and exceptions of a series', () => {
+      const calendar = renderCalendar([makeEvent({
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=5',
+        recurrenceExceptions: ['2026-01-12T10:00:00.000Z'],
+      })], options);
+      expect(calendar).toContain('RRULE:FREQ=WEEKLY;COUNT=5\r\n');
+      expect(calendar).toContain('EXDATE:20260112T100000Z\r\n');
+    });
+
+    it('gives an edited occurrence the series UID and a RECURRENCE-ID', () => {
+      const seriesId = 'b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e';
+      const occurrence = makeEvent({
+        seriesId,
+        originalStartDate: new Date('2026-01-19T10:00:00Z'),
+        startDate: new Date('2026-01-19T14:00:00Z'),
+      });
+      const calendar = renderCalendar([occurrence], options);
+      expect(getEventUid(occurrence, options.uidDomain)).toBe(`${seriesId}@events.example.org`);
+      expect(calendar).toContain(`UID:${seriesId}@events.example.org\r\n`);
+      expect(calendar).toContain('RECURRENCE-ID:20260119T100000Z\r\n');
+      expect(calendar).not.toContain('RRULE:');
+    });
+
+    it('marks cancelled events and adds the event URL when configured', () => {
+      const event = makeEvent({ status: EventStatus.Cancelled });
+      const calendar = renderCalendar([event], { ...options, eventUrl: e => `https://events.example.org/events/${e.id}` });
+      expect(calendar).toContain('STATUS:CANCELLED\r\n');
+      expect(calendar).toContain(`URL:https://events.example.org/events/${event.id}\r\n`);
+    });
+
+    it('folds every line to 75 octets', () => {
+      const calendar = renderCalendar([makeEvent({ description: 'A long description. '.repeat(20) })], options);
+      calendar.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// src/events/utils/ical.util.ts
+import { Event, EventStatus } from '../entities/event.entity';
+
+export interface CalendarOptions {
+  name: string;
+  uidDomain: string;
+  eventUrl?: (event: Event) => string;
+}
+
+// RFC 5545 3.1: content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatDateTime(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * UID shared by a series and its separately edited occurrences (which add RECURRENCE-ID), so
+ * calendar clients update existing entries instead of adding duplicates.
+ */
+export function getEventUid(event: Pick<Event, 'id' | 'seriesId'>, uidDomain: string): string {
+  return `${event.seriesId ?? event.id}@${uidDomain}`;
+}
+
+function renderEvent(event: Event, options: CalendarOptions, stamp: Date): string[] {
+  const description = [event.description, event.organizer ? `Organizer: ${event.organizer}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event, options.uidDomain)}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    `DTSTART:${formatDateTime(event.startDate)}`,
+  ];
+  if (event.endDate) lines.push(`DTEND:${formatDateTime(event.endDate)}`);
+  if (event.seriesId && event.originalStartDate) lines.push(`RECURRENCE-ID:${formatDateTime(event.originalStartDate)}`);
+  if (event.recurrenceRule) {
+    lines.push(`RRULE:${event.recurrenceRule}`);
+    (event.recurrenceExceptions ?? []).forEach(exception => lines.push(`EXDATE:${formatDateTime(new Date(exception))}`));
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (options.eventUrl) lines.push(`URL:${options.eventUrl(event)}`);
+  lines.push(`STATUS:${event.status === EventStatus.Cancelled ? 'CANCELLED' : 'CONFIRMED'}`);
+  if (event.createdAt) lines.push(`CREATED:${formatDateTime(event.createdAt)}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatDateTime(event.updatedAt)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** Renders events as an iCalendar (RFC 5545) document with CRLF line endings. */
+export function renderCalendar(events: Event[], options: CalendarOptions): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CIVE Gallery//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...events.flatMap(event => renderEvent(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,168 @@
+import {
+  continueRuleFrom,
+  getNextOccurrence,
+  getOccurrenceAtOrBefore,
+  getOccurrenceStarts,
+  getSeriesEnd,
+  isOccurrenceStart,
+  normalizeRecurrenceRule,
+  RecurringEventFields,
+  shiftDates,
+  truncateRuleBefore,
+} from './recurrence.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+const utc = (value: string) => new Date(`${value}Z`);
+
+// Five weekly Monday meetings from 5 January 2026, an hour each
+const series = (overrides: Partial<RecurringEventFields> = {}): RecurringEventFields => ({
+  startDate: utc('2026-01-05T10:00:00'),
+  endDate: utc('2026-01-05T11:00:00'),
+  recurrenceRule: 'FREQ=WEEKLY;COUNT=5',
+  recurrenceExceptions: [],
+  ...overrides,
+});
+
+const allStarts = (event: RecurringEventFields) =>
+  getOccurrenceStarts(event, utc('2025-01-01T00:00:00'), utc('2027-01-01T00:00:00')).map(date => date.toISOString());
+
+describe('recurrence.util', () => {
+  describe('normalizeRecurrenceRule', () => {
+    it('strips the RRULE: prefix and returns the canonical form', () => {
+      expect(normalizeRecurrenceRule(' RRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4 ')).toBe('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4');
+    });
+
+    it('rejects rules without FREQ, with unsupported frequencies or with DTSTART', () => {
+      expect(() => normalizeRecurrenceRule('COUNT=3')).toThrow('must include FREQ');
+      expect(() => normalizeRecurrenceRule('FREQ=HOURLY')).toThrow('DAILY, WEEKLY, MONTHLY or YEARLY');
+      expect(() => normalizeRecurrenceRule('DTSTART:20260105T100000Z\nRRULE:FREQ=DAILY')).toThrow();
+    });
+
+    it('rejects a COUNT above the occurrence cap', () => {
+      expect(() => normalizeRecurrenceRule('FREQ=DAILY;COUNT=1001')).toThrow('COUNT cannot exceed 1000');
+    });
+  });
+
+  describe('occurrence expansion', () => {
+    it('lists every occurrence start within the range', () => {
+      expect(allStarts(series())).toEqual([
+        '2026-01-05T10:00:00.000Z',
+        '2026-01-12T10:00:00.000Z',
+        '2026-01-19T10:00:00.000Z',
+        '2026-01-26T10:00:00.000Z',
+        '2026-02-02T10:00:00.000Z',
+      ]);
+    });
+
+    it('includes occurrences starting exactly on the range bounds', () => {
+      const starts = getOccurrenceStarts(series(), utc('2026-01-12T10:00:00'), utc('2026-01-19T10:00:00'));
+      expect(starts.map(date => date.toISOString())).toEqual(['2026-01-12T10:00:00.000Z', '2026-01-19T10:00:00.000Z']);
+    });
+
+    it('leaves out exceptions', () => {
+      const event = series({ recurrenceExceptions: ['2026-01-12T10:00:00.000Z'] });
+      expect(allStarts(event)).not.toContain('2026-01-12T10:00:00.000Z');
+      expect(allStarts(event)).toHaveLength(4);
+    });
+
+    it('recognises occurrence starts only at their exact time', () => {
+      const event = series({ recurrenceExceptions: ['2026-01-12T10:00:00.000Z'] });
+      expect(isOccurrenceStart(event, utc('2026-01-19T10:00:00'))).toBe(true);
+      expect(isOccurrenceStart(event, utc('2026-01-19T11:00:00'))).toBe(false);
+      expect(isOccurrenceStart(event, utc('2026-01-12T10:00:00'))).toBe(false);
+      expect(isOccurrenceStart(event, utc('2026-02-09T10:00:00'))).toBe(false);
+    });
+
+    it('finds the occurrence at or before a time and the next one after it', () => {
+      const at = utc('2026-01-19T10:30:00');
+      expect(getOccurrenceAtOrBefore(series(), at)?.toISOString()).toBe('2026-01-19T10:00:00.000Z');
+      expect(getNextOccurrence(series(), at)?.toISOString()).toBe('2026-01-26T10:00:00.000Z');
+      expect(getOccurrenceAtOrBefore(series(), utc('2026-01-01T00:00:00'))).toBeNull();
+      expect(getNextOccurrence(series(), utc('2026-02-02T10:00:00'))).toBeNull();
+    });
+  });
+
+  describe('getSeriesEnd', () => {
+    it('is the end of the last occurrence for a COUNT rule', () => {
+      expect(getSeriesEnd(series())?.toISOString()).toBe('2026-02-02T11:00:00.000Z');
+    });
+
+    it('is null for an open-ended rule', () => {
+      expect(getSeriesEnd(series({ recurrenceRule: 'FREQ=WEEKLY' }))).toBeNull();
+    });
+  });
+
+  describe('splitting a series', () => {
+    const splitAt = utc('2026-01-19T10:00:00');
+
+    it('truncateRuleBefore ends the rule just before the occurrence and drops COUNT', () => {
+      const truncated = truncateRuleBefore('FREQ=WEEKLY;COUNT=5', splitAt);
+      expect(truncated).toBe('FREQ=WEEKLY;UNTIL=20260119T095959Z');
+      expect(allStarts(series({ recurrenceRule: truncated }))).toEqual([
+        '2026-01-05T10:00:00.000Z',
+        '2026-01-12T10:00:00.000Z',
+      ]);
+    });
+
+    it('continueRuleFrom reduces COUNT by the occurrences before the split', () => {
+      const continued = continueRuleFrom('FREQ=WEEKLY;COUNT=5', utc('2026-01-05T10:00:00'), splitAt);
+      expect(continued).toBe('FREQ=WEEKLY;COUNT=3');
+      expect(allStarts(series({ startDate: splitAt, endDate: null, recurrenceRule: continued }))).toEqual([
+        '2026-01-19T10:00:00.000Z',
+        '2026-01-26T10:00:00.000Z',
+        '2026-02-02T10:00:00.000Z',
+      ]);
+    });
+
+    it('continueRuleFrom still counts excepted occurrences, as COUNT does', () => {
+      const exceptions = ['2026-01-12T10:00:00.000Z', '2026-01-26T10:00:00.000Z'];
+      const original = series({ recurrenceExceptions: exceptions });
+      const after = series({
+        startDate: splitAt,
+        recurrenceRule: continueRuleFrom('FREQ=WEEKLY;COUNT=5', utc('2026-01-05T10:00:00'), splitAt),
+        recurrenceExceptions: exceptions.filter(date => new Date(date) >= splitAt),
+      });
+      expect(allStarts(after)).toEqual(allStarts(original).filter(date => new Date(date) >= splitAt));
+    });
+
+    it('continueRuleFrom keeps the rule unchanged when splitting at the first occurrence', () => {
+      expect(continueRuleFrom('FREQ=WEEKLY;COUNT=5', utc('2026-01-05T10:00:00'), utc('2026-01-05T10:00:00'))).toBe('FREQ=WEEKLY;COUNT=5');
+    });
+
+    it('continueRuleFrom never goes below one occurrence', () => {
+      expect(continueRuleFrom('FREQ=WEEKLY;COUNT=2', utc('2026-01-05T10:00:00'), utc('2026-02-02T10:00:00'))).toBe('FREQ=WEEKLY;COUNT=1');
+    });
+
+    it('continueRuleFrom leaves UNTIL rules alone', () => {
+      const rule = 'FREQ=WEEKLY;UNTIL=20260301T000000Z';
+      expect(continueRuleFrom(rule, utc('2026-01-05T10:00:00'), splitAt)).toBe(rule);
+    });
+
+    it('yields the original occurrences when both halves are combined', () => {
+      const before = series({ recurrenceRule: truncateRuleBefore('FREQ=WEEKLY;COUNT=5', splitAt) });
+      const after = series({ startDate: splitAt, recurrenceRule: continueRuleFrom('FREQ=WEEKLY;COUNT=5', utc('2026-01-05T10:00:00'), splitAt) });
+      expect([...allStarts(before), ...allStarts(after)]).toEqual(allStarts(series()));
+    });
+  });
+
+  describe('shiftDates', () => {
+    it('moves every date by the given amount', () => {
+      expect(shiftDates(['2026-01-12T10:00:00.000Z', '2026-01-26T10:00:00.000Z'], -HOUR_MS)).toEqual([
+        '2026-01-12T09:00:00.000Z',
+        '2026-01-26T09:00:00.000Z',
+      ]);
+    });
+
+    it('keeps exceptions on the same occurrences when the series start moves', () => {
+      const original = series({ recurrenceExceptions: ['2026-01-12T10:00:00.000Z'] });
+      const shiftMs = 2 * HOUR_MS;
+      const moved = series({
+        startDate: new Date(original.startDate.getTime() + shiftMs),
+        endDate: new Date(original.endDate.getTime() + shiftMs),
+        recurrenceExceptions: shiftDates(original.recurrenceExceptions, shiftMs),
+      });
+      expect(allStarts(moved)).toEqual(shiftDates(allStarts(original), shiftMs));
+      expect(allStarts(moved)).not.toContain('2026-01-12T12:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// src/events/utils/recurrence.util.ts
+import { RRule, RRuleSet, Frequency, Options } from 'rrule';
+
+export interface RecurringEventFields {
+  startDate: Date;
+  endDate?: Date | null;
+  recurrenceRule: string | null;
+  recurrenceExceptions: string[];
+}
+
+const ALLOWED_FREQUENCIES = [Frequency.DAILY, Frequency.WEEKLY, Frequency.MONTHLY, Frequency.YEARLY];
+// Guards against rules that would expand into an unbounded number of rows
+export const MAX_OCCURRENCES = 1000;
+
+/**
+ * Validates an RFC 5545 RRULE and returns it in canonical form without the "RRULE:" prefix.
+ * DTSTART is not accepted in the rule; the event's startDate is the series start.
+ * Throws an Error with a client-safe message when the rule is invalid.
+ */
+export function normalizeRecurrenceRule(rule: string): string {
+  const trimmed = rule.trim().replace(/^RRULE:/i, '');
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(trimmed);
+  } catch (error: any) {
+    throw new Error(`Invalid recurrence rule: ${error.message}`);
+  }
+  if (options.freq === undefined) throw new Error('Recurrence rule must include FREQ.');
+  if (!ALLOWED_FREQUENCIES.includes(options.freq)) {
+    throw new Error('Recurrence rule FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY.');
+  }
+  if (options.dtstart) throw new Error('Recurrence rule must not include DTSTART; use startDate instead.');
+  if (options.count !== undefined && options.count !== null && options.count > MAX_OCCURRENCES) {
+    throw new Error(`Recurrence rule COUNT cannot exceed ${MAX_OCCURRENCES}.`);
+  }
+  return RRule.optionsToString(options).replace(/^RRULE:/, '');
+}
+
+function buildRule(rule: string, startDate: Date): RRule {
+  return new RRule({ ...RRule.parseString(rule), dtstart: new Date(startDate) });
+}
+
+function buildRuleSet(event: RecurringEventFields): RRuleSet {
+  const ruleSet = new RRuleSet();
+  ruleSet.rrule(buildRule(event.recurrenceRule, event.startDate));
+  (event.recurrenceExceptions ?? []).forEach(exception => ruleSet.exdate(new Date(exception)));
+  return ruleSet;
+}
+
+export function getDurationMs(event: Pick<RecurringEventFields, 'startDate' | 'endDate'>): number {
+  return event.endDate ? new Date(event.endDate).getTime() - new Date(event.startDate).getTime() : 0;
+}
+
+/** Start times of the occurrences starting within [from, to], exceptions removed. */
+export function getOccurrenceStarts(event: RecurringEventFields, from: Date, to: Date): Date[] {
+  return buildRuleSet(event)
+    .between(from, to, true, (_date, index) => index < MAX_OCCURRENCES);
+}
+
+/** Whether `date` is a (non-excepted) occurrence start of the series. */
+export function isOccurrenceStart(event: RecurringEventFields, date: Date): boolean {
+  return getOccurrenceStarts(event, date, date).length > 0;
+}
+
+/** End of the series' last occurrence, or null when the rule has neither COUNT nor UNTIL. */
+export function getSeriesEnd(event: RecurringEventFields): Date | null {
+  const rule = buildRule(event.recurrenceRule, event.startDate);
+  if (!rule.options.count && !rule.options.until) return null;
+  const occurrences = rule.all((_date, index) => index < MAX_OCCURRENCES);
+  if (occurrences.length === 0) return new Date(event.startDate);
+  return new Date(occurrences[occurrences.length - 1].getTime() + getDurationMs(event));
+}
+
+/** The occurrence in progress at `at`, or the last one to have started before it. */
+export function getOccurrenceAtOrBefore(event: RecurringEventFields, at: Date): Date | null {
+  return buildRuleSet(event).before(at, true);
+}
+
+export function getNextOccurrence(event: RecurringEventFields, after: Date): Date | null {
+  return buildRuleSet(event).after(after, false);
+}
+
+/** Moves ISO dates (exceptions, replaced occurrence starts) along with a series whose start moved by `shiftMs`. */
+export function shiftDates(dates: string[], shiftMs: number): string[] {
+  return dates.map(date => new Date(new Date(date).getTime() + shiftMs).toISOString());
+}
+
+/** Ends the rule just before `occurrenceStart` (used when splitting a series). */
+export function truncateRuleBefore(rule: string, occurrenceStart: Date): string {
+  const options = RRule.parseString(rule);
+  delete options.count;
+  options.until = new Date(occurrenceStart.getTime() - 1000);
+  return RRule.optionsToString(options).replace(/^RRULE:/, '');
+}
+
+/** Rule for the new series that continues from `occurrenceStart`; a COUNT is reduced by the occurrences already past. */
+export function continueRuleFrom(rule: string, seriesStart: Date, occurrenceStart: Date): string {
+  const options = RRule.parseString(rule);
+  if (options.count) {
+    const elapsed = buildRule(rule, seriesStart).between(new Date(seriesStart), occurrenceStart, true).length - 1;
+    options.count = Math.max(options.count - Math.max(elapsed, 0), 1);
+  }
+  return RRule.optionsToString(options).replace(/^RRULE:/, '');
+}
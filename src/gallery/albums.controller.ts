@@ -0,0 +1,156 @@
+// src/gallery/albums.controller.ts
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  UseGuards,
+  Req,
+  Body,
+  Param,
+  Query,
+  Logger,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  ValidationPipe,
+} from '@nestjs/common';
+import * as express from 'express';
+import { AlbumsService, PaginatedAlbums } from './albums.service';
+import { GallerySearchService } from './gallery-search.service';
+import { User } from '../auth/entities/user.entity';
+import { Album } from './entities/album.entity';
+import { CreateAlbumDto } from './dto/create-album.dto';
+import { UpdateAlbumDto } from './dto/update-album.dto';
+import { ListAlbumsDto } from './dto/list-albums.dto';
+import { AlbumItemsDto, ApproveAlbumDto } from './dto/album-items.dto';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+
+@Controller('gallery/albums')
+@UseGuards(JwtAuthGuard)
+export class AlbumsController {
+  private readonly logger = new Logger(AlbumsController.name);
+
+  constructor(
+    private albumsService: AlbumsService,
+    private searchService: GallerySearchService,
+  ) {
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createAlbum(
+    @Req() req: express.Request & { user: User },
+    @Body() createAlbumDto: CreateAlbumDto,
+  ): Promise<ApiResponse<Album>> {
+    this.logger.log(`Create album request by userId=${req.user.id}`);
+    const album = await this.albumsService.createAlbum(req.user, createAlbumDto);
+    this.clearSearchCache();
+    return { message: 'Album created successfully.', data: album };
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async listAlbums(
+    @Req() req: express.Request & { user: User },
+    @Query(new ValidationPipe({ transform: true })) listAlbumsDto: ListAlbumsDto,
+  ): Promise<ApiResponse<PaginatedAlbums>> {
+    const albums = await this.albumsService.listAlbums(req.user, listAlbumsDto);
+    return { message: 'Albums fetched successfully.', data: albums };
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getAlbum(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<Album>> {
+    const album = await this.albumsService.getAlbum(albumId, req.user);
+    return { message: 'Album fetched successfully.', data: album };
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async updateAlbum(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+    @Body() updateAlbumDto: UpdateAlbumDto,
+  ): Promise<ApiResponse<Album>> {
+    this.logger.log(`Update album request: albumId=${albumId}, userId=${req.user.id}`);
+    const album = await this.albumsService.updateAlbum(albumId, req.user, updateAlbumDto);
+    this.clearSearchCache();
+    return { message: 'Album updated successfully.', data: album };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteAlbum(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    this.logger.log(`Delete album request: albumId=${albumId}, userId=${req.user.id}`);
+    const success = await this.albumsService.deleteAlbum(albumId, req.user);
+    this.clearSearchCache();
+    return { message: 'Album deleted successfully.', data: { success } };
+  }
+
+  @Post(':id/items')
+  @HttpCode(HttpStatus.OK)
+  async addItems(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+    @Body() albumItemsDto: AlbumItemsDto,
+  ): Promise<ApiResponse<Album>> {
+    const album = await this.albumsService.addItems(albumId, req.user, albumItemsDto.itemIds);
+    this.clearSearchCache();
+    return { message: 'Items added to album successfully.', data: album };
+  }
+
+  // Body lists every gallery item ID in the album in its new order
+  @Patch(':id/items/order')
+  @HttpCode(HttpStatus.OK)
+  async reorderItems(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+    @Body() albumItemsDto: AlbumItemsDto,
+  ): Promise<ApiResponse<Album>> {
+    const album = await this.albumsService.reorderItems(albumId, req.user, albumItemsDto.itemIds);
+    return { message: 'Album items reordered successfully.', data: album };
+  }
+
+  @Delete(':id/items/:itemId')
+  @HttpCode(HttpStatus.OK)
+  async removeItem(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<Album>> {
+    const album = await this.albumsService.removeItem(albumId, req.user, itemId);
+    this.clearSearchCache();
+    return { message: 'Item removed from album successfully.', data: album };
+  }
+
+  @Patch(':id/approve')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async approveAlbum(
+    @Param('id', ParseUUIDPipe) albumId: string,
+    @Req() req: express.Request & { user: User },
+    @Body() approveAlbumDto: ApproveAlbumDto,
+  ): Promise<ApiResponse<Album>> {
+    this.logger.log(`Album approval request by userId=${req.user.id}, albumId=${albumId}`);
+    const album = await this.albumsService.approveAlbum(req.user, albumId, approveAlbumDto.isApproved);
+    this.clearSearchCache();
+    return { message: 'Album approval status updated successfully.', data: album };
+  }
+
+  private clearSearchCache(): void {
+    this.searchService.clearCache('search:*').catch(err => this.logger.warn(`Failed to clear cache: ${err.message}`));
+  }
+}
@@ -0,0 +1,365 @@
+// src/gallery/albums.service.ts
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Brackets } from 'typeorm';
+import { Album, AlbumVisibility } from './entities/album.entity';
+import { AlbumItem } from './entities/album-item.entity';
+import { GalleryItem } from './entities/gallery.entity';
+import { User } from '../auth/entities/user.entity';
+import { CreateAlbumDto } from './dto/create-album.dto';
+import { UpdateAlbumDto } from './dto/update-album.dto';
+import { ListAlbumsDto } from './dto/list-albums.dto';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { GalleryService } from './gallery.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+
+export interface PaginatedAlbums {
+  items: Album[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class AlbumsService {
+  private readonly logger = new Logger(AlbumsService.name);
+
+  constructor(
+    @InjectRepository(Album)
+    private readonly albumRepository: Repository<Album>,
+    @InjectRepository(AlbumItem)
+    private readonly albumItemRepository: Repository<AlbumItem>,
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    private readonly galleryService: GalleryService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async createAlbum(user: User, createAlbumDto: CreateAlbumDto): Promise<Album> {
+    this.logger.log(`Creating album "${createAlbumDto.title}" for userId=${user.id}`);
+    if (user.role === UserRole.Visitor) {
+      throw new ForbiddenException('Visitors are not permitted to create albums.');
+    }
+
+    const itemIds = [...new Set(createAlbumDto.itemIds ?? [])];
+    const items = await this.findAddableItems(user, itemIds);
+    if (createAlbumDto.coverItemId && !itemIds.includes(createAlbumDto.coverItemId)) {
+      throw new BadRequestException('Cover item must be one of the album items.');
+    }
+
+    const isAdminOrStaff = this.isAdminOrStaff(user);
+    const album = this.albumRepository.create({
+      title: createAlbumDto.title.trim(),
+      description: createAlbumDto.description?.trim() ?? '',
+      visibility: createAlbumDto.visibility ?? AlbumVisibility.Public,
+      owner: user,
+      isApproved: isAdminOrStaff, // Auto-approve for Admin/Staff
+      coverItem: items.find(item => item.id === createAlbumDto.coverItemId) ?? items[0] ?? null,
+    });
+
+    try {
+      const savedAlbum = await this.albumRepository.save(album);
+      if (items.length > 0) {
+        const albumItems = itemIds.map((id, index) => this.albumItemRepository.create({
+          album: savedAlbum,
+          galleryItem: items.find(item => item.id === id),
+          position: index,
+        }));
+        await this.albumItemRepository.save(albumItems);
+      }
+      this.logger.log(`Album created: id=${savedAlbum.id}, items=${items.length}, isApproved=${savedAlbum.isApproved}`);
+      return this.getAlbum(savedAlbum.id, user);
+    } catch (error: any) {
+      this.logger.error(`Failed to create album for userId=${user.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to create album.');
+    }
+  }
+
+  async listAlbums(user: User, listAlbumsDto: ListAlbumsDto): Promise<PaginatedAlbums> {
+    const { ownerId, page = 1, limit = 20 } = listAlbumsDto;
+    this.logger.log(`Listing albums: ownerId=${ownerId ?? 'any'}, page=${page}, limit=${limit}, userId=${user.id}`);
+
+    const queryBuilder = this.albumRepository.createQueryBuilder('album')
+      .leftJoin('album.owner', 'owner')
+      .addSelect(['owner.id', 'owner.fullName'])
+      .leftJoinAndSelect('album.coverItem', 'coverItem')
+      .loadRelationCountAndMap('album.itemCount', 'album.albumItems');
+
+    // Admin/Staff see everything; others see public approved albums plus their own
+    if (!this.isAdminOrStaff(user)) {
+      queryBuilder.where(new Brackets(qb => {
+        qb.where('album.isApproved = true AND album.visibility = :public', { public: AlbumVisibility.Public })
+          .orWhere('owner.id = :userId', { userId: user.id });
+      }));
+    }
+    if (ownerId) {
+      queryBuilder.andWhere('owner.id = :ownerId', { ownerId });
+    }
+
+    queryBuilder
+      .orderBy('album.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    try {
+      const [items, total] = await queryBuilder.getManyAndCount();
+      return { items, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error: any) {
+      this.logger.error(`Failed to list albums: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve albums.');
+    }
+  }
+
+  async getAlbum(albumId: string, user?: User): Promise<Album> {
+    this.logger.log(`Fetching albumId=${albumId}, requested by userId=${user?.id ?? 'anonymous'}`);
+    const album = await this.albumRepository.createQueryBuilder('album')
+      .leftJoin('album.owner', 'owner')
+      .addSelect(['owner.id', 'owner.fullName'])
+      .leftJoinAndSelect('album.coverItem', 'coverItem')
+      .leftJoinAndSelect('album.albumItems', 'albumItem')
+      .leftJoinAndSelect('albumItem.galleryItem', 'galleryItem')
+      .where('album.id = :albumId', { albumId })
+      .orderBy('albumItem.position', 'ASC')
+      .getOne();
+    if (!album) throw new NotFoundException(`Album ${albumId} not found.`);
+
+    const isAdminOrStaff = this.isAdminOrStaff(user);
+    const isOwner = user?.id === album.owner?.id;
+    if (!isAdminOrStaff && !isOwner) {
+      if (!album.isApproved || album.visibility === AlbumVisibility.Private) {
+        throw new ForbiddenException('Access denied.');
+      }
+      // Items still awaiting approval stay hidden from other users
+      album.albumItems = album.albumItems.filter(albumItem => albumItem.galleryItem?.isApproved);
+      if (album.coverItem && !album.coverItem.isApproved) album.coverItem = null;
+    }
+    return album;
+  }
+
+  async updateAlbum(albumId: string, user: User, updateAlbumDto: UpdateAlbumDto): Promise<Album> {
+    this.logger.log(`Updating albumId=${albumId} by userId=${user.id}`);
+    const album = await this.findManageableAlbum(albumId, user);
+
+    if (updateAlbumDto.title !== undefined) album.title = updateAlbumDto.title.trim();
+    if (updateAlbumDto.description !== undefined) album.description = updateAlbumDto.description.trim();
+    if (updateAlbumDto.visibility !== undefined) album.visibility = updateAlbumDto.visibility;
+    if (updateAlbumDto.coverItemId !== undefined) {
+      if (updateAlbumDto.coverItemId === null) {
+        album.coverItem = null;
+      } else {
+        const albumItem = await this.albumItemRepository.findOne({
+          where: { album: { id: albumId }, galleryItem: { id: updateAlbumDto.coverItemId } },
+        });
+        if (!albumItem) throw new BadRequestException('Cover item must be one of the album items.');
+        album.coverItem = albumItem.galleryItem;
+      }
+    }
+
+    try {
+      await this.albumRepository.save(album);
+      this.logger.log(`Album updated: id=${albumId}`);
+      return this.getAlbum(albumId, user);
+    } catch (error: any) {
+      this.logger.error(`Failed to update album ${albumId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to update album.');
+    }
+  }
+
+  async deleteAlbum(albumId: string, user: User): Promise<boolean> {
+    this.logger.log(`Attempting delete albumId=${albumId} by userId=${user.id}`);
+    await this.findManageableAlbum(albumId, user);
+
+    // Only the album and its item links are removed; the gallery items themselves are kept
+    try {
+      const deleteResult = await this.albumRepository.delete({ id: albumId });
+      if (deleteResult.affected === 0) throw new InternalServerErrorException('DB delete failed.');
+      this.logger.log(`Deleted albumId=${albumId}`);
+      return true;
+    } catch (error: any) {
+      if (error instanceof InternalServerErrorException) throw error;
+      this.logger.error(`Delete album failed: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Deletion failed.');
+    }
+  }
+
+  async addItems(albumId: string, user: User, itemIds: string[]): Promise<Album> {
+    this.logger.log(`Adding ${itemIds.length} items to albumId=${albumId} by userId=${user.id}`);
+    const album = await this.findManageableAlbum(albumId, user);
+
+    const existingItems = await this.albumItemRepository.find({
+      where: { album: { id: albumId } },
+      order: { position: 'ASC' },
+    });
+    const existingIds = new Set(existingItems.map(albumItem => albumItem.galleryItem.id));
+    const newIds = [...new Set(itemIds)].filter(id => !existingIds.has(id));
+    if (newIds.length === 0) {
+      throw new BadRequestException('All selected items are already in this album.');
+    }
+    const items = await this.findAddableItems(user, newIds);
+
+    const nextPosition = existingItems.length > 0 ? existingItems[existingItems.length - 1].position + 1 : 0;
+    const albumItems = newIds.map((id, index) => this.albumItemRepository.create({
+      album,
+      galleryItem: items.find(item => item.id === id),
+      position: nextPosition + index,
+    }));
+
+    try {
+      await this.albumItemRepository.save(albumItems);
+      if (!album.coverItem) {
+        album.coverItem = albumItems[0].galleryItem;
+        await this.albumRepository.save(album);
+      }
+      this.logger.log(`Added ${albumItems.length} items to albumId=${albumId}`);
+      return this.getAlbum(albumId, user);
+    } catch (error: any) {
+      this.logger.error(`Failed to add items to album ${albumId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to add items to album.');
+    }
+  }
+
+  async removeItem(albumId: string, user: User, itemId: string): Promise<Album> {
+    this.logger.log(`Removing itemId=${itemId} from albumId=${albumId} by userId=${user.id}`);
+    const album = await this.findManageableAlbum(albumId, user);
+
+    const albumItem = await this.albumItemRepository.findOne({
+      where: { album: { id: albumId }, galleryItem: { id: itemId } },
+    });
+    if (!albumItem) throw new NotFoundException(`Item ${itemId} is not in this album.`);
+
+    try {
+      await this.albumItemRepository.remove(albumItem);
+      if (album.coverItem?.id === itemId) {
+        const firstRemaining = await this.albumItemRepository.findOne({
+          where: { album: { id: albumId } },
+          order: { position: 'ASC' },
+        });
+        album.coverItem = firstRemaining?.galleryItem ?? null;
+        await this.albumRepository.save(album);
+      }
+      this.logger.log(`Removed itemId=${itemId} from albumId=${albumId}`);
+      return this.getAlbum(albumId, user);
+    } catch (error: any) {
+      this.logger.error(`Failed to remove item ${itemId} from album ${albumId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to remove item from album.');
+    }
+  }
+
+  async reorderItems(albumId: string, user: User, itemIds: string[]): Promise<Album> {
+    this.logger.log(`Reordering albumId=${albumId} by userId=${user.id}`);
+    await this.findManageableAlbum(albumId, user);
+
+    const albumItems = await this.albumItemRepository.find({ where: { album: { id: albumId } } });
+    const uniqueIds = new Set(itemIds);
+    const isSameSet = uniqueIds.size === itemIds.length
+      && itemIds.length === albumItems.length
+      && albumItems.every(albumItem => uniqueIds.has(albumItem.galleryItem.id));
+    if (!isSameSet) {
+      throw new BadRequestException('The new order must list every item in the album exactly once.');
+    }
+
+    albumItems.forEach(albumItem => {
+      albumItem.position = itemIds.indexOf(albumItem.galleryItem.id);
+    });
+
+    try {
+      await this.albumItemRepository.save(albumItems);
+      this.logger.log(`Reordered ${albumItems.length} items in albumId=${albumId}`);
+      return this.getAlbum(albumId, user);
+    } catch (error: any) {
+      this.logger.error(`Failed to reorder album ${albumId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to reorder album items.');
+    }
+  }
+
+  // Approving an album runs each pending item through the regular gallery approval workflow.
+  // Revoking approval only hides the album, since its items may also be shown elsewhere.
+  async approveAlbum(approver: User, albumId: string, isApproved: boolean): Promise<Album> {
+    this.logger.log(`Approving/Disapproving albumId=${albumId} to state=${isApproved} by userId=${approver.id}`);
+    if (!this.isAdminOrStaff(approver)) {
+      throw new ForbiddenException('Only Admin or Staff can approve albums');
+    }
+    const album = await this.albumRepository.findOne({ where: { id: albumId }, relations: ['owner'] });
+    if (!album) throw new NotFoundException(`Album ${albumId} not found.`);
+
+    const wasApproved = album.isApproved;
+    if (isApproved) {
+      const pendingItems = await this.albumItemRepository.find({
+        where: { album: { id: albumId }, galleryItem: { isApproved: false } },
+      });
+      let approvedCount = 0;
+      for (const albumItem of pendingItems) {
+        try {
+          await this.galleryService.approveItem(approver, { id: albumItem.galleryItem.id, isApproved: true });
+          approvedCount++;
+        } catch (error: any) {
+          // e.g. videos still transcoding stay pending until approved individually
+          if (!(error instanceof BadRequestException)) throw error;
+          this.logger.warn(`Skipped item ${albumItem.galleryItem.id} in album ${albumId}: ${error.message}`);
+        }
+      }
+      this.logger.log(`Cascaded approval to ${approvedCount}/${pendingItems.length} items in albumId=${albumId}`);
+    }
+
+    album.isApproved = isApproved;
+    try {
+      await this.albumRepository.save(album);
+      this.logger.log(`Album approval state updated: id=${albumId}, isApproved=${isApproved}`);
+    } catch (error: any) {
+      this.logger.error(`Database error during album approval: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed update album approval status.');
+    }
+
+    if (isApproved && !wasApproved && album.owner?.id && album.owner.id !== approver.id) {
+      try {
+        await this.notificationsService.createNotification({
+          userId: album.owner.id,
+          message: `Your album "${album.title}" has been approved!`,
+          type: NotificationType.Approval, referenceId: album.id,
+        });
+      } catch (notificationError: any) {
+        this.logger.error(`Failed send approval notification album ${album.id}: ${notificationError.message}`, notificationError.stack);
+      }
+    }
+    return this.getAlbum(albumId, approver);
+  }
+
+  private async findManageableAlbum(albumId: string, user: User): Promise<Album> {
+    const album = await this.albumRepository.findOne({ where: { id: albumId }, relations: ['owner', 'coverItem'] });
+    if (!album) throw new NotFoundException(`Album ${albumId} not found.`);
+    if (!this.isAdminOrStaff(user) && album.owner?.id !== user.id) {
+      throw new ForbiddenException('Permission denied to modify this album.');
+    }
+    return album;
+  }
+
+  // Admin/Staff may add any item; other users may add approved items or their own uploads
+  private async findAddableItems(user: User, itemIds: string[]): Promise<GalleryItem[]> {
+    if (itemIds.length === 0) return [];
+    const items = await this.galleryRepository.find({ where: { id: In(itemIds) }, relations: ['uploadedBy'] });
+    const missingIds = itemIds.filter(id => !items.some(item => item.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundException(`Gallery items not found: ${missingIds.join(', ')}`);
+    }
+    if (!this.isAdminOrStaff(user)) {
+      const forbidden = items.filter(item => !item.isApproved && item.uploadedBy?.id !== user.id);
+      if (forbidden.length > 0) {
+        throw new ForbiddenException(`Cannot add unapproved items you did not upload: ${forbidden.map(item => item.id).join(', ')}`);
+      }
+    }
+    return items;
+  }
+
+  private isAdminOrStaff(user?: User): boolean {
+    return user?.role === UserRole.Admin || user?.role === UserRole.Staff;
+  }
+}
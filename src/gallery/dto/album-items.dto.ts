@@ -0,0 +1,16 @@
+// src/gallery/dto/album-items.dto.ts
+import { IsArray, ArrayNotEmpty, ArrayMaxSize, IsUUID, IsBoolean, IsNotEmpty } from 'class-validator';
+
+export class AlbumItemsDto {
+  @IsArray({ message: 'Item IDs must be an array.' })
+  @ArrayNotEmpty({ message: 'At least one item ID is required.' })
+  @ArrayMaxSize(500, { message: 'Maximum 500 items per request.' })
+  @IsUUID('4', { each: true, message: 'Each item ID must be a valid UUID.' })
+  itemIds: string[];
+}
+
+export class ApproveAlbumDto {
+  @IsNotEmpty({ message: 'Approval status must be provided.' })
+  @IsBoolean({ message: 'Approval status must be a boolean value (true or false).' })
+  isApproved: boolean;
+}
@@ -1,5 +1,5 @@
 // src/gallery/dto/approve.dto.ts
-import { IsBoolean, IsNotEmpty, IsUUID } from 'class-validator';
+import { IsBoolean, IsNotEmpty, IsUUID, IsOptional } from 'class-validator';
 
 export class ApproveDto {
 
@@ -10,4 +10,8 @@ export class ApproveDto {
   @IsNotEmpty({ message: 'Approval status must be provided.' })
   @IsBoolean({ message: 'Approval status must be a boolean value (true or false).' })
   isApproved: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'keepLocation must be a boolean value (true or false).' })
+  keepLocation?: boolean;
 }
@@ -0,0 +1,11 @@
+// src/gallery/dto/batch-moderation.dto.ts
+import { IsArray, ArrayNotEmpty, ArrayMaxSize, IsUUID } from 'class-validator';
+import { ModerationDecisionDto } from './moderation-decision.dto';
+
+export class BatchModerationDto extends ModerationDecisionDto {
+  @IsArray({ message: 'ids must be an array of item IDs.' })
+  @ArrayNotEmpty({ message: 'ids cannot be empty.' })
+  @ArrayMaxSize(100, { message: 'At most 100 items can be moderated at once.' })
+  @IsUUID('4', { each: true, message: 'Each item ID must be a valid UUID.' })
+  ids: string[];
+}
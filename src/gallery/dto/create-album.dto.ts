@@ -0,0 +1,29 @@
+// src/gallery/dto/create-album.dto.ts
+import { IsString, IsNotEmpty, IsOptional, MaxLength, IsEnum, IsUUID, IsArray, ArrayMaxSize } from 'class-validator';
+import { AlbumVisibility } from '../entities/album.entity';
+
+export class CreateAlbumDto {
+  @IsString({ message: 'Title must be a string.' })
+  @IsNotEmpty({ message: 'Title should not be empty.' })
+  @MaxLength(150, { message: 'Title cannot exceed 150 characters.' })
+  title: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string.' })
+  @MaxLength(2000, { message: 'Description cannot exceed 2000 characters.' })
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(AlbumVisibility, { message: 'Visibility must be Public, Unlisted or Private.' })
+  visibility?: AlbumVisibility;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Cover item ID must be a valid UUID.' })
+  coverItemId?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Item IDs must be an array.' })
+  @ArrayMaxSize(500, { message: 'Maximum 500 items can be added at once.' })
+  @IsUUID('4', { each: true, message: 'Each item ID must be a valid UUID.' })
+  itemIds?: string[];
+}
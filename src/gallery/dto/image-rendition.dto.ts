@@ -0,0 +1,18 @@
+// src/gallery/dto/image-rendition.dto.ts
+import { IsOptional, IsInt, Min, Max, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RenditionFormat } from '../interfaces/image-rendition.interface';
+
+export class ImageRenditionDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Width must be an integer.' })
+  @Min(1)
+  @Max(10000)
+  w?: number;
+
+  // When omitted, the format is negotiated from the Accept header
+  @IsOptional()
+  @IsEnum(RenditionFormat, { message: 'Format must be one of avif, webp or jpeg.' })
+  format?: RenditionFormat;
+}
@@ -0,0 +1,22 @@
+// src/gallery/dto/init-upload.dto.ts
+import { IsString, IsNotEmpty, MaxLength, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { UploadDto } from './upload.dto';
+import { GALLERY_MAX_UPLOAD_BYTES } from '../gallery-upload.constants';
+
+export class InitUploadDto extends UploadDto {
+  @IsNotEmpty({ message: 'File name should not be empty.' })
+  @IsString({ message: 'File name must be a string.' })
+  @MaxLength(255, { message: 'File name cannot exceed 255 characters.' })
+  fileName: string;
+
+  @IsNotEmpty({ message: 'MIME type should not be empty.' })
+  @IsString({ message: 'MIME type must be a string.' })
+  mimeType: string;
+
+  @Type(() => Number)
+  @IsInt({ message: 'Size must be an integer number of bytes.' })
+  @Min(1, { message: 'Size must be at least 1 byte.' })
+  @Max(GALLERY_MAX_UPLOAD_BYTES, { message: 'File exceeds the maximum upload size.' })
+  size: number;
+}
@@ -0,0 +1,22 @@
+// src/gallery/dto/list-albums.dto.ts
+import { IsOptional, IsInt, Min, Max, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ListAlbumsDto {
+  @IsOptional()
+  @IsUUID('4', { message: 'Owner ID must be a valid UUID.' })
+  ownerId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
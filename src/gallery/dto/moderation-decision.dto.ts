@@ -0,0 +1,17 @@
+// src/gallery/dto/moderation-decision.dto.ts
+import { IsEnum, IsString, MaxLength, IsNotEmpty, ValidateIf } from 'class-validator';
+import { ModerationStatus } from '../entities/gallery.entity';
+
+export class ModerationDecisionDto {
+  @IsEnum(ModerationStatus, { message: `Status must be one of: ${Object.values(ModerationStatus).join(', ')}.` })
+  status: ModerationStatus;
+
+  // Mandatory when rejecting or requesting changes; sent to the uploader
+  @ValidateIf((dto: ModerationDecisionDto) => dto.reason !== undefined
+    || dto.status === ModerationStatus.Rejected
+    || dto.status === ModerationStatus.ChangesRequested)
+  @IsString({ message: 'Reason must be a string.' })
+  @IsNotEmpty({ message: 'A reason is required when rejecting an item or requesting changes.' })
+  @MaxLength(1000, { message: 'Reason cannot exceed 1000 characters.' })
+  reason?: string;
+}
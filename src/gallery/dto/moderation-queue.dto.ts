@@ -0,0 +1,59 @@
+// src/gallery/dto/moderation-queue.dto.ts
+import { IsOptional, IsEnum, IsUUID, IsIn, IsString, MaxLength, IsDateString, IsBoolean, IsInt, Min, Max } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ModerationStatus } from '../entities/gallery.entity';
+
+export class ModerationQueueDto {
+  // Comma-separated or repeated; defaults to items awaiting review
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').map(status => status.trim()).filter(Boolean) : value))
+  @IsEnum(ModerationStatus, { each: true, message: `Each status must be one of: ${Object.values(ModerationStatus).join(', ')}.` })
+  status?: ModerationStatus[];
+
+  @IsOptional()
+  @IsUUID('4', { message: 'uploaderId must be a valid UUID.' })
+  uploaderId?: string;
+
+  @IsOptional()
+  @IsIn(['image', 'video', 'audio'], { message: 'mediaType must be one of: image, video, audio.' })
+  mediaType?: 'image' | 'video' | 'audio';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  tag?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'submittedFrom must be a valid ISO 8601 date string.' })
+  submittedFrom?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'submittedTo must be a valid ISO 8601 date string.' })
+  submittedTo?: string;
+
+  // Only items flagged as an exact duplicate of another upload
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  duplicatesOnly?: boolean;
+
+  // Oldest submissions first by default, so nothing waits indefinitely
+  @IsOptional()
+  @IsIn(['ASC', 'DESC'])
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  sortOrder?: 'ASC' | 'DESC' = 'ASC';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,12 @@
+// src/gallery/dto/resubmit.dto.ts
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { UpdateGalleryItemDto } from './update-gallery-item.dto';
+
+// Caption and tags replace the current values when provided
+export class ResubmitDto extends UpdateGalleryItemDto {
+  // Shown to reviewers alongside the re-submitted item
+  @IsOptional()
+  @IsString({ message: 'Note must be a string.' })
+  @MaxLength(500, { message: 'Note cannot exceed 500 characters.' })
+  note?: string;
+}
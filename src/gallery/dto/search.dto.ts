@@ -1,10 +1,11 @@
 // src/gallery/dto/search.dto.ts
-import { IsOptional, IsString, IsInt, Min, IsEnum, IsBoolean } from 'class-validator'; // Add IsBoolean
+import { IsOptional, IsString, IsInt, Min, IsEnum, IsBoolean, IsDateString } from 'class-validator'; // Add IsBoolean
 import { Type } from 'class-transformer';
 
 export enum SortBy {
   UploadedAt = 'uploadedAt',
   ViewCount = 'viewCount',
+  CapturedAt = 'capturedAt',
 }
 
 export enum SortOrder {
@@ -33,6 +34,38 @@ export class SearchDto {
   @IsString()
   endDate?: string;
 
+  @IsOptional()
+  @IsDateString()
+  capturedFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  capturedTo?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  minWidth?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxWidth?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  minHeight?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxHeight?: number;
+
   @IsOptional()
   @IsBoolean()
   @Type(() => Boolean)
@@ -0,0 +1,24 @@
+// src/gallery/dto/update-album.dto.ts
+import { IsString, IsNotEmpty, IsOptional, MaxLength, IsEnum, IsUUID } from 'class-validator';
+import { AlbumVisibility } from '../entities/album.entity';
+
+export class UpdateAlbumDto {
+  @IsOptional()
+  @IsString({ message: 'Title must be a string.' })
+  @IsNotEmpty({ message: 'Title should not be empty.' })
+  @MaxLength(150, { message: 'Title cannot exceed 150 characters.' })
+  title?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string.' })
+  @MaxLength(2000, { message: 'Description cannot exceed 2000 characters.' })
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(AlbumVisibility, { message: 'Visibility must be Public, Unlisted or Private.' })
+  visibility?: AlbumVisibility;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Cover item ID must be a valid UUID.' })
+  coverItemId?: string | null;
+}
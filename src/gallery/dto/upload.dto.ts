@@ -1,5 +1,5 @@
 // src/gallery/dto/upload.dto.ts
-import { IsString, IsArray, IsOptional, MaxLength, ArrayMaxSize } from 'class-validator';
+import { IsString, IsArray, IsOptional, MaxLength, ArrayMaxSize, IsBoolean, IsUUID } from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class UploadDto {
@@ -26,4 +26,15 @@ export class UploadDto {
     return [];
   })
   tags?: string[];
+
+  // Only honoured for roles listed in GALLERY_KEEP_LOCATION_ROLES
+  @IsOptional()
+  @IsBoolean({ message: 'keepLocation must be a boolean value (true or false).' })
+  @Transform(({ value }) => value === true || value === 'true')
+  keepLocation?: boolean;
+
+  // Event the media belongs to
+  @IsOptional()
+  @IsUUID('all', { message: 'eventId must be a valid event ID.' })
+  eventId?: string;
 }
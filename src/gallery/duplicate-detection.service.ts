@@ -0,0 +1,310 @@
+// src/gallery/duplicate-detection.service.ts
+import { Injectable, Logger, NotFoundException, ForbiddenException, InternalServerErrorException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Brackets, IsNull } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import sharp from 'sharp';
+import ffmpeg from 'fluent-ffmpeg';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import { GalleryItem } from './entities/gallery.entity';
+import { GalleryDuplicatePair } from './entities/gallery-duplicate-pair.entity';
+import { User } from '../auth/entities/user.entity';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { StorageService } from '../common/storage/storage.service';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+import { DuplicateClustersDto } from './dto/duplicate-clusters.dto';
+import { MediaHashes, DuplicateCluster, PaginatedDuplicateClusters } from './interfaces/duplicate-cluster.interface';
+
+export type DuplicatePolicy = 'reject' | 'flag';
+
+@Injectable()
+export class DuplicateDetectionService implements OnModuleInit {
+  private readonly logger = new Logger(DuplicateDetectionService.name);
+  private readonly SIMILAR_ITEMS_LIMIT = 20;
+  private readonly SCAN_BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    @InjectRepository(GalleryDuplicatePair)
+    private readonly pairRepository: Repository<GalleryDuplicatePair>,
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'gallery-duplicate-scan',
+      description: 'Compares newly uploaded gallery items with the rest of the gallery for duplicates.',
+      cronExpression: '*/15 * * * *',
+      // The first run after deployment compares the whole existing gallery
+      lockTtlMs: 60 * 60 * 1000,
+      handler: () => this.scanNewItems(),
+    });
+  }
+
+  // The SHA-256 is required; a missing perceptual hash only excludes the item from similarity matching
+  async computeHashes(file: Express.Multer.File): Promise<MediaHashes> {
+    const startTime = Date.now();
+    const contentHash = await this.computeContentHash(file.path);
+    let perceptualHash: string | null = null;
+    try {
+      if (file.mimetype.startsWith('image/') && file.mimetype !== 'image/svg+xml') {
+        perceptualHash = await this.computeDifferenceHash(file.path);
+      } else if (file.mimetype.startsWith('video/')) {
+        perceptualHash = await this.computeVideoFrameHash(file);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Perceptual hash failed for ${file.filename}: ${error.message}`);
+    }
+    this.logger.log(`Hashed ${file.filename}: sha256=${contentHash.slice(0, 12)}…, dhash=${perceptualHash ?? 'none'}, duration=${Date.now() - startTime}ms`);
+    return { contentHash, perceptualHash };
+  }
+
+  getDuplicatePolicy(): DuplicatePolicy {
+    return this.configService.get<string>('GALLERY_DUPLICATE_POLICY', 'reject').toLowerCase() === 'flag' ? 'flag' : 'reject';
+  }
+
+  async findExactDuplicate(contentHash: string): Promise<GalleryItem | null> {
+    return this.galleryRepository.findOne({
+      where: { contentHash },
+      order: { uploadedAt: 'ASC' },
+    });
+  }
+
+  async findSimilarItems(itemId: string, user: User): Promise<GalleryItem[]> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+    if (!item) throw new NotFoundException(`Item ${itemId} not found.`);
+    const isAdminOrStaff = this.isAdminOrStaff(user);
+    if (!item.isApproved && !isAdminOrStaff && item.uploadedBy?.id !== user.id) throw new ForbiddenException('Access denied.');
+    if (!item.contentHash && !item.perceptualHash) return [];
+
+    const distanceSql = this.hammingDistanceSql('gallery.perceptualHash', 'CAST(:perceptualHash AS varchar)');
+    const queryBuilder = this.galleryRepository
+      .createQueryBuilder('gallery')
+      .leftJoinAndSelect('gallery.uploadedBy', 'user')
+      .addSelect(`CASE WHEN gallery.contentHash = :contentHash THEN 0 ELSE ${distanceSql} END`, 'distance')
+      .where('gallery.id != :id', { id: item.id })
+      .andWhere(new Brackets(qb => {
+        qb.where('gallery.contentHash = :contentHash').orWhere(`${distanceSql} <= :threshold`);
+      }))
+      .setParameters({ contentHash: item.contentHash, perceptualHash: item.perceptualHash, threshold: this.getSimilarityThreshold() })
+      .orderBy('distance', 'ASC')
+      .addOrderBy('gallery.uploadedAt', 'ASC')
+      .limit(this.SIMILAR_ITEMS_LIMIT);
+
+    if (!isAdminOrStaff) {
+      queryBuilder.andWhere(new Brackets(qb => {
+        qb.where('gallery.isApproved = :isApproved', { isApproved: true }).orWhere('user.id = :userId', { userId: user.id });
+      }));
+    }
+
+    try {
+      const { entities, raw } = await queryBuilder.getRawAndEntities<{ gallery_id: string; distance: string }>();
+      const distances = new Map(raw.map(row => [row.gallery_id, Number(row.distance)]));
+      entities.forEach(entity => (entity.similarityDistance = distances.get(entity.id)));
+      this.logger.log(`Found ${entities.length} items similar to ${itemId}`);
+      return entities;
+    } catch (error: any) {
+      this.logger.error(`Similar items query failed for ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve similar items.');
+    }
+  }
+
+  /**
+   * Compares items not scanned yet with every other item and records the matching pairs, so each item
+   * costs one pass over the gallery instead of every cluster request comparing all items with each other.
+   * Trashed items are scanned too, so their pairs are in place if they are restored.
+   */
+  async scanNewItems(): Promise<void> {
+    const startTime = Date.now();
+    const threshold = this.getSimilarityThreshold();
+    const distanceSql = this.hammingDistanceSql('a.perceptualHash', 'b.perceptualHash');
+    let scanned = 0;
+    let found = 0;
+    for (;;) {
+      const batch = await this.galleryRepository.find({
+        where: { duplicatesScannedAt: IsNull() },
+        select: ['id'],
+        order: { uploadedAt: 'ASC' },
+        take: this.SCAN_BATCH_SIZE,
+        withDeleted: true,
+      });
+      if (batch.length === 0) break;
+      const ids = batch.map(item => item.id);
+
+      const matches: { leftId: string; rightId: string; distance: string }[] = await this.galleryRepository
+        .createQueryBuilder('a')
+        .withDeleted()
+        .select('a.id', 'leftId')
+        .addSelect('b.id', 'rightId')
+        .addSelect(`CASE WHEN a.contentHash = b.contentHash THEN 0 ELSE ${distanceSql} END`, 'distance')
+        .innerJoin(GalleryItem, 'b', `b.id != a.id AND (a.contentHash = b.contentHash OR ${distanceSql} <= :threshold)`, { threshold })
+        .where('a.id IN (:...ids)', { ids })
+        .getRawMany();
+      if (matches.length > 0) {
+        const pairs = matches.map(match => {
+          const [leftId, rightId] = [match.leftId, match.rightId].sort();
+          return { leftId, rightId, distance: Number(match.distance) };
+        });
+        const result = await this.pairRepository.createQueryBuilder().insert().into(GalleryDuplicatePair).values(pairs).orIgnore().execute();
+        found += (result.raw as unknown[]).length;
+      }
+      await this.galleryRepository.update({ id: In(ids) }, { duplicatesScannedAt: new Date() });
+      scanned += batch.length;
+      if (batch.length < this.SCAN_BATCH_SIZE) break;
+    }
+    if (scanned > 0) {
+      this.logger.log(`Duplicate scan compared ${scanned} new items, found ${found} new pairs, duration=${Date.now() - startTime}ms`);
+    }
+  }
+
+  /**
+   * Groups items recorded as duplicate pairs by the scan, so items uploaded since its last run are
+   * not included yet. Pairs are linked transitively, so a cluster may contain items further apart
+   * than the threshold.
+   */
+  async getDuplicateClusters(dto: DuplicateClustersDto): Promise<PaginatedDuplicateClusters> {
+    const startTime = Date.now();
+    const page = dto.page ?? 1;
+    const limit = dto.limit ?? 20;
+    const pairLimit = Number(this.configService.get<number>('GALLERY_DUPLICATE_PAIR_LIMIT', 5000));
+
+    let pairs: { leftId: string; rightId: string }[];
+    try {
+      // Joining the items leaves out pairs with a trashed item, which must not link clusters either
+      pairs = await this.pairRepository
+        .createQueryBuilder('pair')
+        .select('pair.leftId', 'leftId')
+        .addSelect('pair.rightId', 'rightId')
+        .innerJoin('pair.left', 'leftItem')
+        .innerJoin('pair.right', 'rightItem')
+        .orderBy('pair.detectedAt', 'DESC')
+        .limit(pairLimit)
+        .getRawMany();
+    } catch (error: any) {
+      this.logger.error(`Duplicate pair query failed: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to compute duplicate clusters.');
+    }
+    if (pairs.length >= pairLimit) {
+      this.logger.warn(`Duplicate pair query hit the limit of ${pairLimit}; some clusters may be incomplete.`);
+    }
+
+    const clusterIds = this.groupPairs(pairs);
+    const itemIds = clusterIds.flat();
+    const items = itemIds.length > 0
+      ? await this.galleryRepository.find({ where: { id: In(itemIds) }, relations: ['uploadedBy'] })
+      : [];
+    const itemsById = new Map(items.map(item => [item.id, item]));
+
+    let clusters: DuplicateCluster[] = clusterIds.map(ids => {
+      const clusterItems = ids.flatMap(id => itemsById.get(id) ?? [])
+        .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+      const contentHashes = clusterItems.map(item => item.contentHash).filter(Boolean);
+      return {
+        size: clusterItems.length,
+        hasExactDuplicates: new Set(contentHashes).size < contentHashes.length,
+        items: clusterItems,
+      };
+    }).filter(cluster => cluster.size > 1);
+    if (dto.pendingOnly) clusters = clusters.filter(cluster => cluster.items.some(item => !item.isApproved));
+    // Largest clusters first, then most recently added
+    clusters.sort((a, b) => b.size - a.size
+      || b.items[b.items.length - 1].uploadedAt.getTime() - a.items[a.items.length - 1].uploadedAt.getTime());
+
+    this.logger.log(`Computed ${clusters.length} duplicate clusters from ${pairs.length} pairs, duration=${Date.now() - startTime}ms`);
+    return {
+      clusters: clusters.slice((page - 1) * limit, page * limit),
+      total: clusters.length,
+      page,
+      limit,
+      totalPages: Math.ceil(clusters.length / limit),
+    };
+  }
+
+  // Union-find over the matched pairs
+  private groupPairs(pairs: { leftId: string; rightId: string }[]): string[][] {
+    const parents = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parents.get(root) !== root) root = parents.get(root)!;
+      parents.set(id, root);
+      return root;
+    };
+    for (const { leftId, rightId } of pairs) {
+      if (!parents.has(leftId)) parents.set(leftId, leftId);
+      if (!parents.has(rightId)) parents.set(rightId, rightId);
+      parents.set(find(leftId), find(rightId));
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const id of parents.keys()) {
+      const root = find(id);
+      groups.set(root, [...(groups.get(root) ?? []), id]);
+    }
+    return [...groups.values()];
+  }
+
+  private async computeContentHash(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    await pipeline(fs.createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
+  // dHash: compares neighbouring pixels of a 9x8 greyscale thumbnail, giving 64 bits robust to resizing and re-encoding
+  private async computeDifferenceHash(input: string): Promise<string> {
+    const pixels = await sharp(input, { animated: false })
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hex = '';
+    for (let row = 0; row < 8; row++) {
+      let byte = 0;
+      for (let col = 0; col < 8; col++) {
+        const offset = row * 9 + col;
+        byte = (byte << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  }
+
+  // ffmpeg's thumbnail filter picks a representative frame, which also works for clips under a second
+  private async computeVideoFrameHash(file: Express.Multer.File): Promise<string> {
+    const framePath = await this.storageService.createStagingPath(`frame-${file.filename}.png`);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(file.path)
+          .outputOptions(['-vf thumbnail', '-frames:v 1'])
+          .output(framePath)
+          .on('end', () => resolve())
+          .on('error', (err: Error) => reject(err))
+          .run();
+      });
+      return await this.computeDifferenceHash(framePath);
+    } finally {
+      await fsp.rm(framePath, { force: true });
+    }
+  }
+
+  // Postgres has no popcount before v14, so the XOR of both hashes is counted via its bit-string form
+  private hammingDistanceSql(left: string, right: string): string {
+    return `length(replace((('x' || ${left})::bit(64) # ('x' || ${right})::bit(64))::text, '0', ''))`;
+  }
+
+  // Maximum Hamming distance (out of 64 bits) for two items to count as near-duplicates
+  private getSimilarityThreshold(): number {
+    return Number(this.configService.get<number>('GALLERY_SIMILARITY_THRESHOLD', 10));
+  }
+
+  private isAdminOrStaff(user: User): boolean {
+    return user.role === UserRole.Admin || user.role === UserRole.Staff;
+  }
+}
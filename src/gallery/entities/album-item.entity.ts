@@ -0,0 +1,24 @@
+// src/gallery/entities/album-item.entity.ts
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, Unique, CreateDateColumn } from 'typeorm';
+import { Album } from './album.entity';
+import { GalleryItem } from './gallery.entity';
+
+// Join table for the Album <-> GalleryItem many-to-many, carrying the item's position in the album
+@Entity()
+@Unique('uq_album_item', ['album', 'galleryItem'])
+export class AlbumItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Album, (album) => album.albumItems, { onDelete: 'CASCADE' })
+  album: Album;
+
+  @ManyToOne(() => GalleryItem, { onDelete: 'CASCADE', eager: true })
+  galleryItem: GalleryItem;
+
+  @Column({ default: 0 })
+  position: number;
+
+  @CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  addedAt: Date;
+}
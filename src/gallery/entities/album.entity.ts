@@ -0,0 +1,57 @@
+// src/gallery/entities/album.entity.ts
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { GalleryItem } from './gallery.entity';
+import { AlbumItem } from './album-item.entity';
+
+export enum AlbumVisibility {
+  Public = 'Public', // Listed and searchable once approved
+  Unlisted = 'Unlisted', // Reachable by direct link once approved
+  Private = 'Private', // Owner and Admin/Staff only
+}
+
+@Entity()
+@Index('idx_album_is_approved', ['isApproved'])
+export class Album {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  title: string;
+
+  @Column('text', { default: '' })
+  description: string;
+
+  @ManyToOne(() => GalleryItem, { nullable: true, onDelete: 'SET NULL' })
+  coverItem: GalleryItem | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  owner: User;
+
+  @Column({ type: 'enum', enum: AlbumVisibility, default: AlbumVisibility.Public })
+  visibility: AlbumVisibility;
+
+  @Column({ default: false })
+  isApproved: boolean;
+
+  @OneToMany(() => AlbumItem, (albumItem) => albumItem.album)
+  albumItems: AlbumItem[];
+
+  // Populated by list queries, not persisted
+  itemCount?: number;
+
+  @CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
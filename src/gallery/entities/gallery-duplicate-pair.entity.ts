@@ -0,0 +1,32 @@
+// src/gallery/entities/gallery-duplicate-pair.entity.ts
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Unique, CreateDateColumn } from 'typeorm';
+import { GalleryItem } from './gallery.entity';
+
+// Two items whose hashes matched within the similarity threshold when the duplicate scan ran; leftId < rightId
+@Entity()
+@Unique('uq_gallery_duplicate_pair', ['leftId', 'rightId'])
+export class GalleryDuplicatePair {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  leftId: string;
+
+  @ManyToOne(() => GalleryItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'leftId' })
+  left: GalleryItem;
+
+  @Column({ type: 'uuid' })
+  rightId: string;
+
+  @ManyToOne(() => GalleryItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rightId' })
+  right: GalleryItem;
+
+  // Hamming distance of the perceptual hashes; 0 for exact copies
+  @Column({ type: 'int' })
+  distance: number;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  detectedAt: Date;
+}
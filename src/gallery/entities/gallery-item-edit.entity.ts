@@ -0,0 +1,41 @@
+// src/gallery/entities/gallery-item-edit.entity.ts
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { GalleryItem } from './gallery.entity';
+import { GalleryItemChanges } from '../interfaces/gallery-item-edit.interface';
+
+export enum GalleryItemEditSource {
+  Edit = 'edit', // PATCH /gallery/:id
+  Resubmission = 'resubmission', // Edits made while re-submitting for moderation
+}
+
+@Entity()
+@Index('idx_gallery_item_edit_item', ['galleryItemId', 'editedAt'])
+export class GalleryItemEdit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  galleryItemId: string;
+
+  @ManyToOne(() => GalleryItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'galleryItemId' })
+  galleryItem?: GalleryItem;
+
+  @Column({ type: 'uuid', nullable: true })
+  editedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'editedById' })
+  editedBy?: User | null;
+
+  @Column({ type: 'enum', enum: GalleryItemEditSource, default: GalleryItemEditSource.Edit })
+  source: GalleryItemEditSource;
+
+  // Only the fields that actually changed, with their previous and new values
+  @Column({ type: 'jsonb' })
+  changes: GalleryItemChanges;
+
+  @CreateDateColumn()
+  editedAt: Date;
+}
@@ -1,10 +1,34 @@
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, Index } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index, DeleteDateColumn } from 'typeorm';
 import { User } from '../../auth/entities/user.entity';
+import { Event } from '../../events/entities/event.entity';
+import { MediaMetadata, MediaGpsMetadata } from '../interfaces/media-metadata.interface';
+import { RenditionMap } from '../interfaces/image-rendition.interface';
+
+export enum TranscodeStatus {
+  NotRequired = 'not_required', // Not a video
+  Pending = 'pending',
+  Processing = 'processing',
+  Ready = 'ready',
+  Failed = 'failed',
+}
+
+export enum ModerationStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  ChangesRequested = 'changes_requested',
+  Archived = 'archived',
+}
 
 @Entity()
 @Index('idx_tags', ['tags'])
 @Index('idx_uploaded_at', ['uploadedAt'])
 @Index('idx_is_approved', ['isApproved'])
+@Index('idx_moderation_status', ['moderationStatus', 'submittedAt'])
+@Index('idx_captured_at', ['capturedAt'])
+@Index('idx_content_hash', ['contentHash'])
+@Index('idx_gallery_deleted_at', ['deletedAt'])
+@Index('idx_gallery_event', ['eventId'])
 export class GalleryItem {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -18,24 +42,138 @@ export class GalleryItem {
   @Column('text', { array: true, default: '{}' })
   tags: string[];
 
+  // Kept equal to moderationStatus === Approved; public queries filter on this flag
   @Column({ default: false })
   isApproved: boolean;
 
+  @Column({ type: 'enum', enum: ModerationStatus, default: ModerationStatus.Pending })
+  moderationStatus: ModerationStatus;
+
+  // Required for rejections and change requests; shown to the uploader
+  @Column({ type: 'text', nullable: true })
+  moderationReason: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy?: User | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
+  // Upload time, or the time of the latest re-submission; the moderation queue is ordered by it
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  submittedAt: Date;
+
+  // Uploader's note on the latest re-submission
+  @Column({ type: 'text', nullable: true })
+  resubmissionNote: string | null;
+
   @ManyToOne(() => User, (user) => user.id)
   uploadedBy: User;
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   uploadedAt: Date;
 
+  // Event the photo or video was taken at; listed on the event's page once approved
+  @Column({ type: 'uuid', nullable: true })
+  eventId: string | null;
+
+  @ManyToOne(() => Event, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'eventId' })
+  event?: Event | null;
+
   @Column()
   mimeType: string;
 
   @Column({ nullable: true })
   thumbnailUrl: string;
 
+  @Column({ type: 'jsonb', nullable: true })
+  renditions: RenditionMap | null;
+
+  @Column({ type: 'enum', enum: TranscodeStatus, default: TranscodeStatus.NotRequired })
+  transcodeStatus: TranscodeStatus;
+
+  @Column({ type: 'text', nullable: true })
+  transcodeError: string | null;
+
+  // When an instance claimed the transcode; a Processing item claimed long ago belonged to one that died
+  @Column({ type: 'timestamp', nullable: true })
+  transcodeStartedAt: Date | null;
+
+  // H.264/AAC MP4 for progressive playback
+  @Column({ type: 'varchar', nullable: true })
+  streamUrl: string | null;
+
+  // HLS master playlist for adaptive playback
+  @Column({ type: 'varchar', nullable: true })
+  hlsPlaylistUrl: string | null;
+
   @Column({ default: 0 })
   viewCount: number;
 
   @Column({ type: 'tsvector', nullable: true })
   searchVector: string;
+
+  // Full EXIF / ffprobe metadata; the fields below are copied out of it for filtering and sorting
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: MediaMetadata | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  capturedAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  width: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  height: number | null;
+
+  // GPS position from the original file; never selected by default so it cannot leak through list endpoints
+  @Column({ type: 'jsonb', nullable: true, select: false })
+  location?: MediaGpsMetadata | null;
+
+  // Lets everyone see the location once the item is approved (archival items)
+  @Column({ default: false })
+  keepLocation: boolean;
+
+  // True when the untouched upload is kept outside the public uploads directory
+  @Column({ default: false })
+  hasPrivateOriginal: boolean;
+
+  // SHA-256 of the file as uploaded, before any re-encoding
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null;
+
+  // 64-bit difference hash (hex) of the image or a representative video frame
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  perceptualHash: string | null;
+
+  // Set once the duplicate scan has compared the item with the rest of the gallery
+  @Column({ type: 'timestamp', nullable: true })
+  duplicatesScannedAt: Date | null;
+
+  // Set when an exact duplicate was accepted under GALLERY_DUPLICATE_POLICY=flag
+  @Column({ type: 'uuid', nullable: true })
+  duplicateOfId: string | null;
+
+  @ManyToOne(() => GalleryItem, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'duplicateOfId' })
+  duplicateOf?: GalleryItem | null;
+
+  // Set while the item is in the trash; its files stay in storage until it is purged
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  deletedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deletedById' })
+  deletedBy?: User | null;
+
+  // Hamming distance to the requested item; only set by the similar-items query
+  similarityDistance?: number;
 }
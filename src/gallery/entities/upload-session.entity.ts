@@ -0,0 +1,63 @@
+// src/gallery/entities/upload-session.entity.ts
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+export enum UploadSessionStatus {
+  Active = 'Active', // Accepting chunks
+  Completed = 'Completed', // Handed to the gallery pipeline; kept so a retried complete is idempotent
+}
+
+@Entity()
+@Index('idx_upload_session_expires_at', ['expiresAt'])
+export class UploadSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { eager: false, onDelete: 'CASCADE' })
+  owner: User;
+
+  @Column('uuid')
+  ownerId: string;
+
+  @Column()
+  fileName: string;
+
+  @Column()
+  mimeType: string;
+
+  @Column({ type: 'bigint' })
+  totalSize: string;
+
+  // Bytes persisted so far; the next chunk must start at this offset
+  @Column({ type: 'bigint', default: 0 })
+  receivedBytes: string;
+
+  @Column({ type: 'enum', enum: UploadSessionStatus, default: UploadSessionStatus.Active })
+  status: UploadSessionStatus;
+
+  // Upload fields passed on to GalleryService.uploadFile on completion
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  caption: string | null;
+
+  @Column('text', { array: true, default: '{}' })
+  tags: string[];
+
+  @Column({ default: false })
+  keepLocation: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  eventId: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  galleryItemId: string | null;
+
+  @CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+
+  // Extended on every chunk; expired sessions and their partial files are removed hourly
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+}
@@ -0,0 +1,68 @@
+// src/gallery/gallery-edit-history.service.ts
+import { Injectable, Logger, NotFoundException, InternalServerErrorException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GalleryItem } from './entities/gallery.entity';
+import { GalleryItemEdit, GalleryItemEditSource } from './entities/gallery-item-edit.entity';
+import { GalleryItemChanges } from './interfaces/gallery-item-edit.interface';
+
+@Injectable()
+export class GalleryEditHistoryService {
+  private readonly logger = new Logger(GalleryEditHistoryService.name);
+
+  constructor(
+    @InjectRepository(GalleryItemEdit)
+    private readonly editRepository: Repository<GalleryItemEdit>,
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+  ) {}
+
+  /** Compares the requested values with the item's current ones; undefined fields are not being edited. */
+  computeChanges(item: GalleryItem, caption: string | undefined, tags: string[] | undefined): GalleryItemChanges {
+    const changes: GalleryItemChanges = {};
+    if (caption !== undefined && caption !== item.caption) {
+      changes.caption = { from: item.caption, to: caption };
+    }
+    if (tags !== undefined && !this.sameTags(item.tags ?? [], tags)) {
+      changes.tags = { from: item.tags ?? [], to: tags };
+    }
+    return changes;
+  }
+
+  hasChanges(changes: GalleryItemChanges): boolean {
+    return Object.keys(changes).length > 0;
+  }
+
+  // History is supplementary, so a failed write is logged rather than failing the edit itself
+  async record(itemId: string, editorId: string, changes: GalleryItemChanges, source: GalleryItemEditSource): Promise<void> {
+    if (!this.hasChanges(changes)) return;
+    try {
+      await this.editRepository.save(this.editRepository.create({ galleryItemId: itemId, editedById: editorId, changes, source }));
+      this.logger.log(`Recorded ${source} of item ${itemId} by userId=${editorId}: ${Object.keys(changes).join(', ')}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to record edit history for item ${itemId}: ${error.message}`, error.stack);
+    }
+  }
+
+  async getHistory(itemId: string): Promise<GalleryItemEdit[]> {
+    const exists = await this.galleryRepository.exists({ where: { id: itemId } });
+    if (!exists) throw new NotFoundException(`Item ${itemId} not found.`);
+    try {
+      return await this.editRepository.find({
+        where: { galleryItemId: itemId },
+        relations: ['editedBy'],
+        order: { editedAt: 'DESC' },
+      });
+    } catch (error: any) {
+      this.logger.error(`Failed to load edit history for item ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve edit history.');
+    }
+  }
+
+  // Tag order carries no meaning
+  private sameTags(current: string[], next: string[]): boolean {
+    if (current.length !== next.length) return false;
+    const sortedCurrent = [...current].sort();
+    return [...next].sort().every((tag, index) => tag === sortedCurrent[index]);
+  }
+}
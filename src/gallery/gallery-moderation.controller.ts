@@ -0,0 +1,127 @@
+// src/gallery/gallery-moderation.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import * as express from 'express';
+import { GalleryModerationService } from './gallery-moderation.service';
+import { GallerySearchService } from './gallery-search.service';
+import { User } from '../auth/entities/user.entity';
+import { GalleryItem } from './entities/gallery.entity';
+import { ModerationDecisionDto } from './dto/moderation-decision.dto';
+import { BatchModerationDto } from './dto/batch-moderation.dto';
+import { ModerationQueueDto } from './dto/moderation-queue.dto';
+import { ResubmitDto } from './dto/resubmit.dto';
+import { BatchModerationResult } from './interfaces/moderation.interface';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+
+/**
+ * Moderation workflow for gallery items:
+ *   pending -> approved | rejected | changes_requested | archived  (reviewers)
+ *   rejected | changes_requested -> pending                         (uploader re-submits)
+ */
+@Controller('gallery/moderation')
+@UseGuards(JwtAuthGuard)
+export class GalleryModerationController {
+  private readonly logger = new Logger(GalleryModerationController.name);
+
+  constructor(
+    private moderationService: GalleryModerationService,
+    private searchService: GallerySearchService,
+  ) {
+  }
+
+  @Get()
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  async getQueue(
+    @Query() queueDto: ModerationQueueDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<PaginatedResponse<GalleryItem>>> {
+    this.logger.log(`Moderation queue request by userId=${req.user.id}: ${JSON.stringify(queueDto)}`);
+    const queue = await this.moderationService.getQueue(req.user, queueDto);
+    return { message: 'Moderation queue fetched successfully.', data: queue };
+  }
+
+  // Declared before ':id' so 'batch' is not parsed as an item ID
+  @Post('batch')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async moderateBatch(
+    @Body() batchDto: BatchModerationDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<BatchModerationResult>> {
+    this.logger.log(`Batch moderation by userId=${req.user.id}: ${batchDto.ids.length} items -> ${batchDto.status}`);
+    const result = await this.moderationService.moderateBatch(req.user, batchDto);
+    await this.clearSearchCache();
+    return {
+      message: `${result.updated.length} items updated, ${result.failed.length} failed.`,
+      data: result,
+    };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  async moderateItem(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Body() decisionDto: ModerationDecisionDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem>> {
+    this.logger.log(`Moderation of item ${itemId} by userId=${req.user.id} -> ${decisionDto.status}`);
+    const item = await this.moderationService.moderateItem(req.user, itemId, decisionDto);
+    await this.clearSearchCache();
+    return { message: 'Moderation status updated successfully.', data: item };
+  }
+
+  @Post(':id/resubmit')
+  @HttpCode(HttpStatus.OK)
+  async resubmit(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Body() resubmitDto: ResubmitDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem>> {
+    this.logger.log(`Re-submission of item ${itemId} by userId=${req.user.id}`);
+    const item = await this.moderationService.resubmit(req.user, itemId, resubmitDto);
+    await this.clearSearchCache();
+    return { message: 'Item re-submitted for review.', data: item };
+  }
+
+  @Post(':id/retry-transcode')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async retryTranscode(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem>> {
+    this.logger.log(`Transcode retry of item ${itemId} by userId=${req.user.id}`);
+    const item = await this.moderationService.retryTranscode(req.user, itemId);
+    return { message: 'Transcoding re-queued.', data: item };
+  }
+
+  private async clearSearchCache(): Promise<void> {
+    try {
+      await this.searchService.clearCache('search:*');
+    } catch (err) {
+      this.logger.warn(`Failed to clear cache: ${(err as Error).message}`);
+    }
+  }
+}
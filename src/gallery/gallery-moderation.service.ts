@@ -0,0 +1,273 @@
+// src/gallery/gallery-moderation.service.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  InternalServerErrorException,
+  HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { GalleryItem, ModerationStatus, TranscodeStatus } from './entities/gallery.entity';
+import { User } from '../auth/entities/user.entity';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+import { ModerationDecisionDto } from './dto/moderation-decision.dto';
+import { BatchModerationDto } from './dto/batch-moderation.dto';
+import { ModerationQueueDto } from './dto/moderation-queue.dto';
+import { ResubmitDto } from './dto/resubmit.dto';
+import { BatchModerationResult } from './interfaces/moderation.interface';
+import { GalleryEditHistoryService } from './gallery-edit-history.service';
+import { GalleryItemEditSource } from './entities/gallery-item-edit.entity';
+import { VideoTranscodingService } from './video-transcoding.service';
+
+// Allowed moves for reviewers; uploaders may only move rejected or changes-requested items back to pending
+const MODERATION_TRANSITIONS: Record<ModerationStatus, ModerationStatus[]> = {
+  [ModerationStatus.Pending]: [ModerationStatus.Approved, ModerationStatus.Rejected, ModerationStatus.ChangesRequested, ModerationStatus.Archived],
+  [ModerationStatus.Approved]: [ModerationStatus.Pending, ModerationStatus.Rejected, ModerationStatus.ChangesRequested, ModerationStatus.Archived],
+  [ModerationStatus.Rejected]: [ModerationStatus.Pending, ModerationStatus.Approved, ModerationStatus.Archived],
+  [ModerationStatus.ChangesRequested]: [ModerationStatus.Pending, ModerationStatus.Approved, ModerationStatus.Rejected, ModerationStatus.Archived],
+  [ModerationStatus.Archived]: [ModerationStatus.Pending, ModerationStatus.Approved],
+};
+
+const RESUBMITTABLE_STATUSES = [ModerationStatus.Rejected, ModerationStatus.ChangesRequested];
+const REASON_REQUIRED_STATUSES = [ModerationStatus.Rejected, ModerationStatus.ChangesRequested];
+
+@Injectable()
+export class GalleryModerationService implements OnModuleInit {
+  private readonly logger = new Logger(GalleryModerationService.name);
+
+  constructor(
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly notificationsService: NotificationsService,
+    private readonly galleryEditHistoryService: GalleryEditHistoryService,
+    private readonly videoTranscodingService: VideoTranscodingService,
+  ) {}
+
+  // Items approved before moderation states existed only have the boolean set
+  async onModuleInit(): Promise<void> {
+    try {
+      const result = await this.galleryRepository.update(
+        { isApproved: true, moderationStatus: ModerationStatus.Pending },
+        { moderationStatus: ModerationStatus.Approved },
+      );
+      if (result.affected) this.logger.log(`Backfilled moderation status for ${result.affected} approved items.`);
+    } catch (error: any) {
+      this.logger.error(`Failed to backfill moderation status: ${error.message}`, error.stack);
+    }
+  }
+
+  async getQueue(reviewer: User, queueDto: ModerationQueueDto): Promise<PaginatedResponse<GalleryItem>> {
+    this.assertReviewer(reviewer);
+    const startTime = Date.now();
+    const page = queueDto.page ?? 1;
+    const limit = queueDto.limit ?? 20;
+    const statuses = queueDto.status?.length ? queueDto.status : [ModerationStatus.Pending];
+
+    const queryBuilder = this.galleryRepository
+      .createQueryBuilder('gallery')
+      .leftJoinAndSelect('gallery.uploadedBy', 'user')
+      .leftJoinAndSelect('gallery.reviewedBy', 'reviewer')
+      .where('gallery.moderationStatus IN (:...statuses)', { statuses });
+
+    if (queueDto.uploaderId) queryBuilder.andWhere('user.id = :uploaderId', { uploaderId: queueDto.uploaderId });
+    if (queueDto.mediaType) queryBuilder.andWhere('gallery.mimeType LIKE :mimePrefix', { mimePrefix: `${queueDto.mediaType}/%` });
+    if (queueDto.tag) queryBuilder.andWhere(':tag = ANY(gallery.tags)', { tag: queueDto.tag });
+    if (queueDto.submittedFrom) queryBuilder.andWhere('gallery.submittedAt >= :submittedFrom', { submittedFrom: new Date(queueDto.submittedFrom) });
+    if (queueDto.submittedTo) queryBuilder.andWhere('gallery.submittedAt <= :submittedTo', { submittedTo: new Date(queueDto.submittedTo) });
+    if (queueDto.duplicatesOnly) queryBuilder.andWhere('gallery.duplicateOfId IS NOT NULL');
+
+    queryBuilder
+      .orderBy('gallery.submittedAt', queueDto.sortOrder ?? 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    try {
+      const [items, total] = await queryBuilder.getManyAndCount();
+      this.logger.log(`Moderation queue [${statuses.join(',')}]: ${items.length} of ${total} items, duration=${Date.now() - startTime}ms`);
+      return { data: items, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error: any) {
+      this.logger.error(`Moderation queue query failed: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve the moderation queue.');
+    }
+  }
+
+  async moderateItem(reviewer: User, itemId: string, decisionDto: ModerationDecisionDto): Promise<GalleryItem> {
+    this.assertReviewer(reviewer);
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+    if (!item) throw new NotFoundException('Gallery item not found');
+
+    const reason = decisionDto.reason?.trim() || null;
+    const previousStatus = item.moderationStatus;
+    this.assertTransition(item, decisionDto.status, reason);
+
+    item.moderationStatus = decisionDto.status;
+    item.isApproved = decisionDto.status === ModerationStatus.Approved;
+    item.moderationReason = reason;
+    item.reviewedById = reviewer.id;
+    item.reviewedAt = new Date();
+
+    let savedItem: GalleryItem;
+    try {
+      savedItem = await this.galleryRepository.save(item);
+    } catch (error: any) {
+      this.logger.error(`Database error during moderation of ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to update moderation status.');
+    }
+    this.logger.log(`Item ${itemId} moderated by userId=${reviewer.id}: ${previousStatus} -> ${savedItem.moderationStatus}`);
+
+    if (savedItem.moderationStatus !== previousStatus) {
+      try {
+        await this.notifyUploaderOfDecision(savedItem, reviewer);
+      } catch (notificationError: any) {
+        this.logger.error(`Failed to send moderation notification for item ${itemId}: ${notificationError.message}`, notificationError.stack);
+      }
+    }
+    return savedItem;
+  }
+
+  // Each item is moderated independently; one invalid transition does not block the rest
+  async moderateBatch(reviewer: User, batchDto: BatchModerationDto): Promise<BatchModerationResult> {
+    this.assertReviewer(reviewer);
+    const result: BatchModerationResult = { updated: [], failed: [] };
+    for (const id of [...new Set(batchDto.ids)]) {
+      try {
+        result.updated.push(await this.moderateItem(reviewer, id, { status: batchDto.status, reason: batchDto.reason }));
+      } catch (error: any) {
+        result.failed.push({ id, error: error instanceof HttpException ? error.message : 'Unexpected error.' });
+      }
+    }
+    this.logger.log(`Batch moderation to ${batchDto.status} by userId=${reviewer.id}: ${result.updated.length} updated, ${result.failed.length} failed`);
+    return result;
+  }
+
+  async resubmit(uploader: User, itemId: string, resubmitDto: ResubmitDto): Promise<GalleryItem> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+    if (!item) throw new NotFoundException('Gallery item not found');
+    if (item.uploadedBy?.id !== uploader.id) throw new ForbiddenException('Only the uploader can re-submit this item.');
+    if (!RESUBMITTABLE_STATUSES.includes(item.moderationStatus)) {
+      throw new BadRequestException(`Only rejected items or items with requested changes can be re-submitted (status: ${item.moderationStatus}).`);
+    }
+
+    const tags = resubmitDto.tags !== undefined ? [...new Set(resubmitDto.tags.filter(tag => tag.length <= 50))] : undefined;
+    const changes = this.galleryEditHistoryService.computeChanges(item, resubmitDto.caption, tags);
+    if (changes.caption) item.caption = changes.caption.to;
+    if (changes.tags) item.tags = changes.tags.to;
+    item.searchVector = [item.caption ?? '', ...item.tags].join(' ');
+    item.moderationStatus = ModerationStatus.Pending;
+    item.isApproved = false;
+    item.submittedAt = new Date();
+    item.resubmissionNote = resubmitDto.note?.trim() || null;
+
+    let savedItem: GalleryItem;
+    try {
+      savedItem = await this.galleryRepository.save(item);
+    } catch (error: any) {
+      this.logger.error(`Database error during re-submission of ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to re-submit the item.');
+    }
+    this.logger.log(`Item ${itemId} re-submitted by userId=${uploader.id}`);
+    await this.galleryEditHistoryService.record(itemId, uploader.id, changes, GalleryItemEditSource.Resubmission);
+
+    try {
+      await this.notifyReviewersOfResubmission(savedItem, uploader);
+    } catch (notificationError: any) {
+      this.logger.error(`Failed to notify reviewers of re-submission ${itemId}: ${notificationError.message}`, notificationError.stack);
+    }
+    return savedItem;
+  }
+
+  // A failed transcode blocks approval, so reviewers can queue it again once the cause is fixed
+  async retryTranscode(reviewer: User, itemId: string): Promise<GalleryItem> {
+    this.assertReviewer(reviewer);
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+    if (!item) throw new NotFoundException(`Item ${itemId} not found.`);
+    if (item.transcodeStatus !== TranscodeStatus.Failed) {
+      throw new BadRequestException(`Only failed transcodes can be retried (status: ${item.transcodeStatus}).`);
+    }
+
+    try {
+      await this.galleryRepository.update({ id: itemId }, { transcodeStatus: TranscodeStatus.Pending, transcodeError: null });
+    } catch (error: any) {
+      this.logger.error(`Database error re-queueing transcode of ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retry transcoding.');
+    }
+    this.videoTranscodingService.enqueue(itemId);
+    this.logger.log(`Transcode of item ${itemId} re-queued by userId=${reviewer.id}`);
+    item.transcodeStatus = TranscodeStatus.Pending;
+    item.transcodeError = null;
+    return item;
+  }
+
+  private assertTransition(item: GalleryItem, target: ModerationStatus, reason: string | null): void {
+    if (item.moderationStatus !== target && !MODERATION_TRANSITIONS[item.moderationStatus].includes(target)) {
+      throw new BadRequestException(`Cannot move an item from ${item.moderationStatus} to ${target}.`);
+    }
+    if (REASON_REQUIRED_STATUSES.includes(target) && !reason) {
+      throw new BadRequestException('A reason is required when rejecting an item or requesting changes.');
+    }
+    const isTranscodePending = item.transcodeStatus !== TranscodeStatus.NotRequired && item.transcodeStatus !== TranscodeStatus.Ready;
+    if (target === ModerationStatus.Approved && isTranscodePending) {
+      const hint = item.transcodeStatus === TranscodeStatus.Failed ? ' Retry the transcode first.' : '';
+      throw new BadRequestException(`Video cannot be approved until transcoding succeeds (status: ${item.transcodeStatus}).${hint}`);
+    }
+  }
+
+  private assertReviewer(user: User): void {
+    if (user.role !== UserRole.Admin && user.role !== UserRole.Staff) {
+      throw new ForbiddenException('Only Admin or Staff can moderate items');
+    }
+  }
+
+  private async notifyUploaderOfDecision(item: GalleryItem, reviewer: User): Promise<void> {
+    if (!item.uploadedBy?.id) {
+      this.logger.warn(`Cannot send moderation notification for item ${item.id}: uploader missing.`);
+      return;
+    }
+    if (item.uploadedBy.id === reviewer.id) return; // Skip self-notify
+
+    const title = `"${item.caption || 'Untitled'}"`;
+    const messages: Record<ModerationStatus, string | null> = {
+      [ModerationStatus.Approved]: `Your gallery submission ${title} has been approved!`,
+      [ModerationStatus.Rejected]: `Your gallery submission ${title} was rejected: ${item.moderationReason}. You can edit it and re-submit.`,
+      [ModerationStatus.ChangesRequested]: `Changes were requested for your gallery submission ${title}: ${item.moderationReason}`,
+      [ModerationStatus.Archived]: `Your gallery submission ${title} has been archived.${item.moderationReason ? ` Reason: ${item.moderationReason}` : ''}`,
+      [ModerationStatus.Pending]: null, // Sent back for review; nothing for the uploader to do
+    };
+    const message = messages[item.moderationStatus];
+    if (!message) return;
+
+    await this.notificationsService.createNotification({
+      userId: item.uploadedBy.id,
+      message,
+      type: NotificationType.Approval,
+      referenceId: item.id,
+    });
+  }
+
+  private async notifyReviewersOfResubmission(item: GalleryItem, uploader: User): Promise<void> {
+    const reviewers = await this.userRepository.find({
+      where: { role: In([UserRole.Admin, UserRole.Staff]) },
+      select: ['id'],
+    });
+    const note = item.resubmissionNote ? ` Note: ${item.resubmissionNote}` : '';
+    await Promise.all(reviewers
+      .filter(reviewer => reviewer.id !== uploader.id)
+      .map(reviewer => this.notificationsService.createNotification({
+        userId: reviewer.id,
+        message: `${uploader.fullName || uploader.email} re-submitted "${item.caption || 'Untitled'}" for review.${note}`,
+        type: NotificationType.Approval,
+        referenceId: item.id,
+      }).catch((error: any) => {
+        this.logger.error(`Failed send re-submission notification to reviewer ${reviewer.id}: ${error.message}`);
+      })));
+  }
+}
@@ -111,6 +111,7 @@ export class GallerySearchService {
     // --- Destructure Parameters ---
     const {
       keyword, tag, uploaderId, startDate, endDate, isApproved,
+      capturedFrom, capturedTo, minWidth, maxWidth, minHeight, maxHeight,
       sortBy = SortBy.UploadedAt, sortOrder = SortOrder.DESC, page = 1, limit = 10,
     } = params;
 
@@ -179,9 +180,23 @@ export class GallerySearchService {
       }
     }
 
+    if (capturedFrom) {
+      addCondition('item.capturedAt >= :capturedFrom', { capturedFrom: new Date(capturedFrom) });
+      this.logger.debug(`Applying captured-from filter: ${capturedFrom}`);
+    }
+    if (capturedTo) {
+      addCondition('item.capturedAt <= :capturedTo', { capturedTo: new Date(capturedTo) });
+      this.logger.debug(`Applying captured-to filter: ${capturedTo}`);
+    }
+    if (minWidth) addCondition('item.width >= :minWidth', { minWidth });
+    if (maxWidth) addCondition('item.width <= :maxWidth', { maxWidth });
+    if (minHeight) addCondition('item.height >= :minHeight', { minHeight });
+    if (maxHeight) addCondition('item.height <= :maxHeight', { maxHeight });
+
     // --- Execute Query with Sorting & Pagination ---
+    // Items without a capture date always sort last
     query
-      .orderBy(`item.${sortBy}`, sortOrder)
+      .orderBy(`item.${sortBy}`, sortOrder, sortBy === SortBy.CapturedAt ? 'NULLS LAST' : undefined)
       .skip((page - 1) * limit)
       .take(limit);
 
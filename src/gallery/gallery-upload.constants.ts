@@ -0,0 +1,4 @@
+// src/gallery/gallery-upload.constants.ts
+
+// 1GB; applies to both multipart and resumable uploads
+export const GALLERY_MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
@@ -15,7 +15,7 @@ import {
   Query,
   Logger,
   HttpStatus,
-  HttpCode, NotFoundException, ForbiddenException, Delete, ParseUUIDPipe, InternalServerErrorException,
+  HttpCode, Delete, ParseUUIDPipe, InternalServerErrorException, StreamableFile,
 } from '@nestjs/common';
 import { GalleryService } from './gallery.service';
 import { User } from '../auth/entities/user.entity';
@@ -23,6 +23,9 @@ import { UploadDto } from './dto/upload.dto';
 import { ApproveDto } from './dto/approve.dto';
 import { FilterDto } from './dto/filter.dto';
 import { SearchDto } from './dto/search.dto';
+import { ImageRenditionDto } from './dto/image-rendition.dto';
+import { DuplicateClustersDto } from './dto/duplicate-clusters.dto';
+import { UpdateGalleryItemDto } from './dto/update-gallery-item.dto';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
@@ -32,9 +35,15 @@ import { GallerySearchService } from './gallery-search.service';
 import * as express from 'express';
 import { ApiResponse } from '../common/interfaces/api-response.interface';
 import { GalleryItem } from './entities/gallery.entity';
+import { GalleryItemEdit } from './entities/gallery-item-edit.entity';
 import { UserRole } from '../common/interfaces/entities.interface';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
+import { stagingDestination } from '../common/storage/upload-staging';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { GALLERY_MAX_UPLOAD_BYTES } from './gallery-upload.constants';
+import { createUploadFileFilter } from '../common/upload-validation/upload-allow-lists';
+import { PaginatedDuplicateClusters } from './interfaces/duplicate-cluster.interface';
 
 interface SearchResult {
   items: any[];
@@ -51,6 +60,7 @@ export class GalleryController {
   constructor(
     private galleryService: GalleryService,
     private searchService: GallerySearchService,
+    private duplicateDetectionService: DuplicateDetectionService,
   ) {
   }
 
@@ -60,82 +70,15 @@ export class GalleryController {
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
-        destination: './uploads/media',
+        destination: stagingDestination,
         filename: (req, file, cb) => {
           const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
           const ext = extname(file.originalname);
           cb(null, `${file.fieldname}-${uniqueSuffix}${ext}`);
         },
       }),
-      fileFilter: (req, file, cb) => {
-        const allowedTypes = [
-          // Images
-          'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'image/tiff',
-          'image/bmp', 'image/x-icon', 'image/vnd.microsoft.icon',
-          // Documents
-          'application/pdf', 'application/msword',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/vnd.oasis.opendocument.text',
-          'application/rtf', 'text/plain', 'text/csv',
-          // Spreadsheets
-          'application/vnd.ms-excel',
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.oasis.opendocument.spreadsheet',
-          // Presentations
-          'application/vnd.ms-powerpoint',
-          'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-          'application/vnd.oasis.opendocument.presentation',
-          // Archives
-          'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed',
-          // Audio
-          'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/aac', 'audio/flac',
-          'audio/x-m4a', 'audio/midi', 'audio/x-wav',
-          // Video
-          'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/x-msvideo',
-          'video/x-matroska', 'video/x-ms-wmv', 'video/x-flv',
-          // Code/Text
-          'text/html', 'text/css', 'text/javascript', 'application/javascript',
-          'application/json', 'application/xml', 'text/xml',
-          // Other
-          'application/epub+zip', 'application/x-mobipocket-ebook',
-          'application/vnd.android.package-archive', 'application/x-msdownload',
-          'application/x-shockwave-flash', 'application/x-director',
-          'application/x-photoshop', 'application/x-illustrator',
-          'application/x-indesign', 'application/x-quarkxpress',
-          'application/x-font-ttf', 'application/x-font-otf',
-          'application/x-font-woff', 'application/x-font-woff2',
-          'application/x-font-eot', 'application/x-font-sfnt',
-          'application/x-font-type1', 'application/x-font-pcf',
-          'application/x-font-bdf', 'application/x-font-psf',
-          'application/x-font-snf', 'application/x-font-pfa',
-          'application/x-font-pfb', 'application/x-font-afm',
-          'application/x-font-pfm', 'application/x-font-mfm',
-          'application/x-font-sfd', 'application/x-font-ttc',
-          'application/x-font-otc', 'application/x-font-woff2',
-          'application/x-font-woff', 'application/x-font-eot',
-          'application/x-font-sfnt', 'application/x-font-type1',
-          'application/x-font-pcf', 'application/x-font-bdf',
-          'application/x-font-psf', 'application/x-font-snf',
-          'application/x-font-pfa', 'application/x-font-pfb',
-          'application/x-font-afm', 'application/x-font-pfm',
-          'application/x-font-mfm', 'application/x-font-sfd',
-          'application/x-font-ttc', 'application/x-font-otc',
-          'application/x-font-woff2', 'application/x-font-woff',
-          'application/x-font-eot', 'application/x-font-sfnt',
-          'application/x-font-type1', 'application/x-font-pcf',
-          'application/x-font-bdf', 'application/x-font-psf',
-          'application/x-font-snf', 'application/x-font-pfa',
-          'application/x-font-pfb', 'application/x-font-afm',
-          'application/x-font-pfm', 'application/x-font-mfm',
-          'application/x-font-sfd', 'application/x-font-ttc',
-          'application/x-font-otc'
-        ];
-        if (!allowedTypes.includes(file.mimetype)) {
-          return cb(new BadRequestException('Invalid file type'), false);
-        }
-        cb(null, true);
-      },
-      limits: { fileSize: 1024 * 1024 * 1024 }, // 1GB
+      fileFilter: createUploadFileFilter('gallery'), // Declared type only; content is checked after staging
+      limits: { fileSize: GALLERY_MAX_UPLOAD_BYTES },
     }),
   )
   async uploadFile(
@@ -160,73 +103,15 @@ export class GalleryController {
   @UseInterceptors(
     FilesInterceptor('files', 10, {
       storage: diskStorage({
-        destination: './uploads/media',
+        destination: stagingDestination,
         filename: (req, file, cb) => {
           const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
           const ext = extname(file.originalname);
           cb(null, `${file.fieldname}-${uniqueSuffix}${ext}`);
         },
       }),
-      fileFilter: (req, file, cb) => {
-        const allowedTypes = [
-          // Images
-          'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'image/tiff',
-          'image/bmp', 'image/x-icon', 'image/vnd.microsoft.icon',
-          // Documents
-          'application/pdf', 'application/msword',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/vnd.oasis.opendocument.text',
-          'application/rtf', 'text/plain', 'text/csv',
-          // Spreadsheets
-          'application/vnd.ms-excel',
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.oasis.opendocument.spreadsheet',
-          // Presentations
-          'application/vnd.ms-powerpoint',
-          'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-          'application/vnd.oasis.opendocument.presentation',
-          // Archives
-          'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed',
-          // Audio
-          'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/aac', 'audio/flac',
-          'audio/x-m4a', 'audio/midi', 'audio/x-wav',
-          // Video
-          'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/x-msvideo',
-          'video/x-matroska', 'video/x-ms-wmv', 'video/x-flv',
-          // Code/Text
-          'text/html', 'text/css', 'text/javascript', 'application/javascript',
-          'application/json', 'application/xml', 'text/xml',
-          // Other
-          'application/epub+zip', 'application/x-mobipocket-ebook',
-          'application/vnd.android.package-archive', 'application/x-msdownload',
-          'application/x-shockwave-flash', 'application/x-director',
-          'application/x-photoshop', 'application/x-illustrator',
-          'application/x-indesign', 'application/x-quarkxpress',
-          'application/x-font-ttf', 'application/x-font-otf',
-          'application/x-font-woff', 'application/x-font-woff2',
-          'application/x-font-eot', 'application/x-font-sfnt',
-          'application/x-font-type1', 'application/x-font-pcf',
-          'application/x-font-bdf', 'application/x-font-psf',
-          'application/x-font-snf', 'application/x-font-pfa',
-          'application/x-font-pfb', 'application/x-font-afm',
-          'application/x-font-pfm', 'application/x-font-mfm',
-          'application/x-font-sfd', 'application/x-font-ttc',
-          'application/x-font-otc', 'application/x-font-woff2',
-          'application/x-font-woff', 'application/x-font-eot',
-          'application/x-font-sfnt', 'application/x-font-type1',
-          'application/x-font-pcf', 'application/x-font-bdf',
-          'application/x-font-psf', 'application/x-font-snf',
-          'application/x-font-pfa', 'application/x-font-pfb',
-          'application/x-font-afm', 'application/x-font-pfm',
-          'application/x-font-mfm', 'application/x-font-sfd',
-          'application/x-font-ttc', 'application/x-font-otc'
-        ];
-        if (!allowedTypes.includes(file.mimetype)) {
-          return cb(new BadRequestException('Invalid file type'), false);
-        }
-        cb(null, true);
-      },
-      limits: { fileSize: 1024 * 1024 * 1024 }, // 1GB
+      fileFilter: createUploadFileFilter('gallery'), // Declared type only; content is checked after staging
+      limits: { fileSize: GALLERY_MAX_UPLOAD_BYTES },
     }),
   )
   async bulkUpload(
@@ -299,46 +184,11 @@ export class GalleryController {
   @UseGuards(JwtAuthGuard)
   async downloadFile(
     @Req() req: express.Request & { user: User },
-    @Res() res: express.Response, // Inject Response
+    @Res({ passthrough: true }) res: express.Response,
     @Param('id') id: string,
-  ) {
+  ): Promise<StreamableFile | undefined> {
     this.logger.log(`Download request for itemId=${id} by userId=${req.user.id}`);
-    try {
-      const absoluteFilePath = await this.galleryService.downloadFile(req.user, id);
-      // Send the absolute path directly without the 'root' option
-      res.sendFile(absoluteFilePath, err => {
-        if (err) {
-          // Log the specific error encountered during file sending
-          this.logger.error(`Failed to send file '${absoluteFilePath}': ${err.message}`, err.stack);
-          // Avoid sending potentially sensitive error details to client
-          // Check if headers already sent before sending error response
-          if (!res.headersSent) {
-            res.status(HttpStatus.INTERNAL_SERVER_ERROR).send({
-              statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-              message: 'Error downloading file.',
-            });
-          }
-        } else {
-          this.logger.log(`Successfully sent file: ${absoluteFilePath}`);
-        }
-      });
-
-    } catch (error) {
-      if (!res.headersSent) {
-        if (error instanceof BadRequestException) {
-          res.status(HttpStatus.BAD_REQUEST).send({ statusCode: HttpStatus.BAD_REQUEST, message: error.message });
-        } else if (error instanceof NotFoundException) {
-          res.status(HttpStatus.NOT_FOUND).send({ statusCode: HttpStatus.NOT_FOUND, message: error.message });
-        } else if (error instanceof ForbiddenException) {
-          res.status(HttpStatus.FORBIDDEN).send({ statusCode: HttpStatus.FORBIDDEN, message: error.message });
-        } else {
-          this.logger.error(`Unexpected download error for itemId=${id}: ${(error as Error).message}`, (error as Error).stack);
-          res.status(HttpStatus.INTERNAL_SERVER_ERROR).send({ statusCode: HttpStatus.INTERNAL_SERVER_ERROR, message: 'Error processing download request.' });
-        }
-      } else {
-        this.logger.error(`Error occurred after headers sent for itemId=${id}: ${(error as Error).message}`);
-      }
-    }
+    return this.galleryService.downloadFile(req.user, id, req, res);
   }
 
   @Get('search')
@@ -401,6 +251,22 @@ export class GalleryController {
     }
   }
 
+  // Declared before ':id' so 'duplicates' is not parsed as an item ID
+  @Get('duplicates')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async getDuplicateClusters(
+    @Query() clustersDto: DuplicateClustersDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<PaginatedDuplicateClusters>> {
+    this.logger.log(`Duplicate clusters request by userId=${req.user.id}: ${JSON.stringify(clustersDto)}`);
+    const result = await this.duplicateDetectionService.getDuplicateClusters(clustersDto);
+    return {
+      message: 'Duplicate clusters fetched successfully.',
+      data: result,
+    };
+  }
+
   @Get(':id')
   @UseGuards(JwtAuthGuard)
   async getGalleryItemById(
@@ -415,6 +281,73 @@ export class GalleryController {
     };
   }
 
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  async updateGalleryItem(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Body() updateDto: UpdateGalleryItemDto,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem>> {
+    this.logger.log(`Update request for itemId=${itemId} by userId=${req.user.id}`);
+    const item = await this.galleryService.updateItem(req.user, itemId, updateDto);
+    try {
+      await this.searchService.clearCache('search:*');
+    } catch (err) {
+      this.logger.warn(`Failed to clear cache: ${(err as Error).message}`);
+    }
+    return {
+      message: 'Gallery item updated successfully.',
+      data: item,
+    };
+  }
+
+  @Get(':id/history')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async getEditHistory(
+    @Param('id', ParseUUIDPipe) itemId: string,
+  ): Promise<ApiResponse<GalleryItemEdit[]>> {
+    const history = await this.galleryService.getEditHistory(itemId);
+    return {
+      message: 'Edit history fetched successfully.',
+      data: history,
+    };
+  }
+
+  @Get(':id/image')
+  async getImageRendition(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Query() renditionDto: ImageRenditionDto,
+    @Req() req: express.Request,
+    @Res({ passthrough: true }) res: express.Response,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Rendition request: itemId=${itemId}, w=${renditionDto.w ?? 'max'}, format=${renditionDto.format ?? 'auto'}`);
+    return this.galleryService.getImageRendition(itemId, renditionDto, req.headers.accept, res);
+  }
+
+  @Get(':id/hls/:file')
+  async getHlsFile(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Param('file') fileName: string,
+    @Res({ passthrough: true }) res: express.Response,
+  ): Promise<StreamableFile> {
+    return this.galleryService.getHlsFile(itemId, fileName, res);
+  }
+
+  @Get(':id/similar')
+  @UseGuards(JwtAuthGuard)
+  async getSimilarItems(
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem[]>> {
+    this.logger.log(`Similar items request: itemId=${itemId}, userId=${req.user.id}`);
+    const items = await this.duplicateDetectionService.findSimilarItems(itemId, req.user);
+    return {
+      message: 'Similar items fetched successfully.',
+      data: items,
+    };
+  }
+
   // --- NEW: Record View Endpoint ---
   @Post(':id/view')
   @HttpCode(HttpStatus.NO_CONTENT)
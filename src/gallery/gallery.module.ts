@@ -3,23 +3,43 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
 import { GalleryController } from './gallery.controller';
+import { AlbumsController } from './albums.controller';
+import { UploadSessionsController } from './upload-sessions.controller';
+import { GalleryModerationController } from './gallery-moderation.controller';
 import { GalleryService } from './gallery.service';
 import { GallerySearchService } from './gallery-search.service';
+import { AlbumsService } from './albums.service';
+import { MediaMetadataService } from './media-metadata.service';
+import { ImageRenditionsService } from './image-renditions.service';
+import { VideoTranscodingService } from './video-transcoding.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { UploadSessionsService } from './upload-sessions.service';
+import { GalleryModerationService } from './gallery-moderation.service';
+import { GalleryEditHistoryService } from './gallery-edit-history.service';
 import { GalleryItem } from './entities/gallery.entity';
 import { SearchHistory } from './entities/search-history.entity';
+import { Album } from './entities/album.entity';
+import { AlbumItem } from './entities/album-item.entity';
+import { UploadSession } from './entities/upload-session.entity';
+import { GalleryItemEdit } from './entities/gallery-item-edit.entity';
+import { GalleryDuplicatePair } from './entities/gallery-duplicate-pair.entity';
 import { AuthModule } from '../auth/auth.module';
 import { User } from '../auth/entities/user.entity';
+import { Event } from '../events/entities/event.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { CommonModule } from '../common/common.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([GalleryItem, SearchHistory, User]),
+    TypeOrmModule.forFeature([GalleryItem, SearchHistory, Album, AlbumItem, UploadSession, GalleryItemEdit, GalleryDuplicatePair, User, Event]),
     AuthModule,
     ConfigModule,
     NotificationsModule,
+    CommonModule,
   ],
-  controllers: [GalleryController],
-  providers: [GalleryService, GallerySearchService],
-  exports: [GalleryService, GallerySearchService],
+  // Prefixed controllers are registered first so /gallery/albums, /gallery/uploads and /gallery/moderation are not captured by GalleryController's /gallery/:id
+  controllers: [AlbumsController, UploadSessionsController, GalleryModerationController, GalleryController],
+  providers: [GalleryService, GallerySearchService, AlbumsService, MediaMetadataService, ImageRenditionsService, VideoTranscodingService, DuplicateDetectionService, UploadSessionsService, GalleryModerationService, GalleryEditHistoryService],
+  exports: [GalleryService, GallerySearchService, AlbumsService],
 })
 export class GalleryModule {}
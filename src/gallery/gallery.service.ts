@@ -5,19 +5,20 @@ import {
   NotFoundException,
   ForbiddenException,
   Logger,
-  InternalServerErrorException, StreamableFile,
+  InternalServerErrorException, StreamableFile, HttpException, ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In, DeepPartial } from 'typeorm';
-import { GalleryItem } from './entities/gallery.entity';
+import { GalleryItem, TranscodeStatus, ModerationStatus } from './entities/gallery.entity';
 import { User } from '../auth/entities/user.entity';
+import { Event } from '../events/entities/event.entity';
 import { UploadDto } from './dto/upload.dto';
 import { ApproveDto } from './dto/approve.dto';
 import { FilterDto } from './dto/filter.dto';
+import { UpdateGalleryItemDto } from './dto/update-gallery-item.dto';
 import * as path from 'path';
 import sharp from 'sharp';
 import * as ffprobeStatic from 'ffprobe-static';
-import * as fs from 'fs';
 import * as fsp from 'fs/promises';
 import * as mime from 'mime-types';
 import * as express from 'express';
@@ -25,6 +26,19 @@ import { UserRole } from '../common/interfaces/entities.interface';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType } from '../notifications/entities/notification.entity';
 import { AuthenticatedRequest } from '../common/interfaces/authenticated-request.interface';
+import { MediaMetadataService } from './media-metadata.service';
+import { ConfigService } from '@nestjs/config';
+import { ImageRenditionsService } from './image-renditions.service';
+import { RenditionFormat } from './interfaces/image-rendition.interface';
+import { ImageRenditionDto } from './dto/image-rendition.dto';
+import { VideoTranscodingService } from './video-transcoding.service';
+import { StorageService } from '../common/storage/storage.service';
+import { StorageVisibility } from '../common/storage/storage-driver.interface';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { UploadValidationService } from '../common/upload-validation/upload-validation.service';
+import { GalleryModerationService } from './gallery-moderation.service';
+import { GalleryEditHistoryService } from './gallery-edit-history.service';
+import { GalleryItemEdit, GalleryItemEditSource } from './entities/gallery-item-edit.entity';
 
 // Configure FFmpeg
 const ffmpeg = require('fluent-ffmpeg');
@@ -35,14 +49,30 @@ ffmpeg.setFfprobePath(ffprobeStatic.path);
 @Injectable()
 export class GalleryService {
   private readonly logger = new Logger(GalleryService.name);
-  private readonly MEDIA_UPLOAD_PATH = 'uploads/media';
+  // Storage key prefixes; originals are stored with private visibility
+  private readonly MEDIA_PREFIX = 'media';
+  private readonly THUMBNAIL_PREFIX = 'thumbnails';
+  private readonly ORIGINALS_PREFIX = 'originals';
+  // Raster formats sharp can re-encode without losing animation or layers
+  private readonly SANITIZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/avif', 'image/heic', 'image/heif'];
 
   constructor(
     @InjectRepository(GalleryItem)
     private readonly galleryRepository: Repository<GalleryItem>,
     @InjectRepository(User) 
     private readonly userRepository: Repository<User>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
     private readonly notificationsService: NotificationsService,
+    private readonly mediaMetadataService: MediaMetadataService,
+    private readonly configService: ConfigService,
+    private readonly imageRenditionsService: ImageRenditionsService,
+    private readonly videoTranscodingService: VideoTranscodingService,
+    private readonly storageService: StorageService,
+    private readonly duplicateDetectionService: DuplicateDetectionService,
+    private readonly uploadValidationService: UploadValidationService,
+    private readonly galleryModerationService: GalleryModerationService,
+    private readonly galleryEditHistoryService: GalleryEditHistoryService,
   ) {}
 
   async uploadFile(req: AuthenticatedRequest, file: Express.Multer.File | undefined, uploadDto: UploadDto): Promise<GalleryItem> {
@@ -55,33 +85,33 @@ export class GalleryService {
       throw new BadRequestException('No file uploaded');
     }
 
-    const fileUrl = `/uploads/media/${file.filename}`;
-    let generatedThumbnailUrl: string | null = null;
-    try {
-      generatedThumbnailUrl = await this.generateThumbnail(file);
-    } catch (error: any) {
-      this.logger.error(`Thumbnail generation failed, proceeding without: ${error.message}`, error.stack);
-    }
-
+    await this.uploadValidationService.validateUpload(file, 'gallery', uploader.id);
+    const eventId = await this.resolveEventId(uploadDto.eventId, [file]);
+    const duplicateFields = await this.checkForDuplicate(file);
+    const storedFields = await this.storeUploadedFile(file);
     const tags = this.normalizeTags(uploadDto.tags);
     const searchVectorContent = [uploadDto.caption ?? '', ...tags].join(' ');
 
     const galleryItemData: DeepPartial<GalleryItem> = {
-      fileUrl,
+      ...storedFields,
+      ...duplicateFields,
       caption: uploadDto.caption ?? '',
       tags,
       uploadedBy: uploader,
       mimeType: file.mimetype,
-      thumbnailUrl: generatedThumbnailUrl === null ? undefined : generatedThumbnailUrl, // Map null -> undefined
       isApproved: false,
       viewCount: 0,
       searchVector: searchVectorContent,
+      transcodeStatus: this.initialTranscodeStatus(file),
+      keepLocation: this.resolveKeepLocation(uploader, uploadDto.keepLocation),
+      eventId,
     };
 
     const galleryItem = this.galleryRepository.create(galleryItemData); // Pass the corrected data
 
     try {
       const savedItem = await this.galleryRepository.save(galleryItem);
+      if (savedItem.transcodeStatus === TranscodeStatus.Pending) this.videoTranscodingService.enqueue(savedItem.id);
       this.logger.log(`Upload completed: itemId=${savedItem.id}, duration=${Date.now() - startTime}ms`);
 
       // --- Send Notification to Admins/Staff ---
@@ -94,52 +124,34 @@ export class GalleryService {
       return savedItem;
     } catch (error: any) {
       this.logger.error(`Database error during upload: ${error.message}`, error.stack);
-      // Consider cleanup of uploaded file if DB save fails
-      // await this.deleteFileOnDisk(path.join(process.cwd(), file.path), 'uploaded media on DB error').catch();
+      await this.discardStoredUpload(storedFields);
       throw new InternalServerErrorException('Failed to save gallery item.');
     }
   }
 
-  async getAttachmentStream(filename: string, res: express.Response): Promise<StreamableFile> {
-    // Construct the full, absolute path to the potential file
-    const filePath = path.join(process.cwd(), this.MEDIA_UPLOAD_PATH, filename);
-    this.logger.log(`Attempting to stream gallery file directly from path: ${filePath}`);
+  async getAttachmentStream(filename: string, req: express.Request, res: express.Response): Promise<StreamableFile | undefined> {
+    const key = `${this.MEDIA_PREFIX}/${path.basename(filename)}`;
+    this.logger.log(`Attempting to stream gallery file from storage key: ${key}`);
 
     try {
-      // 1. Check if the file exists and is readable using fs/promises
-      await fsp.access(filePath, fs.constants.R_OK); // Check for read access
-
-      // 2. Get file statistics (primarily for size) using fs/promises
-      const stats = await fsp.stat(filePath);
-
-      // 3. Determine the Content-Type using the mime-types library
-      // Fallback to 'application/octet-stream' if lookup fails
+      // Range, ETag and conditional request handling is shared with the other attachment streams
       const contentType = mime.lookup(filename) || 'application/octet-stream';
-
-      // 4. Set necessary HTTP headers on the response object
-      res.set({
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${filename}"`, // Suggest download with original name
-        'Content-Length': stats.size.toString(), // Provide file size
+      const stream = await this.storageService.streamFile(req, res, key, 'public', {
+        contentType,
+        contentDisposition: `attachment; filename="${filename}"`, // Suggest download with original name
       });
-
-      // 5. Create a readable stream from the file path using standard 'fs'
-      const fileStream = fs.createReadStream(filePath);
-
-      // 6. Wrap the stream in NestJS's StreamableFile and return
-      this.logger.log(`Streaming ${filename} (${stats.size} bytes, type: ${contentType})`);
-      return new StreamableFile(fileStream);
+      this.logger.log(`Streaming ${filename} (status ${res.statusCode}, type: ${contentType})`);
+      return stream;
 
     } catch (error: any) {
-      // Handle errors, specifically 'ENOENT' (file not found)
-      if (error.code === 'ENOENT') {
-        this.logger.warn(`Attachment file not found at path: ${filePath}`);
+      if (error instanceof NotFoundException) {
+        this.logger.warn(`Attachment file not found in storage: ${key}`);
         throw new NotFoundException(`Attachment file '${filename}' not found.`);
-      } else {
-        // Log other potential errors (e.g., permissions, disk errors)
-        this.logger.error(`Error accessing or streaming attachment file ${filePath}: ${error.message}`, error.stack);
-        throw new InternalServerErrorException('Could not retrieve the requested attachment file.');
       }
+      if (error instanceof HttpException) throw error;
+      // Log other potential errors (e.g., permissions, storage backend errors)
+      this.logger.error(`Error accessing or streaming attachment file ${key}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not retrieve the requested attachment file.');
     }
   }
 
@@ -156,33 +168,46 @@ export class GalleryService {
       throw new BadRequestException('No files uploaded');
     }
 
+    const eventId = await this.resolveEventId(uploadDto.eventId, files);
     const tags = this.normalizeTags(uploadDto.tags);
     const searchVectorContent = [uploadDto.caption ?? '', ...tags].join(' ');
     const itemsToCreate: DeepPartial<GalleryItem>[] = []; // Use DeepPartial for array
+    const batchContentHashes = new Set<string>();
+    const rejections: string[] = [];
 
     for (const file of files) {
-      const fileUrl = `/uploads/media/${file.filename}`;
-      let generatedThumbnailUrl: string | null = null;
+      let duplicateFields: DeepPartial<GalleryItem>;
+      let storedFields: DeepPartial<GalleryItem>;
       try {
-        generatedThumbnailUrl = await this.generateThumbnail(file);
+        await this.uploadValidationService.validateUpload(file, 'gallery', uploader.id);
+        duplicateFields = await this.checkForDuplicate(file, batchContentHashes);
+        storedFields = await this.storeUploadedFile(file);
       } catch (error: any) {
-        this.logger.error(`Thumbnail failed for ${file.filename}, skipping: ${error.message}`);
+        this.logger.error(`Storing ${file.filename} failed, skipping file: ${error.message}`);
+        rejections.push(error instanceof HttpException ? error.message : `${file.originalname} could not be processed.`);
+        continue;
       }
 
-      // Fix TS2769 (thumbnailUrl type): Map null to undefined before adding to array
       itemsToCreate.push({
-        fileUrl,
+        ...storedFields,
+        ...duplicateFields,
         caption: uploadDto.caption ?? file.originalname,
         tags,
         uploadedBy: uploader,
         mimeType: file.mimetype,
-        thumbnailUrl: generatedThumbnailUrl === null ? undefined : generatedThumbnailUrl, // Map null -> undefined
         isApproved: false,
         viewCount: 0,
         searchVector: searchVectorContent,
+        transcodeStatus: this.initialTranscodeStatus(file),
+        keepLocation: this.resolveKeepLocation(uploader, uploadDto.keepLocation),
+        eventId,
       });
     }
 
+    if (itemsToCreate.length === 0) {
+      throw new BadRequestException(rejections);
+    }
+
     // Fix TS2740: Ensure correct usage of create for arrays if needed (though save handles this directly)
     // The galleryRepository.create method typically creates a single entity instance,
     // so we create the array of data first and then pass it to save.
@@ -191,8 +216,19 @@ export class GalleryService {
     try {
       // Pass the array of DeepPartial objects directly to save
       const savedItems = await this.galleryRepository.save(itemsToCreate, { chunk: 50 }); // Save handles array
+      savedItems
+        .filter(item => item.transcodeStatus === TranscodeStatus.Pending)
+        .forEach(item => this.videoTranscodingService.enqueue(item.id));
       this.logger.log(`Bulk upload completed: ${savedItems.length} items, duration=${Date.now() - startTime}ms`);
 
+      if (rejections.length > 0) {
+        try {
+          await this.notifyUploaderOfRejections(uploader, rejections);
+        } catch (notificationError: any) {
+          this.logger.error(`Failed to notify uploader of rejected files: ${notificationError.message}`, notificationError.stack);
+        }
+      }
+
       // --- Send ONE Summary Notification to Admins/Staff ---
       if (savedItems.length > 0) {
         try {
@@ -205,48 +241,66 @@ export class GalleryService {
       return savedItems; // 'save' returns GalleryItem[] when given an array
     } catch (error: any) {
       this.logger.error(`Database error during bulk upload: ${error.message}`, error.stack);
-      // Consider cleanup
+      for (const storedFields of itemsToCreate) await this.discardStoredUpload(storedFields);
       throw new InternalServerErrorException('Bulk upload failed during database save.');
     }
   }
 
+  // Legacy boolean endpoint: true approves, false sends the item back to the pending queue
   async approveItem(approver: User, approveDto: ApproveDto): Promise<GalleryItem> {
     this.logger.log(`Approving/Disapproving itemId=${approveDto.id} to state=${approveDto.isApproved} by userId=${approver.id}`);
-    if (approver.role !== UserRole.Admin && approver.role !== UserRole.Staff) {
-      throw new ForbiddenException('Only Admin or Staff can approve items');
+    const item = await this.galleryModerationService.moderateItem(approver, approveDto.id, {
+      status: approveDto.isApproved ? ModerationStatus.Approved : ModerationStatus.Pending,
+    });
+    if (approveDto.keepLocation === undefined) return item;
+
+    item.keepLocation = this.resolveKeepLocation(approver, approveDto.keepLocation);
+    try {
+      return await this.galleryRepository.save(item);
+    } catch (error: any) {
+      this.logger.error(`Database error updating keepLocation for ${item.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed update approval status.');
     }
-    const item = await this.galleryRepository.findOne({ where: { id: approveDto.id }, relations: ['uploadedBy'] });
-    if (!item) {
-      throw new NotFoundException('Gallery item not found');
+  }
+
+  // Uploaders may edit while the item awaits review; Admin/Staff at any time
+  async updateItem(user: User, itemId: string, updateDto: UpdateGalleryItemDto): Promise<GalleryItem> {
+    this.logger.log(`Updating itemId=${itemId} by userId=${user.id}: ${JSON.stringify(updateDto)}`);
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+    if (!item) throw new NotFoundException('Gallery item not found');
+
+    const isAdminOrStaff = user.role === UserRole.Admin || user.role === UserRole.Staff;
+    if (!isAdminOrStaff) {
+      if (item.uploadedBy?.id !== user.id) throw new ForbiddenException('You can only edit your own items.');
+      if (item.moderationStatus !== ModerationStatus.Pending) {
+        throw new ForbiddenException(`Items can only be edited while pending review (status: ${item.moderationStatus}).`);
+      }
+    }
+
+    const tags = updateDto.tags !== undefined ? this.normalizeTags(updateDto.tags) : undefined;
+    const changes = this.galleryEditHistoryService.computeChanges(item, updateDto.caption, tags);
+    if (!this.galleryEditHistoryService.hasChanges(changes)) {
+      this.logger.log(`No changes for itemId=${itemId}`);
+      return item;
     }
-    const wasApproved = item.isApproved;
-    item.isApproved = approveDto.isApproved;
+
+    if (changes.caption) item.caption = changes.caption.to;
+    if (changes.tags) item.tags = changes.tags.to;
+    item.searchVector = [item.caption ?? '', ...item.tags].join(' ');
+
+    let savedItem: GalleryItem;
     try {
-      const savedItem = await this.galleryRepository.save(item);
-      this.logger.log(`Item approval state updated: id=${savedItem.id}, isApproved=${savedItem.isApproved}`);
-      if (savedItem.isApproved && !wasApproved) {
-        if (savedItem.uploadedBy?.id) {
-          if (savedItem.uploadedBy.id !== approver.id) {
-            this.logger.log(`Sending approval notification for item ${savedItem.id} to user ${savedItem.uploadedBy.id}`);
-            try {
-              await this.notificationsService.createNotification({
-                userId: savedItem.uploadedBy.id,
-                message: `Your gallery submission "${savedItem.caption || 'Untitled'}" has been approved!`,
-                type: NotificationType.Approval, referenceId: savedItem.id,
-              });
-            } catch (notificationError: any) {
-              this.logger.error(`Failed send approval notification item ${savedItem.id}: ${notificationError.message}`, notificationError.stack);
-            }
-          }
-        } else {
-          this.logger.warn(`Cannot send approval notification for item ${savedItem.id}: uploader missing.`);
-        }
-      }
-      return savedItem;
+      savedItem = await this.galleryRepository.save(item);
     } catch (error: any) {
-      this.logger.error(`Database error during approval: ${error.message}`, error.stack);
-      throw new InternalServerErrorException('Failed update approval status.');
+      this.logger.error(`Database error updating itemId=${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to update gallery item.');
     }
+    await this.galleryEditHistoryService.record(itemId, user.id, changes, GalleryItemEditSource.Edit);
+    return savedItem;
+  }
+
+  async getEditHistory(itemId: string): Promise<GalleryItemEdit[]> {
+    return this.galleryEditHistoryService.getHistory(itemId);
   }
 
   async getItems(filterDto: FilterDto = {}): Promise<GalleryItem[]> {
@@ -278,7 +332,7 @@ export class GalleryService {
     }
   }
 
-  async downloadFile(user: User, id: string): Promise<string> {
+  async downloadFile(user: User, id: string, req: express.Request, res: express.Response): Promise<StreamableFile | undefined> {
     this.logger.log(`Processing download request for itemId=${id} by userId=${user.id}`);
     const item = await this.galleryRepository.findOne({ where: { id }, relations: ['uploadedBy'] });
     if (!item) throw new NotFoundException('Gallery item not found');
@@ -290,25 +344,94 @@ export class GalleryService {
     await this.recordView(id);
 
     const filename = path.basename(item.fileUrl);
-    const filePath = path.join(process.cwd(), 'uploads', 'media', filename);
+    const serveOriginal = item.hasPrivateOriginal && this.hasRoleFromConfig(user, 'GALLERY_ORIGINAL_ACCESS_ROLES');
+    const key = serveOriginal ? `${this.ORIGINALS_PREFIX}/${filename}` : this.getMediaKey(item.fileUrl);
+    const visibility: StorageVisibility = serveOriginal ? 'private' : 'public';
 
     try {
-      await fsp.access(filePath);
-      this.logger.log(`Serving file for download: ${filePath}`);
-      return filePath;
+      const stream = await this.storageService.streamFile(req, res, key, visibility, {
+        contentType: item.mimeType || mime.lookup(filename) || 'application/octet-stream',
+        contentDisposition: `attachment; filename="${filename}"`,
+      });
+      this.logger.log(`Serving ${visibility} file for download: ${key}`);
+      return stream;
     } catch (error: any) { // Fix ESLint: Use 'error'
-      this.logger.error(`File not found on disk for itemId=${id} at path ${filePath}: ${error.message}`);
-      throw new InternalServerErrorException('File associated with this item is missing.');
+      if (error instanceof NotFoundException) {
+        this.logger.error(`File missing from storage for itemId=${id} at key ${key}`);
+        throw new InternalServerErrorException('File associated with this item is missing.');
+      }
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`Failed to stream file for itemId=${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Error downloading file.');
+    }
+  }
+
+  // Exact duplicates are rejected, or accepted and linked to the first copy when GALLERY_DUPLICATE_POLICY=flag.
+  // The same file twice within one bulk upload is always rejected, since there is no saved item to link to yet.
+  private async checkForDuplicate(file: Express.Multer.File, batchContentHashes?: Set<string>): Promise<Pick<GalleryItem, 'contentHash' | 'perceptualHash' | 'duplicateOfId'>> {
+    const hashes = await this.duplicateDetectionService.computeHashes(file);
+    if (batchContentHashes?.has(hashes.contentHash)) {
+      await this.discardStagedFile(file.path);
+      throw new ConflictException(`${file.originalname} appears more than once in this upload.`);
+    }
+    batchContentHashes?.add(hashes.contentHash);
+
+    const existing = await this.duplicateDetectionService.findExactDuplicate(hashes.contentHash);
+    if (existing && this.duplicateDetectionService.getDuplicatePolicy() === 'reject') {
+      this.logger.warn(`Rejected duplicate upload ${file.filename}: identical to item ${existing.id}`);
+      await this.discardStagedFile(file.path);
+      throw new ConflictException(`${file.originalname} has already been uploaded (gallery item ${existing.id}).`);
+    }
+    if (existing) this.logger.log(`Flagging ${file.filename} as a duplicate of item ${existing.id}`);
+    return { ...hashes, duplicateOfId: existing?.id ?? null };
+  }
+
+  // Runs the processing pipeline on the staged upload, then moves every output into storage.
+  // The media file is stored last so a failure part-way leaves no public media without its item.
+  private async storeUploadedFile(file: Express.Multer.File): Promise<DeepPartial<GalleryItem>> {
+    let thumbnailUrl: string | null = null;
+    try {
+      thumbnailUrl = await this.generateThumbnail(file);
+    } catch (error: any) {
+      this.logger.error(`Thumbnail generation failed for ${file.filename}, proceeding without: ${error.message}`, error.stack);
+    }
+
+    const metadataFields = await this.extractMetadataFields(file);
+    let hasPrivateOriginal: boolean;
+    try {
+      hasPrivateOriginal = await this.applyPrivacyStage(file);
+    } catch (error: any) {
+      if (thumbnailUrl) await this.deleteStoredFile(this.getThumbnailKey(thumbnailUrl), 'thumbnail');
+      await this.discardStagedFile(file.path);
+      throw error;
     }
+    const renditions = await this.imageRenditionsService.generate(file);
+
+    const mediaKey = `${this.MEDIA_PREFIX}/${file.filename}`;
+    try {
+      await this.storageService.moveFile(mediaKey, file.path, { visibility: 'public', contentType: file.mimetype });
+    } catch (error: any) {
+      this.logger.error(`Failed to store media ${mediaKey}: ${error.message}`, error.stack);
+      if (thumbnailUrl) await this.deleteStoredFile(this.getThumbnailKey(thumbnailUrl), 'thumbnail');
+      if (hasPrivateOriginal) await this.deleteStoredFile(`${this.ORIGINALS_PREFIX}/${file.filename}`, 'original', 'private');
+      await this.imageRenditionsService.deleteRenditions(renditions);
+      await this.discardStagedFile(file.path);
+      throw new InternalServerErrorException('Failed to store the uploaded file.');
+    }
+
+    return {
+      fileUrl: this.storageService.getPublicUrl(mediaKey),
+      thumbnailUrl: thumbnailUrl ?? undefined,
+      renditions,
+      ...metadataFields,
+      hasPrivateOriginal,
+    };
   }
 
   private async generateThumbnail(file: Express.Multer.File): Promise<string | null> {
     const startTime = Date.now();
     this.logger.log(`Generating HIGH QUALITY thumbnail for file=${file.filename} (type: ${file.mimetype})`); // Log change
 
-    const thumbnailDir = path.join(process.cwd(), 'uploads', 'thumbnails');
-    await fsp.mkdir(thumbnailDir, { recursive: true });
-
     const uniqueSuffix = Date.now();
     const baseName = path.basename(file.filename, path.extname(file.filename));
 
@@ -338,8 +461,8 @@ export class GalleryService {
 
 
     const thumbnailName = `thumb-${baseName}-${uniqueSuffix}.${ext}`;
-    const thumbnailPath = path.join(thumbnailDir, thumbnailName);
-    const thumbnailUrl = `/uploads/thumbnails/${thumbnailName}`;
+    const thumbnailPath = await this.storageService.createStagingPath(thumbnailName);
+    const thumbnailKey = `${this.THUMBNAIL_PREFIX}/${thumbnailName}`;
 
     try {
       if (file.mimetype.startsWith('image/')) {
@@ -387,14 +510,105 @@ export class GalleryService {
         });
       }
 
+      await this.storageService.moveFile(thumbnailKey, thumbnailPath, { visibility: 'public', contentType: mime.lookup(thumbnailName) || undefined });
+      const thumbnailUrl = this.storageService.getPublicUrl(thumbnailKey);
       this.logger.log(`HIGH QUALITY Thumbnail generated: ${thumbnailUrl}, duration=${Date.now() - startTime}ms`);
       return thumbnailUrl;
     } catch (error: any) {
       this.logger.error(`Thumbnail generation process failed for ${file.filename}: ${error.message}`, error.stack);
+      await this.discardStagedFile(thumbnailPath);
       return null;
     }
   }
 
+  private async extractMetadataFields(file: Express.Multer.File): Promise<Pick<GalleryItem, 'metadata' | 'capturedAt' | 'width' | 'height' | 'location'>> {
+    const extracted = await this.mediaMetadataService.extract(file.path, file.mimetype);
+    // GPS is kept in its own unselected column rather than the publicly returned metadata
+    const { gps, ...metadata } = extracted ?? { kind: 'image' as const };
+    return {
+      metadata: extracted ? metadata : null,
+      capturedAt: metadata.capturedAt ? new Date(metadata.capturedAt) : null,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      location: gps ?? null,
+    };
+  }
+
+  // Stores the untouched upload with private visibility and replaces the staged file with a
+  // sanitized copy. Images are re-encoded: orientation applied, all EXIF/XMP/IPTC dropped (GPS,
+  // serials, owner), ICC kept. Videos are remuxed without container and stream metadata, which
+  // drops QuickTime/MP4 location atoms along with device and creation tags.
+  private async applyPrivacyStage(file: Express.Multer.File): Promise<boolean> {
+    const isVideo = file.mimetype.startsWith('video/');
+    if (!isVideo && !this.SANITIZABLE_IMAGE_TYPES.includes(file.mimetype)) return false;
+    const startTime = Date.now();
+    const originalKey = `${this.ORIGINALS_PREFIX}/${file.filename}`;
+    const sanitizedPath = await this.storageService.createStagingPath(`sanitized-${file.filename}`);
+
+    try {
+      await this.storageService.putFile(originalKey, file.path, { visibility: 'private', contentType: file.mimetype });
+      if (isVideo) {
+        await this.stripVideoMetadata(file.path, sanitizedPath);
+      } else {
+        await sharp(file.path).rotate().keepIccProfile().toFile(sanitizedPath);
+      }
+      await this.discardStagedFile(file.path);
+      file.path = sanitizedPath;
+      this.logger.log(`Wrote sanitized public copy of ${file.filename}, duration=${Date.now() - startTime}ms`);
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Failed to sanitize ${file.filename}: ${error.message}`, error.stack);
+      await this.discardStagedFile(sanitizedPath);
+      await this.deleteStoredFile(originalKey, 'original', 'private');
+      throw new BadRequestException(`The uploaded ${isVideo ? 'video' : 'image'} could not be processed.`);
+    }
+  }
+
+  // Stream copy, so quality is untouched; the default stream selection also leaves out data tracks
+  private stripVideoMetadata(sourcePath: string, outputPath: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      ffmpeg(sourcePath)
+        .outputOptions(['-map_metadata', '-1', '-map_chapters', '-1', '-c', 'copy'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+  }
+
+  // Staged files of a request that fails here are discarded, as on any other rejection
+  async resolveEventId(eventId?: string, stagedFiles: Express.Multer.File[] = []): Promise<string | null> {
+    if (!eventId) return null;
+    const exists = await this.eventRepository.exists({ where: { id: eventId } });
+    if (!exists) {
+      await Promise.all(stagedFiles.map(file => this.discardStagedFile(file.path)));
+      throw new BadRequestException(`Event not found: ${eventId}`);
+    }
+    return eventId;
+  }
+
+  private resolveKeepLocation(user: User, requested?: boolean): boolean {
+    if (!requested) return false;
+    if (this.hasRoleFromConfig(user, 'GALLERY_KEEP_LOCATION_ROLES')) return true;
+    this.logger.warn(`Ignoring keepLocation request from userId=${user.id} (role ${user.role} not permitted)`);
+    return false;
+  }
+
+  // Role lists are comma-separated in config, e.g. GALLERY_ORIGINAL_ACCESS_ROLES=Admin,Staff
+  private hasRoleFromConfig(user: User, configKey: 'GALLERY_ORIGINAL_ACCESS_ROLES' | 'GALLERY_KEEP_LOCATION_ROLES'): boolean {
+    const roles = this.configService.get<string>(configKey, `${UserRole.Admin},${UserRole.Staff}`)
+      .split(',').map(role => role.trim()).filter(Boolean);
+    return roles.includes(user.role);
+  }
+
+  private getMediaKey(fileUrl: string): string {
+    return `${this.MEDIA_PREFIX}/${path.basename(fileUrl)}`;
+  }
+
+  private getThumbnailKey(thumbnailUrl: string): string {
+    return `${this.THUMBNAIL_PREFIX}/${path.basename(thumbnailUrl)}`;
+  }
+
   private normalizeTags(tagsInput: string[] | string | undefined): string[] {
     this.logger.debug(`Normalizing tags input: ${JSON.stringify(tagsInput)}`);
     if (!tagsInput) return [];
@@ -418,10 +632,86 @@ export class GalleryService {
     const isAdminOrStaff = user?.role === UserRole.Admin || user?.role === UserRole.Staff;
     const isUploader = user?.id === item.uploadedBy?.id;
     if (!item.isApproved && !isAdminOrStaff && !isUploader) throw new ForbiddenException('Access denied.');
+
+    const canSeeLocation = (user && this.hasRoleFromConfig(user, 'GALLERY_ORIGINAL_ACCESS_ROLES')) || (item.keepLocation && item.isApproved);
+    if (canSeeLocation) {
+      const withLocation = await this.galleryRepository.findOne({ where: { id: itemId }, select: ['id', 'location'] });
+      item.location = withLocation?.location ?? null;
+    }
     this.logger.log(`Retrieved details for itemId=${itemId}`);
     return item;
   }
 
+  // Public: only approved items are served, so the URL can be used directly in <img srcset>
+  async getImageRendition(itemId: string, renditionDto: ImageRenditionDto, acceptHeader: string | undefined, res: express.Response): Promise<StreamableFile> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId, isApproved: true } });
+    if (!item) throw new NotFoundException(`Item ${itemId} not found.`);
+    if (!item.renditions) throw new NotFoundException(`Item ${itemId} has no image renditions.`);
+
+    const format = renditionDto.format ?? this.negotiateRenditionFormat(acceptHeader);
+    const rendition = this.imageRenditionsService.pickRendition(item.renditions, renditionDto.w, format)
+      ?? this.imageRenditionsService.pickRendition(item.renditions, renditionDto.w, RenditionFormat.Jpeg);
+    if (!rendition) throw new NotFoundException(`No ${format} rendition available for item ${itemId}.`);
+
+    const key = this.imageRenditionsService.getRenditionKey(rendition.url);
+    try {
+      const stats = await this.storageService.stat(key, 'public');
+      if (!stats) {
+        this.logger.warn(`Rendition file missing for item ${itemId}: ${key}`);
+        throw new NotFoundException('Image rendition not found.');
+      }
+      const maxAge = this.configService.get<number>('GALLERY_RENDITION_MAX_AGE', 7 * 24 * 60 * 60);
+      res.set({
+        'Content-Type': mime.lookup(key) || 'application/octet-stream',
+        'Content-Length': stats.size.toString(),
+        'Cache-Control': `public, max-age=${maxAge}`,
+        'Last-Modified': stats.lastModified.toUTCString(),
+        'Vary': 'Accept', // Response depends on Accept when no explicit format is requested
+        'X-Rendition-Width': rendition.width.toString(),
+      });
+      return new StreamableFile(await this.storageService.createReadStream(key, 'public'));
+    } catch (error: any) {
+      if (error instanceof NotFoundException) throw error;
+      this.logger.error(`Error streaming rendition for item ${itemId}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not retrieve the image rendition.');
+    }
+  }
+
+  // Serves the HLS master playlist, variant playlists and segments; playlists reference siblings relatively
+  async getHlsFile(itemId: string, fileName: string, res: express.Response): Promise<StreamableFile> {
+    if (!/^[\w-]+\.(m3u8|ts)$/.test(fileName)) throw new BadRequestException('Invalid HLS file name.');
+    const item = await this.galleryRepository.findOne({ where: { id: itemId, isApproved: true } });
+    if (!item) throw new NotFoundException(`Item ${itemId} not found.`);
+    if (item.transcodeStatus !== TranscodeStatus.Ready) throw new NotFoundException(`Item ${itemId} has no stream available.`);
+
+    const key = `${this.videoTranscodingService.getOutputKey(item.id)}/hls/${fileName}`;
+    try {
+      const stats = await this.storageService.stat(key, 'public');
+      if (!stats) throw new NotFoundException('Stream file not found.');
+      const isPlaylist = fileName.endsWith('.m3u8');
+      res.set({
+        'Content-Type': isPlaylist ? 'application/vnd.apple.mpegurl' : 'video/mp2t',
+        'Content-Length': stats.size.toString(),
+        'Cache-Control': isPlaylist ? 'public, max-age=60' : 'public, max-age=31536000, immutable',
+      });
+      return new StreamableFile(await this.storageService.createReadStream(key, 'public'));
+    } catch (error: any) {
+      if (error instanceof NotFoundException) throw error;
+      this.logger.error(`Error streaming HLS file ${key}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not retrieve the stream file.');
+    }
+  }
+
+  private initialTranscodeStatus(file: Express.Multer.File): TranscodeStatus {
+    return file.mimetype.startsWith('video/') ? TranscodeStatus.Pending : TranscodeStatus.NotRequired;
+  }
+
+  private negotiateRenditionFormat(acceptHeader: string | undefined): RenditionFormat {
+    if (acceptHeader?.includes('image/avif')) return RenditionFormat.Avif;
+    if (acceptHeader?.includes('image/webp')) return RenditionFormat.Webp;
+    return RenditionFormat.Jpeg;
+  }
+
   async recordView(itemId: string): Promise<void> {
     this.logger.debug(`Recording view for approved itemId=${itemId}`);
     try {
@@ -433,6 +723,7 @@ export class GalleryService {
     }
   }
 
+  // Moves the item to the trash; files are only removed when the trash is purged (see TrashService)
   async deleteItem(itemId: string, user: User): Promise<boolean> {
     this.logger.log(`Attempting delete itemId=${itemId} by userId=${user.id}`);
     const item = await this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
@@ -444,19 +735,12 @@ export class GalleryService {
       throw new ForbiddenException('Permission denied to delete this item.');
     }
 
-    // Construct paths BEFORE deleting DB record
-    const mediaFilePath = item.fileUrl ? path.join(process.cwd(), 'uploads', 'media', path.basename(item.fileUrl)) : null;
-    const thumbFilePath = item.thumbnailUrl ? path.join(process.cwd(), 'uploads', 'thumbnails', path.basename(item.thumbnailUrl)) : null;
-
     try {
-      const deleteResult = await this.galleryRepository.delete({ id: itemId });
+      await this.galleryRepository.update({ id: itemId }, { deletedById: user.id });
+      const deleteResult = await this.galleryRepository.softDelete({ id: itemId });
       if (deleteResult.affected === 0) throw new InternalServerErrorException('DB delete failed.');
-      this.logger.log(`Deleted DB record for itemId=${itemId}`);
-
-      // Attempt file cleanup after successful DB deletion
-      if (mediaFilePath) this.deleteFileOnDisk(mediaFilePath, 'media');
-      if (thumbFilePath) this.deleteFileOnDisk(thumbFilePath, 'thumbnail');
-
+      this.logger.log(`Moved itemId=${itemId} to the trash`);
+      await this.setItemFilesVisibility(item, 'public', 'private');
       return true;
     } catch (error: any) { // Fix ESLint: Use 'error'
       if (error instanceof ForbiddenException || error instanceof NotFoundException || error instanceof InternalServerErrorException) throw error;
@@ -465,14 +749,93 @@ export class GalleryService {
     }
   }
 
-  private async deleteFileOnDisk(filePath: string, fileType: string): Promise<void> {
+  async restoreItem(itemId: string): Promise<GalleryItem> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, withDeleted: true });
+    if (!item?.deletedAt) throw new NotFoundException(`Item ${itemId} is not in the trash.`);
     try {
-      await fsp.access(filePath);
-      await fsp.unlink(filePath);
-      this.logger.log(`Deleted ${fileType} file: ${filePath}`);
+      await this.galleryRepository.restore({ id: itemId });
+      await this.galleryRepository.update({ id: itemId }, { deletedById: null });
+    } catch (error: any) {
+      this.logger.error(`Restore of itemId=${itemId} failed: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to restore gallery item.');
+    }
+    this.logger.log(`Restored itemId=${itemId} from the trash`);
+    await this.setItemFilesVisibility(item, 'private', 'public');
+    return this.galleryRepository.findOne({ where: { id: itemId }, relations: ['uploadedBy'] });
+  }
+
+  // Permanently removes a trashed item and its files; only reachable through the trash
+  async purgeItem(itemId: string): Promise<void> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId }, withDeleted: true });
+    if (!item?.deletedAt) throw new NotFoundException(`Item ${itemId} is not in the trash.`);
+
+    // Construct storage keys BEFORE deleting DB record
+    const mediaKey = item.fileUrl ? this.getMediaKey(item.fileUrl) : null;
+    const thumbnailKey = item.thumbnailUrl ? this.getThumbnailKey(item.thumbnailUrl) : null;
+    const originalKey = item.hasPrivateOriginal ? `${this.ORIGINALS_PREFIX}/${path.basename(item.fileUrl)}` : null;
+
+    try {
+      await this.galleryRepository.delete({ id: itemId });
+    } catch (error: any) {
+      this.logger.error(`Purge of itemId=${itemId} failed: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to purge gallery item.');
+    }
+    this.logger.log(`Purged DB record for itemId=${itemId}`);
+
+    // File cleanup after successful DB deletion; the files of trashed items are all private
+    await Promise.all([
+      mediaKey ? this.deleteStoredFile(mediaKey, 'media', 'private') : undefined,
+      thumbnailKey ? this.deleteStoredFile(thumbnailKey, 'thumbnail', 'private') : undefined,
+      originalKey ? this.deleteStoredFile(originalKey, 'original', 'private') : undefined,
+      this.imageRenditionsService.deleteRenditions(item.renditions, 'private'),
+      item.transcodeStatus !== TranscodeStatus.NotRequired ? this.videoTranscodingService.deleteOutputs(item.id, 'private') : undefined,
+    ]);
+  }
+
+  // Trashed items must not stay reachable through public URLs, so their public files are moved
+  // to private storage until the item is restored. Originals are always private.
+  private async setItemFilesVisibility(item: GalleryItem, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    const keys = [item.fileUrl ? this.getMediaKey(item.fileUrl) : null, item.thumbnailUrl ? this.getThumbnailKey(item.thumbnailUrl) : null];
+    for (const key of keys.filter((key): key is string => !!key)) {
+      try {
+        await this.storageService.setVisibility(key, from, to);
+      } catch (err: any) {
+        this.logger.error(`Failed to make file ${key} ${to} for itemId=${item.id}: ${err.message}`);
+      }
+    }
+    await this.imageRenditionsService.setRenditionsVisibility(item.renditions, from, to);
+    if (item.transcodeStatus !== TranscodeStatus.NotRequired) {
+      await this.videoTranscodingService.setOutputsVisibility(item.id, from, to);
+    }
+    this.logger.log(`Moved files of itemId=${item.id} to ${to} storage`);
+  }
+
+  // Removes everything storeUploadedFile wrote for an upload whose item could not be saved
+  private async discardStoredUpload(storedFields: DeepPartial<GalleryItem>): Promise<void> {
+    if (storedFields.fileUrl) {
+      await this.deleteStoredFile(this.getMediaKey(storedFields.fileUrl), 'media');
+      if (storedFields.hasPrivateOriginal) {
+        await this.deleteStoredFile(`${this.ORIGINALS_PREFIX}/${path.basename(storedFields.fileUrl)}`, 'original', 'private');
+      }
+    }
+    if (storedFields.thumbnailUrl) await this.deleteStoredFile(this.getThumbnailKey(storedFields.thumbnailUrl), 'thumbnail');
+    await this.imageRenditionsService.deleteRenditions((storedFields.renditions ?? null) as GalleryItem['renditions']);
+  }
+
+  private async deleteStoredFile(key: string, fileType: string, visibility: StorageVisibility = 'public'): Promise<void> {
+    try {
+      await this.storageService.delete(key, visibility);
+      this.logger.log(`Deleted ${fileType} file: ${key}`);
     } catch (err: any) { // Fix ESLint: Use 'err'
-      if (err.code !== 'ENOENT') this.logger.error(`Failed delete ${fileType} file ${filePath}: ${err.message}`);
-      else this.logger.warn(`${fileType} file not found (already deleted?): ${filePath}`);
+      this.logger.error(`Failed delete ${fileType} file ${key}: ${err.message}`);
+    }
+  }
+
+  private async discardStagedFile(filePath: string): Promise<void> {
+    try {
+      await fsp.unlink(filePath);
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') this.logger.warn(`Failed to remove staged file ${filePath}: ${err.message}`);
     }
   }
 
@@ -522,6 +885,15 @@ export class GalleryService {
     this.logger.log(`Sent/attempted bulk upload notifications to ${adminsAndStaff.length} admins/staff.`);
   }
 
+  // --- Helper Method: Tell the uploader which files of a partly successful bulk upload were skipped ---
+  private async notifyUploaderOfRejections(uploader: User, rejections: string[]): Promise<void> {
+    await this.notificationsService.createNotification({
+      userId: uploader.id,
+      message: `${rejections.length} file(s) from your bulk upload were not added: ${rejections.join(' ')}`,
+      type: NotificationType.UploadRejected,
+    });
+  }
+
   // --- Helper Method: Find Admin/Staff Users ---
   private async findAdminsAndStaff(): Promise<Pick<User, 'id'>[]> {
     try {
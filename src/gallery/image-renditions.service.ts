@@ -0,0 +1,121 @@
+// src/gallery/image-renditions.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import sharp from 'sharp';
+import * as path from 'path';
+import * as fsp from 'fs/promises';
+import { RenditionFormat, RenditionMap } from './interfaces/image-rendition.interface';
+import { StorageService } from '../common/storage/storage.service';
+import { StorageVisibility } from '../common/storage/storage-driver.interface';
+
+@Injectable()
+export class ImageRenditionsService {
+  private readonly logger = new Logger(ImageRenditionsService.name);
+  private readonly RENDITIONS_PREFIX = 'renditions';
+  private readonly RENDERABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/avif', 'image/heic', 'image/heif', 'image/gif', 'image/bmp'];
+  private readonly FILE_EXTENSIONS: Record<RenditionFormat, string> = {
+    [RenditionFormat.Avif]: 'avif',
+    [RenditionFormat.Webp]: 'webp',
+    [RenditionFormat.Jpeg]: 'jpg',
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  // Never throws: an item without renditions still has its original file
+  async generate(file: Express.Multer.File): Promise<RenditionMap | null> {
+    if (!this.RENDERABLE_IMAGE_TYPES.includes(file.mimetype)) return null;
+    const startTime = Date.now();
+    const baseName = path.basename(file.filename, path.extname(file.filename));
+    const renditions: RenditionMap = {};
+
+    try {
+      const info = await sharp(file.path).metadata();
+      const sourceWidth = ((info.orientation ?? 1) >= 5 ? info.height : info.width) ?? 0;
+      if (!sourceWidth) return null;
+
+      // Never upscale: widths beyond the source collapse into one rendition at the source width
+      const widths = [...new Set(this.getConfiguredWidths().map(width => Math.min(width, sourceWidth)))];
+      for (const width of widths) {
+        renditions[width] = {};
+        for (const format of this.getConfiguredFormats()) {
+          const fileName = `${baseName}-${width}.${this.FILE_EXTENSIONS[format]}`;
+          const stagedPath = await this.storageService.createStagingPath(fileName);
+          try {
+            await sharp(file.path)
+              .rotate()
+              .resize({ width, withoutEnlargement: true })
+              .toFormat(format, { quality: format === RenditionFormat.Avif ? 50 : 80 })
+              .toFile(stagedPath);
+            await this.storageService.moveFile(`${this.RENDITIONS_PREFIX}/${fileName}`, stagedPath, { visibility: 'public', contentType: `image/${format}` });
+          } finally {
+            await fsp.rm(stagedPath, { force: true });
+          }
+          renditions[width][format] = this.storageService.getPublicUrl(`${this.RENDITIONS_PREFIX}/${fileName}`);
+        }
+      }
+      this.logger.log(`Generated ${widths.length} rendition sizes for ${file.filename}, duration=${Date.now() - startTime}ms`);
+      return renditions;
+    } catch (error: any) {
+      this.logger.error(`Rendition generation failed for ${file.filename}: ${error.message}`, error.stack);
+      await this.deleteRenditions(renditions);
+      return null;
+    }
+  }
+
+  // Smallest rendition at least as wide as requested, falling back to the largest available
+  pickRendition(renditions: RenditionMap, requestedWidth: number | undefined, format: RenditionFormat): { width: number; url: string } | null {
+    const candidates = Object.entries(renditions)
+      .flatMap(([width, formats]) => {
+        const url = formats[format];
+        return url ? [{ width: Number(width), url }] : [];
+      })
+      .sort((a, b) => a.width - b.width);
+    if (candidates.length === 0) return null;
+    if (!requestedWidth) return candidates[candidates.length - 1];
+    return candidates.find(candidate => candidate.width >= requestedWidth) ?? candidates[candidates.length - 1];
+  }
+
+  getRenditionKey(url: string): string {
+    return `${this.RENDITIONS_PREFIX}/${path.basename(url)}`;
+  }
+
+  async deleteRenditions(renditions: RenditionMap | null, visibility: StorageVisibility = 'public'): Promise<void> {
+    if (!renditions) return;
+    const urls = Object.values(renditions).flatMap(formats => Object.values(formats));
+    for (const url of urls) {
+      try {
+        await this.storageService.delete(this.getRenditionKey(url), visibility);
+      } catch (err: any) {
+        this.logger.error(`Failed delete rendition ${url}: ${err.message}`);
+      }
+    }
+  }
+  async setRenditionsVisibility(renditions: RenditionMap | null, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    if (!renditions) return;
+    const urls = Object.values(renditions).flatMap(formats => Object.values(formats));
+    for (const url of urls) {
+      try {
+        await this.storageService.setVisibility(this.getRenditionKey(url), from, to);
+      } catch (err: any) {
+        this.logger.error(`Failed to make rendition ${url} ${to}: ${err.message}`);
+      }
+    }
+  }
+
+
+  private getConfiguredWidths(): number[] {
+    return this.configService.get<string>('GALLERY_RENDITION_WIDTHS', '200,800,1600')
+      .split(',').map(width => parseInt(width.trim(), 10)).filter(width => width > 0);
+  }
+
+  private getConfiguredFormats(): RenditionFormat[] {
+    const allowed = Object.values(RenditionFormat) as string[];
+    const formats = this.configService.get<string>('GALLERY_RENDITION_FORMATS', 'webp,avif,jpeg')
+      .split(',').map(format => format.trim().toLowerCase()).filter(format => allowed.includes(format)) as RenditionFormat[];
+    // JPEG is always produced as the universal fallback
+    return formats.includes(RenditionFormat.Jpeg) ? formats : [...formats, RenditionFormat.Jpeg];
+  }
+}
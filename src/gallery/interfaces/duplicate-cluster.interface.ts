@@ -0,0 +1,21 @@
+// src/gallery/interfaces/duplicate-cluster.interface.ts
+import { GalleryItem } from '../entities/gallery.entity';
+
+export interface MediaHashes {
+  contentHash: string;
+  perceptualHash: string | null;
+}
+
+export interface DuplicateCluster {
+  size: number;
+  hasExactDuplicates: boolean; // At least two items share a content hash
+  items: GalleryItem[];
+}
+
+export interface PaginatedDuplicateClusters {
+  clusters: DuplicateCluster[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
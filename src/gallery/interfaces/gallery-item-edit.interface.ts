@@ -0,0 +1,11 @@
+// src/gallery/interfaces/gallery-item-edit.interface.ts
+
+export interface FieldChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface GalleryItemChanges {
+  caption?: FieldChange<string>;
+  tags?: FieldChange<string[]>;
+}
@@ -0,0 +1,10 @@
+// src/gallery/interfaces/image-rendition.interface.ts
+
+export enum RenditionFormat {
+  Avif = 'avif',
+  Webp = 'webp',
+  Jpeg = 'jpeg',
+}
+
+// Keyed by actual output width in px, then format, e.g. { "800": { "webp": "/uploads/renditions/x-800.webp" } (public storage URLs) }
+export type RenditionMap = Record<string, Partial<Record<RenditionFormat, string>>>;
@@ -0,0 +1,31 @@
+// src/gallery/interfaces/media-metadata.interface.ts
+
+export interface MediaGpsMetadata {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface MediaMetadata {
+  kind: 'image' | 'video';
+  format?: string;
+  width?: number; // Display width, after applying EXIF orientation
+  height?: number;
+  orientation?: number;
+  capturedAt?: string; // ISO 8601
+  // Image (EXIF)
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  gps?: MediaGpsMetadata;
+  // Video (ffprobe)
+  durationSeconds?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number; // Bits per second
+  frameRate?: number;
+}
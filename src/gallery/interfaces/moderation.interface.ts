@@ -0,0 +1,12 @@
+// src/gallery/interfaces/moderation.interface.ts
+import { GalleryItem } from '../entities/gallery.entity';
+
+export interface BatchModerationFailure {
+  id: string;
+  error: string;
+}
+
+export interface BatchModerationResult {
+  updated: GalleryItem[];
+  failed: BatchModerationFailure[];
+}
@@ -0,0 +1,130 @@
+// src/gallery/media-metadata.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import ffmpeg from 'fluent-ffmpeg';
+import * as ffprobeStatic from 'ffprobe-static';
+import { MediaMetadata, MediaGpsMetadata } from './interfaces/media-metadata.interface';
+
+ffmpeg.setFfprobePath(ffprobeStatic.path);
+
+@Injectable()
+export class MediaMetadataService {
+  private readonly logger = new Logger(MediaMetadataService.name);
+
+  // Never throws: a file we cannot read metadata from is still a valid upload
+  async extract(filePath: string, mimeType: string): Promise<MediaMetadata | null> {
+    const startTime = Date.now();
+    try {
+      let metadata: MediaMetadata | null = null;
+      if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') {
+        metadata = await this.extractImageMetadata(filePath);
+      } else if (mimeType.startsWith('video/')) {
+        metadata = await this.extractVideoMetadata(filePath);
+      }
+      if (metadata) {
+        this.logger.log(`Extracted ${metadata.kind} metadata for ${filePath}, duration=${Date.now() - startTime}ms`);
+      }
+      return metadata;
+    } catch (error: any) {
+      this.logger.warn(`Metadata extraction failed for ${filePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async extractImageMetadata(filePath: string): Promise<MediaMetadata> {
+    const info = await sharp(filePath).metadata();
+    // Orientations 5-8 are rotated by 90 degrees, so the displayed dimensions are swapped
+    const isRotated = (info.orientation ?? 1) >= 5;
+    const metadata: MediaMetadata = {
+      kind: 'image',
+      format: info.format,
+      width: isRotated ? info.height : info.width,
+      height: isRotated ? info.width : info.height,
+      orientation: info.orientation,
+    };
+    if (!info.exif) return metadata;
+
+    try {
+      const exif = exifReader(info.exif);
+      const capturedAt = exif.Photo?.DateTimeOriginal ?? exif.Photo?.DateTimeDigitized ?? exif.Image?.DateTime;
+      if (capturedAt instanceof Date && !isNaN(capturedAt.getTime())) {
+        metadata.capturedAt = capturedAt.toISOString();
+      }
+      metadata.cameraMake = this.cleanString(exif.Image?.Make);
+      metadata.cameraModel = this.cleanString(exif.Image?.Model);
+      metadata.lensModel = this.cleanString(exif.Photo?.LensModel);
+      metadata.exposureTime = exif.Photo?.ExposureTime;
+      metadata.fNumber = exif.Photo?.FNumber;
+      metadata.iso = exif.Photo?.ISOSpeedRatings;
+      metadata.focalLength = exif.Photo?.FocalLength;
+      metadata.gps = this.parseGps(exif.GPSInfo);
+    } catch (error: any) {
+      this.logger.warn(`Unreadable EXIF block in ${filePath}: ${error.message}`);
+    }
+    return metadata;
+  }
+
+  private async extractVideoMetadata(filePath: string): Promise<MediaMetadata> {
+    const data = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err, probeData) => {
+        if (err) reject(err instanceof Error ? err : new Error(String(err)));
+        else resolve(probeData);
+      });
+    });
+    const videoStream = data.streams.find(stream => stream.codec_type === 'video');
+    const audioStream = data.streams.find(stream => stream.codec_type === 'audio');
+    const rotation = Math.abs(Number(videoStream?.tags?.rotate ?? 0));
+    const isRotated = rotation === 90 || rotation === 270;
+
+    const metadata: MediaMetadata = {
+      kind: 'video',
+      format: data.format.format_name,
+      width: isRotated ? videoStream?.height : videoStream?.width,
+      height: isRotated ? videoStream?.width : videoStream?.height,
+      durationSeconds: this.toNumber(data.format.duration),
+      videoCodec: videoStream?.codec_name,
+      audioCodec: audioStream?.codec_name,
+      bitrate: this.toNumber(data.format.bit_rate),
+      frameRate: this.parseFrameRate(videoStream?.avg_frame_rate ?? videoStream?.r_frame_rate),
+    };
+
+    const creationTime = data.format.tags?.creation_time ?? videoStream?.tags?.creation_time;
+    if (creationTime) {
+      const capturedAt = new Date(String(creationTime));
+      if (!isNaN(capturedAt.getTime())) metadata.capturedAt = capturedAt.toISOString();
+    }
+    return metadata;
+  }
+
+  private parseGps(gpsInfo?: Partial<exifReader.GPSInfoTags>): MediaGpsMetadata | undefined {
+    if (!gpsInfo?.GPSLatitude || !gpsInfo.GPSLongitude) return undefined;
+    const toDecimal = ([degrees = 0, minutes = 0, seconds = 0]: number[]) => degrees + minutes / 60 + seconds / 3600;
+    const latitude = toDecimal(gpsInfo.GPSLatitude) * (gpsInfo.GPSLatitudeRef === 'S' ? -1 : 1);
+    const longitude = toDecimal(gpsInfo.GPSLongitude) * (gpsInfo.GPSLongitudeRef === 'W' ? -1 : 1);
+    if (!isFinite(latitude) || !isFinite(longitude)) return undefined;
+    return {
+      latitude: Number(latitude.toFixed(6)),
+      longitude: Number(longitude.toFixed(6)),
+      altitude: gpsInfo.GPSAltitude,
+    };
+  }
+
+  // ffprobe reports frame rates as fractions, e.g. "30000/1001"
+  private parseFrameRate(rate?: string): number | undefined {
+    if (!rate) return undefined;
+    const [numerator, denominator] = rate.split('/').map(Number);
+    if (!numerator || !denominator) return undefined;
+    return Number((numerator / denominator).toFixed(3));
+  }
+
+  private toNumber(value: unknown): number | undefined {
+    const parsed = Number(value);
+    return isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  }
+
+  private cleanString(value?: string): string | undefined {
+    const cleaned = value?.replace(/\0/g, '').trim();
+    return cleaned || undefined;
+  }
+}
@@ -0,0 +1,111 @@
+// src/gallery/upload-sessions.controller.ts
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  UseGuards,
+  Req,
+  Res,
+  Body,
+  Param,
+  Headers,
+  Logger,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import * as express from 'express';
+import { UploadSessionsService, UploadSessionState } from './upload-sessions.service';
+import { GallerySearchService } from './gallery-search.service';
+import { User } from '../auth/entities/user.entity';
+import { GalleryItem } from './entities/gallery.entity';
+import { InitUploadDto } from './dto/init-upload.dto';
+import { JwtAuthGuard } from '../auth/wt-auth.guard';
+import { ApiResponse } from '../common/interfaces/api-response.interface';
+
+/**
+ * Resumable upload protocol:
+ *   POST   /gallery/uploads               -> create a session, returns id and chunkSize
+ *   PATCH  /gallery/uploads/:id           -> raw chunk body, `Upload-Offset` header = bytes already received
+ *   GET    /gallery/uploads/:id           -> current offset, for resuming after a disconnect
+ *   POST   /gallery/uploads/:id/complete  -> assemble and run the normal gallery upload pipeline
+ *   DELETE /gallery/uploads/:id           -> cancel
+ */
+@Controller('gallery/uploads')
+@UseGuards(JwtAuthGuard)
+export class UploadSessionsController {
+  private readonly logger = new Logger(UploadSessionsController.name);
+
+  constructor(
+    private uploadSessionsService: UploadSessionsService,
+    private searchService: GallerySearchService,
+  ) {
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createSession(
+    @Req() req: express.Request & { user: User },
+    @Body() initDto: InitUploadDto,
+  ): Promise<ApiResponse<UploadSessionState>> {
+    this.logger.log(`Create upload session request by userId=${req.user.id}`);
+    const session = await this.uploadSessionsService.createSession(req, initDto);
+    return { message: 'Upload session created successfully.', data: session };
+  }
+
+  @Get(':id')
+  async getSession(
+    @Param('id', ParseUUIDPipe) sessionId: string,
+    @Req() req: express.Request & { user: User },
+    @Res({ passthrough: true }) res: express.Response,
+  ): Promise<ApiResponse<UploadSessionState>> {
+    const session = await this.uploadSessionsService.getSession(req, sessionId);
+    res.set('Upload-Offset', session.receivedBytes.toString());
+    return { message: 'Upload session fetched successfully.', data: session };
+  }
+
+  @Patch(':id')
+  async appendChunk(
+    @Param('id', ParseUUIDPipe) sessionId: string,
+    @Headers('upload-offset') offsetHeader: string | undefined,
+    @Req() req: express.Request & { user: User },
+    @Res({ passthrough: true }) res: express.Response,
+  ): Promise<ApiResponse<UploadSessionState>> {
+    const offset = Number(offsetHeader);
+    if (offsetHeader === undefined || !Number.isInteger(offset) || offset < 0) {
+      throw new BadRequestException('Upload-Offset header must be a non-negative integer.');
+    }
+    const session = await this.uploadSessionsService.appendChunk(req, sessionId, offset);
+    res.set('Upload-Offset', session.receivedBytes.toString());
+    return { message: 'Chunk received.', data: session };
+  }
+
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.CREATED)
+  async completeSession(
+    @Param('id', ParseUUIDPipe) sessionId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<GalleryItem>> {
+    this.logger.log(`Complete upload session ${sessionId} by userId=${req.user.id}`);
+    const item = await this.uploadSessionsService.completeSession(req, sessionId);
+    try {
+      await this.searchService.clearCache('search:*');
+    } catch (err) {
+      this.logger.warn(`Failed to clear cache: ${(err as Error).message}`);
+    }
+    return { message: 'Upload completed successfully.', data: item };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async abortSession(
+    @Param('id', ParseUUIDPipe) sessionId: string,
+    @Req() req: express.Request & { user: User },
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    await this.uploadSessionsService.abortSession(req, sessionId);
+    return { message: 'Upload cancelled.', data: { success: true } };
+  }
+}
@@ -0,0 +1,325 @@
+// src/gallery/upload-sessions.service.ts
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  PayloadTooLargeException,
+  InternalServerErrorException,
+  UnsupportedMediaTypeException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { UploadSession, UploadSessionStatus } from './entities/upload-session.entity';
+import { GalleryItem } from './entities/gallery.entity';
+import { InitUploadDto } from './dto/init-upload.dto';
+import { GalleryService } from './gallery.service';
+import { StorageService } from '../common/storage/storage.service';
+import { AuthenticatedRequest } from '../common/interfaces/authenticated-request.interface';
+import { isMimeTypeAllowed } from '../common/upload-validation/upload-allow-lists';
+
+export interface UploadSessionState {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  receivedBytes: number;
+  chunkSize: number; // Largest chunk the server accepts per request
+  status: UploadSessionStatus;
+  galleryItemId: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * Resumable uploads: a session is created up front, chunks are appended at the offset the server
+ * reports, and the assembled file is handed to GalleryService.uploadFile on completion.
+ * Partial files live in the local staging directory, which must survive restarts for resumes to work.
+ */
+@Injectable()
+export class UploadSessionsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadSessionsService.name);
+  private readonly CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+  private readonly MAX_ACTIVE_SESSIONS_PER_USER = 10;
+
+  // Sessions with a chunk write or completion in progress; a second concurrent request is rejected
+  private readonly busySessions = new Set<string>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(UploadSession)
+    private readonly uploadSessionRepository: Repository<UploadSession>,
+    private readonly galleryService: GalleryService,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredSessions().catch(error => this.logger.error(`Upload session cleanup failed: ${error.message}`, error.stack));
+    }, this.CLEANUP_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+  }
+
+  async createSession(req: AuthenticatedRequest, initDto: InitUploadDto): Promise<UploadSessionState> {
+    const user = req.user;
+    this.logger.log(`Creating upload session for userId=${user.id}: ${initDto.fileName} (${initDto.size} bytes, ${initDto.mimeType})`);
+    if (!isMimeTypeAllowed('gallery', initDto.mimeType)) {
+      throw new BadRequestException(`File type ${initDto.mimeType} is not allowed for gallery uploads.`);
+    }
+    // Checked now rather than after the whole file has been sent
+    await this.galleryService.resolveEventId(initDto.eventId);
+    const activeSessions = await this.uploadSessionRepository.count({ where: { ownerId: user.id, status: UploadSessionStatus.Active } });
+    if (activeSessions >= this.MAX_ACTIVE_SESSIONS_PER_USER) {
+      throw new BadRequestException(`You already have ${activeSessions} uploads in progress. Complete or cancel one first.`);
+    }
+
+    const session = this.uploadSessionRepository.create({
+      ownerId: user.id,
+      fileName: path.basename(initDto.fileName),
+      mimeType: initDto.mimeType,
+      totalSize: initDto.size.toString(),
+      receivedBytes: '0',
+      caption: initDto.caption ?? null,
+      tags: initDto.tags ?? [],
+      keepLocation: initDto.keepLocation ?? false,
+      eventId: initDto.eventId ?? null,
+      expiresAt: this.getNextExpiry(),
+    });
+
+    try {
+      const savedSession = await this.uploadSessionRepository.save(session);
+      await fsp.mkdir(path.dirname(this.getPartPath(savedSession.id)), { recursive: true });
+      await fsp.writeFile(this.getPartPath(savedSession.id), '');
+      this.logger.log(`Created upload session ${savedSession.id}`);
+      return this.toState(savedSession);
+    } catch (error: any) {
+      this.logger.error(`Failed to create upload session: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to create upload session.');
+    }
+  }
+
+  async getSession(req: AuthenticatedRequest, sessionId: string): Promise<UploadSessionState> {
+    const session = await this.findOwnedSession(req, sessionId);
+    return this.toState(session);
+  }
+
+  /**
+   * Appends the request body at `offset`, which must equal the bytes already received.
+   * If the connection drops mid-chunk, whatever reached disk is kept and reported as the new offset.
+   */
+  async appendChunk(req: AuthenticatedRequest, sessionId: string, offset: number): Promise<UploadSessionState> {
+    const session = await this.findOwnedSession(req, sessionId);
+    if (session.status !== UploadSessionStatus.Active) {
+      throw new ConflictException('This upload has already been completed.');
+    }
+    this.acquire(session.id);
+
+    const partPath = this.getPartPath(session.id);
+    try {
+      const receivedBytes = await this.getPartSize(partPath);
+      if (offset !== receivedBytes) {
+        throw new ConflictException(`Offset mismatch: expected ${receivedBytes}, got ${offset}.`);
+      }
+      const remainingBytes = Number(session.totalSize) - receivedBytes;
+      const maxChunkBytes = Math.min(this.getChunkSize(), remainingBytes);
+      if (maxChunkBytes <= 0) {
+        throw new ConflictException('All bytes have already been received; complete the upload.');
+      }
+      // Checked up front where possible: an oversized body detected mid-stream can only be cut off
+      if (Number(req.headers['content-length'] ?? 0) > maxChunkBytes) {
+        throw new PayloadTooLargeException(`Chunk exceeds the ${maxChunkBytes} bytes allowed for this request.`);
+      }
+
+      try {
+        await pipeline(req, this.createLimiter(maxChunkBytes), fs.createWriteStream(partPath, { flags: 'a' }));
+      } catch (error: any) {
+        if (error instanceof PayloadTooLargeException) throw error;
+        this.logger.warn(`Chunk for upload ${session.id} interrupted: ${error.message}`);
+      } finally {
+        session.receivedBytes = (await this.getPartSize(partPath)).toString();
+        session.expiresAt = this.getNextExpiry();
+        await this.uploadSessionRepository.save(session);
+      }
+
+      this.logger.debug(`Upload ${session.id}: ${session.receivedBytes}/${session.totalSize} bytes`);
+      return this.toState(session);
+    } finally {
+      this.busySessions.delete(session.id);
+    }
+  }
+
+  async completeSession(req: AuthenticatedRequest, sessionId: string): Promise<GalleryItem> {
+    const session = await this.findOwnedSession(req, sessionId);
+    if (session.status === UploadSessionStatus.Completed && session.galleryItemId) {
+      // A client retrying after a dropped response gets the item created the first time
+      return this.galleryService.getGalleryItem(session.galleryItemId, req.user);
+    }
+    this.acquire(session.id);
+
+    const partPath = this.getPartPath(session.id);
+    const stagedPath = path.join(this.storageService.getStagingDirectory(), this.buildStagedFileName(session.fileName));
+    try {
+      const receivedBytes = await this.getPartSize(partPath);
+      if (receivedBytes !== Number(session.totalSize)) {
+        throw new BadRequestException(`Upload incomplete: received ${receivedBytes} of ${session.totalSize} bytes.`);
+      }
+
+      // The gallery pipeline consumes its staged file, so it gets a link and the part stays until the upload is accepted
+      await fsp.link(partPath, stagedPath);
+      const file = {
+        fieldname: 'file',
+        originalname: session.fileName,
+        encoding: '7bit',
+        mimetype: session.mimeType,
+        size: receivedBytes,
+        destination: path.dirname(stagedPath),
+        filename: path.basename(stagedPath),
+        path: stagedPath,
+      } as Express.Multer.File;
+
+      let item: GalleryItem;
+      try {
+        item = await this.galleryService.uploadFile(req, file, {
+          caption: session.caption ?? undefined,
+          tags: session.tags,
+          keepLocation: session.keepLocation,
+          eventId: session.eventId ?? undefined,
+        });
+      } catch (error) {
+        // Validation may have renamed the staged link, so its current path is the one to remove
+        await fsp.rm(file.path, { force: true });
+        if (this.isDefinitiveRejection(error)) {
+          // Retrying would be rejected again (duplicate, malware, disallowed type), so the session ends here
+          await fsp.rm(partPath, { force: true });
+          await this.uploadSessionRepository.delete({ id: session.id });
+        } else {
+          this.logger.warn(`Completing upload session ${session.id} failed; it stays open for a retry`);
+        }
+        throw error;
+      }
+      await fsp.rm(partPath, { force: true });
+
+      session.status = UploadSessionStatus.Completed;
+      session.galleryItemId = item.id;
+      session.receivedBytes = receivedBytes.toString();
+      await this.uploadSessionRepository.save(session);
+      this.logger.log(`Completed upload session ${session.id} as gallery item ${item.id}`);
+      return item;
+    } finally {
+      this.busySessions.delete(session.id);
+    }
+  }
+
+  async abortSession(req: AuthenticatedRequest, sessionId: string): Promise<void> {
+    const session = await this.findOwnedSession(req, sessionId);
+    if (this.busySessions.has(session.id)) {
+      throw new ConflictException('This upload is busy; try again shortly.');
+    }
+    await fsp.rm(this.getPartPath(session.id), { force: true });
+    await this.uploadSessionRepository.delete({ id: session.id });
+    this.logger.log(`Aborted upload session ${session.id} by userId=${req.user.id}`);
+  }
+
+  async cleanupExpiredSessions(): Promise<number> {
+    const expiredSessions = await this.uploadSessionRepository.find({ where: { expiresAt: LessThan(new Date()) } });
+    const removable = expiredSessions.filter(session => !this.busySessions.has(session.id));
+    if (removable.length === 0) return 0;
+
+    for (const session of removable) {
+      await fsp.rm(this.getPartPath(session.id), { force: true });
+    }
+    await this.uploadSessionRepository.remove(removable);
+    this.logger.log(`Removed ${removable.length} expired upload sessions.`);
+    return removable.length;
+  }
+
+  private async findOwnedSession(req: AuthenticatedRequest, sessionId: string): Promise<UploadSession> {
+    const session = await this.uploadSessionRepository.findOne({ where: { id: sessionId } });
+    if (!session || session.expiresAt < new Date()) throw new NotFoundException(`Upload session ${sessionId} not found or expired.`);
+    if (session.ownerId !== req.user.id) throw new ForbiddenException('Access denied to this upload session.');
+    return session;
+  }
+
+  private acquire(sessionId: string): void {
+    if (this.busySessions.has(sessionId)) {
+      throw new ConflictException('Another request for this upload is still in progress.');
+    }
+    this.busySessions.add(sessionId);
+  }
+
+  // Rejects the chunk once it grows past the limit, so the part file never exceeds the declared size
+  private createLimiter(maxBytes: number): Transform {
+    let received = 0;
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(new PayloadTooLargeException(`Chunk exceeds the ${maxBytes} bytes allowed for this request.`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+  }
+
+  private async getPartSize(partPath: string): Promise<number> {
+    try {
+      return (await fsp.stat(partPath)).size;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new NotFoundException('Partial upload data is missing; start a new upload.');
+      throw error;
+    }
+  }
+
+  private isDefinitiveRejection(error: unknown): boolean {
+    return error instanceof BadRequestException
+      || error instanceof ConflictException
+      || error instanceof UnsupportedMediaTypeException;
+  }
+
+  private getPartPath(sessionId: string): string {
+    return path.join(this.storageService.getStagingDirectory(), 'resumable', `${sessionId}.part`);
+  }
+
+  // Same naming scheme as the multipart upload routes
+  private buildStagedFileName(originalName: string): string {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    return `file-${uniqueSuffix}${path.extname(originalName)}`;
+  }
+
+  private getChunkSize(): number {
+    return Number(this.configService.get<number>('GALLERY_UPLOAD_CHUNK_SIZE', 8 * 1024 * 1024));
+  }
+
+  private getNextExpiry(): Date {
+    const ttlHours = Number(this.configService.get<number>('GALLERY_UPLOAD_SESSION_TTL_HOURS', 24));
+    return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+  }
+
+  private toState(session: UploadSession): UploadSessionState {
+    return {
+      id: session.id,
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      totalSize: Number(session.totalSize),
+      receivedBytes: Number(session.receivedBytes),
+      chunkSize: this.getChunkSize(),
+      status: session.status,
+      galleryItemId: session.galleryItemId,
+      expiresAt: session.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+// src/gallery/video-transcoding.service.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegStatic from 'ffmpeg-static';
+import * as path from 'path';
+import * as fsp from 'fs/promises';
+import { GalleryItem, TranscodeStatus } from './entities/gallery.entity';
+import { StorageService } from '../common/storage/storage.service';
+import { StorageVisibility } from '../common/storage/storage-driver.interface';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+
+if (ffmpegStatic) ffmpeg.setFfmpegPath(ffmpegStatic);
+
+interface HlsRendition {
+  width: number;
+  height: number;
+  videoBitrateKbps: number;
+  // H.264 level_idc, e.g. 31 for level 3.1
+  level: number;
+  playlistName: string;
+}
+
+// H.264 levels by maximum frame size and macroblock rate (16x16 blocks)
+const H264_LEVELS = [
+  { level: 30, maxFrameMbs: 1620, maxMbPerSecond: 40500 },
+  { level: 31, maxFrameMbs: 3600, maxMbPerSecond: 108000 },
+  { level: 32, maxFrameMbs: 5120, maxMbPerSecond: 216000 },
+  { level: 40, maxFrameMbs: 8192, maxMbPerSecond: 245760 },
+  { level: 42, maxFrameMbs: 8704, maxMbPerSecond: 522240 },
+  { level: 50, maxFrameMbs: 22080, maxMbPerSecond: 589824 },
+  { level: 51, maxFrameMbs: 36864, maxMbPerSecond: 983040 },
+  { level: 52, maxFrameMbs: 36864, maxMbPerSecond: 2073600 },
+];
+
+@Injectable()
+export class VideoTranscodingService implements OnModuleInit {
+  private readonly logger = new Logger(VideoTranscodingService.name);
+  private readonly MEDIA_PREFIX = 'media';
+  private readonly VIDEO_OUTPUT_PREFIX = 'videos';
+  private readonly AUDIO_BITRATE_KBPS = 128;
+  private readonly HLS_SEGMENT_SECONDS = 6;
+  // Levels are chosen so that sources up to this frame rate stay within them
+  private readonly MAX_FRAME_RATE = 60;
+  // Target video bitrates per ladder rung; other heights are estimated from the pixel count
+  private readonly LADDER_BITRATES_KBPS: Record<number, number> = { 240: 400, 360: 800, 480: 1400, 720: 2800, 1080: 5000, 1440: 8000, 2160: 14000 };
+
+  private readonly queue: string[] = [];
+  private isProcessing = false;
+
+  constructor(
+    @InjectRepository(GalleryItem)
+    private readonly galleryRepository: Repository<GalleryItem>,
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'video-transcode-recovery',
+      description: 'Re-queues video transcodes left pending or stuck in processing by an instance that stopped.',
+      cronExpression: '*/10 * * * *',
+      handler: () => this.resumeUnfinished(),
+    });
+    // Resume transcodes interrupted by a restart; items another instance claims first are skipped
+    try {
+      await this.resumeUnfinished();
+    } catch (error: any) {
+      this.logger.error(`Failed to resume unfinished transcodes: ${error.message}`, error.stack);
+    }
+  }
+
+  async resumeUnfinished(): Promise<void> {
+    const staleMinutes = Number(this.configService.get<number>('VIDEO_TRANSCODE_STALE_MINUTES', 180));
+    const released = await this.galleryRepository.update(
+      { transcodeStatus: TranscodeStatus.Processing, transcodeStartedAt: LessThan(new Date(Date.now() - staleMinutes * 60 * 1000)) },
+      { transcodeStatus: TranscodeStatus.Pending, transcodeStartedAt: null },
+    );
+    if (released.affected) this.logger.warn(`Released ${released.affected} video transcodes stuck in processing.`);
+
+    const pendingItems = await this.galleryRepository.find({
+      where: { transcodeStatus: TranscodeStatus.Pending },
+      select: ['id'],
+      order: { uploadedAt: 'ASC' },
+    });
+    pendingItems.forEach(item => this.enqueue(item.id));
+    if (pendingItems.length > 0) {
+      this.logger.log(`Queued ${pendingItems.length} pending video transcodes.`);
+    }
+  }
+
+  enqueue(itemId: string): void {
+    if (this.queue.includes(itemId)) return;
+    this.queue.push(itemId);
+    void this.drainQueue();
+  }
+
+  getOutputKey(itemId: string): string {
+    return `${this.VIDEO_OUTPUT_PREFIX}/${itemId}`;
+  }
+
+  async deleteOutputs(itemId: string, visibility: StorageVisibility = 'public'): Promise<void> {
+    try {
+      await this.storageService.deletePrefix(this.getOutputKey(itemId), visibility);
+    } catch (err: any) {
+      this.logger.error(`Failed delete transcoded outputs for item ${itemId}: ${err.message}`);
+    }
+  }
+
+  async setOutputsVisibility(itemId: string, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    try {
+      await this.storageService.setPrefixVisibility(this.getOutputKey(itemId), from, to);
+    } catch (err: any) {
+      this.logger.error(`Failed to make transcoded outputs for item ${itemId} ${to}: ${err.message}`);
+    }
+  }
+
+  // Transcodes run one at a time; each ffmpeg process already uses every core
+  private async drainQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      let itemId = this.queue.shift();
+      while (itemId) {
+        try {
+          await this.transcodeItem(itemId);
+        } catch (error: any) {
+          this.logger.error(`Unexpected error transcoding item ${itemId}: ${error.message}`, error.stack);
+        }
+        itemId = this.queue.shift();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async transcodeItem(itemId: string): Promise<void> {
+    const item = await this.galleryRepository.findOne({ where: { id: itemId } });
+    if (!item) {
+      this.logger.warn(`Gallery item ${itemId} disappeared before transcoding.`);
+      return;
+    }
+    // Claimed atomically, so an item queued on several instances is transcoded once
+    const claim = await this.galleryRepository.update(
+      { id: item.id, transcodeStatus: TranscodeStatus.Pending },
+      { transcodeStatus: TranscodeStatus.Processing, transcodeError: null, transcodeStartedAt: new Date() },
+    );
+    if (claim.affected !== 1) {
+      this.logger.debug(`Skipping transcode of item ${item.id}: no longer pending.`);
+      return;
+    }
+
+    const startTime = Date.now();
+    const sourceKey = `${this.MEDIA_PREFIX}/${path.basename(item.fileUrl)}`;
+    const outputKey = this.getOutputKey(item.id);
+    // Outputs are written to a local working directory first, then uploaded as a whole
+    const outputDir = path.join(this.storageService.getStagingDirectory(), `transcode-${item.id}`);
+    const hlsDir = path.join(outputDir, 'hls');
+    this.logger.log(`Transcoding video for item ${item.id} from ${sourceKey}`);
+
+    try {
+      await fsp.rm(outputDir, { recursive: true, force: true });
+      await fsp.mkdir(hlsDir, { recursive: true });
+
+      const renditions = this.buildLadder(item.width ?? null, item.height ?? null);
+      await this.storageService.withLocalCopy(sourceKey, 'public', async sourcePath => {
+        await this.transcodeToMp4(sourcePath, path.join(outputDir, 'video.mp4'));
+        for (const rendition of renditions) {
+          await this.transcodeToHls(sourcePath, hlsDir, rendition);
+        }
+      });
+      await fsp.writeFile(path.join(hlsDir, 'master.m3u8'), this.buildMasterPlaylist(renditions));
+
+      await this.storageService.deletePrefix(outputKey, 'public');
+      await this.storageService.putFile(`${outputKey}/video.mp4`, path.join(outputDir, 'video.mp4'), { visibility: 'public', contentType: 'video/mp4' });
+      for (const fileName of await fsp.readdir(hlsDir)) {
+        const contentType = fileName.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+        await this.storageService.putFile(`${outputKey}/hls/${fileName}`, path.join(hlsDir, fileName), { visibility: 'public', contentType });
+      }
+
+      await this.galleryRepository.update({ id: item.id }, {
+        transcodeStatus: TranscodeStatus.Ready,
+        streamUrl: this.storageService.getPublicUrl(`${outputKey}/video.mp4`),
+        hlsPlaylistUrl: this.storageService.getPublicUrl(`${outputKey}/hls/master.m3u8`),
+      });
+      // The item may have been trashed while ffmpeg ran, and trashed files are never public
+      const current = await this.galleryRepository.findOne({ where: { id: item.id }, withDeleted: true, select: ['id', 'deletedAt'] });
+      if (current?.deletedAt) await this.setOutputsVisibility(item.id, 'public', 'private');
+      this.logger.log(`Transcoded item ${item.id}: mp4 + ${renditions.length} HLS renditions, duration=${Date.now() - startTime}ms`);
+    } catch (error: any) {
+      this.logger.error(`Transcoding failed for item ${item.id}: ${error.message}`, error.stack);
+      await this.deleteOutputs(item.id);
+      await this.galleryRepository.update({ id: item.id }, {
+        transcodeStatus: TranscodeStatus.Failed,
+        transcodeError: String(error.message).slice(0, 1000),
+      });
+    } finally {
+      await fsp.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  // -map_metadata -1 also drops container tags such as recording location
+  private transcodeToMp4(sourcePath: string, outputPath: string): Promise<void> {
+    return this.runFfmpeg(
+      ffmpeg(sourcePath)
+        .outputOptions([
+          '-map 0:v:0', '-map 0:a:0?', '-map_metadata -1',
+          '-c:v libx264', '-preset veryfast', '-crf 23', '-profile:v high', '-pix_fmt yuv420p',
+          '-vf scale=trunc(iw/2)*2:trunc(ih/2)*2',
+          '-c:a aac', `-b:a ${this.AUDIO_BITRATE_KBPS}k`, '-ac 2',
+          '-movflags +faststart',
+        ])
+        .output(outputPath),
+    );
+  }
+
+  private transcodeToHls(sourcePath: string, hlsDir: string, rendition: HlsRendition): Promise<void> {
+    const segmentPattern = path.join(hlsDir, `${rendition.height}p_%04d.ts`);
+    return this.runFfmpeg(
+      ffmpeg(sourcePath)
+        .outputOptions([
+          '-map 0:v:0', '-map 0:a:0?', '-map_metadata -1',
+          `-vf scale=-2:${rendition.height}`,
+          // The level is set explicitly so it matches the CODECS attribute of the master playlist
+          '-c:v libx264', '-preset veryfast', '-profile:v main', `-level:v ${(rendition.level / 10).toFixed(1)}`, '-pix_fmt yuv420p',
+          `-b:v ${rendition.videoBitrateKbps}k`, `-maxrate ${Math.round(rendition.videoBitrateKbps * 1.07)}k`, `-bufsize ${rendition.videoBitrateKbps * 2}k`,
+          // Keyframes aligned to segment boundaries so players can switch renditions cleanly
+          `-force_key_frames expr:gte(t,n_forced*${this.HLS_SEGMENT_SECONDS})`, '-sc_threshold 0',
+          '-c:a aac', `-b:a ${this.AUDIO_BITRATE_KBPS}k`, '-ac 2',
+          '-f hls', `-hls_time ${this.HLS_SEGMENT_SECONDS}`, '-hls_playlist_type vod',
+          // Passed as separate arguments so paths containing spaces are not split
+          '-hls_segment_filename', segmentPattern,
+        ])
+        .output(path.join(hlsDir, rendition.playlistName)),
+    );
+  }
+
+  private runFfmpeg(command: ffmpeg.FfmpegCommand): Promise<void> {
+    return new Promise((resolve, reject) => {
+      command
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+  }
+
+  // Rungs taller than the source are dropped; a source smaller than every rung gets a single rung at its own height
+  private buildLadder(sourceWidth: number | null, sourceHeight: number | null): HlsRendition[] {
+    const configured = this.configService.get<string>('GALLERY_HLS_LADDER', '360,720,1080')
+      .split(',').map(height => parseInt(height.trim(), 10)).filter(height => height > 0)
+      .sort((a, b) => a - b);
+    let heights = sourceHeight ? configured.filter(height => height <= sourceHeight) : configured;
+    if (heights.length === 0) heights = [sourceHeight ? sourceHeight - (sourceHeight % 2) : configured[0]];
+
+    const aspectRatio = sourceWidth && sourceHeight ? sourceWidth / sourceHeight : 16 / 9;
+    return heights.map(height => {
+      const width = Math.round((height * aspectRatio) / 2) * 2;
+      return {
+        width,
+        height,
+        videoBitrateKbps: this.LADDER_BITRATES_KBPS[height] ?? Math.round((height * height * 16) / 9 / 400),
+        level: this.getH264Level(width, height),
+        playlistName: `${height}p.m3u8`,
+      };
+    });
+  }
+
+  // Lowest level that fits the frame size at MAX_FRAME_RATE; larger frames get the highest level
+  private getH264Level(width: number, height: number): number {
+    const frameMbs = Math.ceil(width / 16) * Math.ceil(height / 16);
+    const match = H264_LEVELS.find(candidate =>
+      frameMbs <= candidate.maxFrameMbs && frameMbs * this.MAX_FRAME_RATE <= candidate.maxMbPerSecond);
+    return (match ?? H264_LEVELS[H264_LEVELS.length - 1]).level;
+  }
+
+  // Main profile is avc1.4d40xx: profile_idc 0x4d, constraint_set1 (set by x264 for Main), then level_idc
+  private buildMasterPlaylist(renditions: HlsRendition[]): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    for (const rendition of renditions) {
+      const bandwidth = (rendition.videoBitrateKbps + this.AUDIO_BITRATE_KBPS) * 1000;
+      const codecs = `avc1.4d40${rendition.level.toString(16).padStart(2, '0')},mp4a.40.2`;
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${rendition.width}x${rendition.height},CODECS="${codecs}"`);
+      lines.push(rendition.playlistName);
+    }
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,29 @@
+// src/mail/dto/mail-query.dto.ts
+import { IsOptional, IsEnum, IsString, MaxLength, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { MailStatus } from '../entities/mail-message.entity';
+
+export class MailQueryDto {
+  // Failed messages are what admins usually need to look at
+  @IsOptional()
+  @IsEnum(MailStatus, { message: `status must be one of: ${Object.values(MailStatus).join(', ')}.` })
+  status?: MailStatus = MailStatus.Failed;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  template?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
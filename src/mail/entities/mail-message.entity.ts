@@ -0,0 +1,63 @@
+// src/mail/entities/mail-message.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+export enum MailStatus {
+  Pending = 'pending',
+  Sending = 'sending',
+  Sent = 'sent',
+  Failed = 'failed',
+}
+
+// Outbox row: rendered when enqueued, delivered later by MailOutboxWorker
+@Entity('mail_message')
+@Index('idx_mail_message_due', ['status', 'nextAttemptAt'])
+export class MailMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  template: string;
+
+  @Column({ type: 'varchar', length: 320 })
+  to: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  subject: string;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  @Column({ type: 'text' })
+  html: string;
+
+  // Bodies hold a secret (e.g. a reset link): stored encrypted, never shown to admins and cleared once sent
+  @Column({ default: false })
+  sensitive: boolean;
+
+  @Column({ type: 'enum', enum: MailStatus, default: MailStatus.Pending })
+  status: MailStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'int', default: 5 })
+  maxAttempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  providerMessageId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,39 @@
+// src/mail/mail-body.cipher.ts
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1';
+
+/**
+ * AES-256-GCM for outbox bodies that carry secrets (reset links), so a row read from the database
+ * or the admin API is useless without the key. The key is MAIL_ENCRYPTION_KEY, or derived from
+ * JWT_SECRET when that is unset.
+ */
+@Injectable()
+export class MailBodyCipher {
+  constructor(private readonly configService: ConfigService) {}
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [PREFIX, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [, , iv, tag, encrypted] = payload.split(':');
+    if (!payload.startsWith(`${PREFIX}:`) || !iv || !tag || encrypted === undefined) {
+      throw new Error('Mail body is not in the encrypted format.');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  private getKey(): Buffer {
+    const key = this.configService.get<string>('MAIL_ENCRYPTION_KEY');
+    if (key) return createHash('sha256').update(key).digest();
+    return createHmac('sha256', this.configService.get<string>('JWT_SECRET', '')).update('mail-body').digest();
+  }
+}
@@ -0,0 +1,180 @@
+// src/mail/mail-outbox.worker.ts
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, In, LessThan } from 'typeorm';
+import * as nodemailer from 'nodemailer';
+import { MailMessage, MailStatus } from './entities/mail-message.entity';
+import { MailBodyCipher } from './mail-body.cipher';
+
+/**
+ * Delivers queued mail. Each tick claims due messages with FOR UPDATE SKIP LOCKED (safe with
+ * several instances), sends them one at a time within the per-minute rate limit, and reschedules
+ * failures with exponential backoff until maxAttempts is reached.
+ */
+@Injectable()
+export class MailOutboxWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MailOutboxWorker.name);
+  private readonly RATE_WINDOW_MS = 60 * 1000;
+  // A message left in 'sending' this long belonged to a worker that died mid-send
+  private readonly STALE_SENDING_MS = 10 * 60 * 1000;
+
+  private transporter: nodemailer.Transporter | null = null;
+  private fromAddress: string | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly sentTimestamps: number[] = [];
+
+  constructor(
+    @InjectRepository(MailMessage)
+    private readonly mailRepository: Repository<MailMessage>,
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+    private readonly mailBodyCipher: MailBodyCipher,
+  ) {}
+
+  onModuleInit(): void {
+    this.transporter = this.createTransporter();
+    this.fromAddress = this.resolveFromAddress();
+    if (!this.transporter || !this.fromAddress) {
+      this.logger.error('Mail transport not configured (SMTP_HOST or EMAIL_SERVICE/EMAIL_USER/EMAIL_PASS, plus a sender). Emails will stay queued.');
+      return;
+    }
+    this.transporter.verify()
+      .then(() => this.logger.log('Mail transport verified'))
+      .catch(error => this.logger.error(`Mail transport verification failed: ${error.message}`, error.stack));
+
+    const pollIntervalMs = Number(this.configService.get<number>('MAIL_POLL_INTERVAL_MS', 5000));
+    this.pollTimer = setInterval(() => {
+      this.processQueue().catch(error => this.logger.error(`Mail outbox processing failed: ${error.message}`, error.stack));
+    }, pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.transporter?.close();
+  }
+
+  async processQueue(): Promise<void> {
+    if (this.isProcessing || !this.transporter) return;
+    this.isProcessing = true;
+    try {
+      await this.releaseStaleMessages();
+      const allowance = this.getRateAllowance();
+      if (allowance <= 0) return;
+      const messages = await this.claimDueMessages(allowance);
+      for (const message of messages) {
+        await this.deliver(message);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async claimDueMessages(limit: number): Promise<MailMessage[]> {
+    return this.dataSource.transaction(async manager => {
+      const repository = manager.getRepository(MailMessage);
+      const due = await repository.createQueryBuilder('mail')
+        .where('mail.status = :status', { status: MailStatus.Pending })
+        .andWhere('mail.nextAttemptAt <= :now', { now: new Date() })
+        .orderBy('mail.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+      if (due.length === 0) return [];
+      await repository.update({ id: In(due.map(message => message.id)) }, { status: MailStatus.Sending });
+      return due;
+    });
+  }
+
+  private async deliver(message: MailMessage): Promise<void> {
+    const attempts = message.attempts + 1;
+    this.sentTimestamps.push(Date.now());
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.fromAddress,
+        to: message.to,
+        subject: message.subject,
+        text: message.sensitive ? this.mailBodyCipher.decrypt(message.text) : message.text,
+        html: message.sensitive ? this.mailBodyCipher.decrypt(message.html) : message.html,
+      });
+      await this.mailRepository.update({ id: message.id }, {
+        // A delivered credential has no further use in the outbox
+        ...(message.sensitive ? { text: '', html: '' } : {}),
+        status: MailStatus.Sent,
+        attempts,
+        sentAt: new Date(),
+        providerMessageId: info.messageId ?? null,
+        lastError: null,
+      });
+      this.logger.log(`Sent "${message.template}" email ${message.id} to ${message.to}`);
+    } catch (error: any) {
+      const exhausted = attempts >= message.maxAttempts;
+      await this.mailRepository.update({ id: message.id }, {
+        status: exhausted ? MailStatus.Failed : MailStatus.Pending,
+        attempts,
+        lastError: String(error?.message ?? error).slice(0, 2000),
+        nextAttemptAt: exhausted ? message.nextAttemptAt : new Date(Date.now() + this.getBackoffMs(attempts)),
+      });
+      const outcome = exhausted ? 'giving up' : `retry ${attempts}/${message.maxAttempts} scheduled`;
+      this.logger.error(`Failed to send email ${message.id} to ${message.to} (${outcome}): ${error?.message}`);
+    }
+  }
+
+  private async releaseStaleMessages(): Promise<void> {
+    const result = await this.mailRepository.update(
+      { status: MailStatus.Sending, updatedAt: LessThan(new Date(Date.now() - this.STALE_SENDING_MS)) },
+      { status: MailStatus.Pending },
+    );
+    if (result.affected) this.logger.warn(`Re-queued ${result.affected} email(s) stuck in sending`);
+  }
+
+  // Sliding one-minute window, per instance
+  private getRateAllowance(): number {
+    const windowStart = Date.now() - this.RATE_WINDOW_MS;
+    while (this.sentTimestamps.length > 0 && this.sentTimestamps[0] < windowStart) this.sentTimestamps.shift();
+    const ratePerMinute = Number(this.configService.get<number>('MAIL_RATE_LIMIT_PER_MINUTE', 60));
+    return ratePerMinute - this.sentTimestamps.length;
+  }
+
+  // 1m, 2m, 4m, ... capped at MAIL_RETRY_MAX_DELAY_MS
+  private getBackoffMs(attempts: number): number {
+    const baseMs = Number(this.configService.get<number>('MAIL_RETRY_BASE_DELAY_MS', 60 * 1000));
+    const maxMs = Number(this.configService.get<number>('MAIL_RETRY_MAX_DELAY_MS', 60 * 60 * 1000));
+    return Math.min(baseMs * 2 ** (attempts - 1), maxMs);
+  }
+
+  // SMTP_HOST (e.g. a local sink such as Mailpit on port 1025) takes precedence over a named service
+  private createTransporter(): nodemailer.Transporter | null {
+    const smtpHost = this.configService.get<string>('SMTP_HOST');
+    try {
+      if (smtpHost) {
+        const smtpUser = this.configService.get<string>('SMTP_USER');
+        return nodemailer.createTransport({
+          host: smtpHost,
+          port: Number(this.configService.get<number>('SMTP_PORT', 587)),
+          secure: this.configService.get<string>('SMTP_SECURE', 'false') === 'true',
+          auth: smtpUser ? { user: smtpUser, pass: this.configService.get<string>('SMTP_PASS') } : undefined,
+        });
+      }
+      const emailService = this.configService.get<string>('EMAIL_SERVICE');
+      const emailUser = this.configService.get<string>('EMAIL_USER');
+      const emailPass = this.configService.get<string>('EMAIL_PASS');
+      if (!emailService || !emailUser || !emailPass) return null;
+      return nodemailer.createTransport({ service: emailService, auth: { user: emailUser, pass: emailPass } });
+    } catch (error: any) {
+      this.logger.error(`Failed to create mail transport: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  private resolveFromAddress(): string | null {
+    const address = this.configService.get<string>('MAIL_FROM')
+      ?? this.configService.get<string>('EMAIL_USER')
+      ?? this.configService.get<string>('SMTP_USER');
+    if (!address) return null;
+    const name = this.configService.get<string>('EMAIL_FROM_NAME', 'CIVE Gallery');
+    return `"${name}" <${address}>`;
+  }
+}
@@ -0,0 +1,16 @@
+// src/mail/mail.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { MailMessage } from './entities/mail-message.entity';
+import { MailService } from './mail.service';
+import { MailOutboxWorker } from './mail-outbox.worker';
+import { MailBodyCipher } from './mail-body.cipher';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([MailMessage]), ConfigModule, CommonModule],
+  providers: [MailService, MailOutboxWorker, MailBodyCipher],
+  exports: [MailService],
+})
+export class MailModule {}
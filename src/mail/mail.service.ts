@@ -0,0 +1,149 @@
+// src/mail/mail.service.ts
+import { Injectable, Logger, NotFoundException, BadRequestException, InternalServerErrorException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, FindOptionsWhere, LessThan } from 'typeorm';
+import { MailMessage, MailStatus } from './entities/mail-message.entity';
+import { MailTemplateDataMap, MailTemplateName } from './templates/mail-template.interface';
+import { MAIL_TEMPLATES, SENSITIVE_MAIL_TEMPLATES } from './templates/mail-templates';
+import { MailBodyCipher } from './mail-body.cipher';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+import { MailQueryDto } from './dto/mail-query.dto';
+import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+
+export interface EnqueueMailOptions {
+  maxAttempts?: number;
+}
+
+export type MailMessageSummary = Omit<MailMessage, 'text' | 'html'>;
+
+const REDACTED_BODY = '[redacted: this message contains a credential]';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Entry point for all outgoing email. Messages are rendered and written to the `mail_message`
+ * outbox; MailOutboxWorker delivers them with retries, so a failed send is never lost. Sent
+ * messages are purged after MAIL_RETENTION_DAYS.
+ */
+@Injectable()
+export class MailService implements OnModuleInit {
+  private readonly logger = new Logger(MailService.name);
+  private readonly INSERT_CHUNK_SIZE = 200;
+
+  constructor(
+    @InjectRepository(MailMessage)
+    private readonly mailRepository: Repository<MailMessage>,
+    private readonly configService: ConfigService,
+    private readonly mailBodyCipher: MailBodyCipher,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'mail-outbox-purge',
+      description: 'Deletes sent mail older than MAIL_RETENTION_DAYS and clears bodies of sent credential emails.',
+      cronExpression: '30 3 * * *',
+      handler: () => this.purgeSentMessages(),
+    });
+  }
+
+  async enqueue<K extends MailTemplateName>(
+    to: string,
+    template: K,
+    data: MailTemplateDataMap[K],
+    options: EnqueueMailOptions = {},
+  ): Promise<MailMessage> {
+    const [message] = await this.enqueueMany([to], template, data, options);
+    return message;
+  }
+
+  // Same content to many recipients, e.g. broadcasts; one outbox row per recipient
+  async enqueueMany<K extends MailTemplateName>(
+    recipients: string[],
+    template: K,
+    data: MailTemplateDataMap[K],
+    options: EnqueueMailOptions = {},
+  ): Promise<MailMessage[]> {
+    const rendered = MAIL_TEMPLATES[template](data);
+    const sensitive = SENSITIVE_MAIL_TEMPLATES.has(template);
+    if (sensitive) {
+      rendered.text = this.mailBodyCipher.encrypt(rendered.text);
+      rendered.html = this.mailBodyCipher.encrypt(rendered.html);
+    }
+    const maxAttempts = options.maxAttempts ?? Number(this.configService.get<number>('MAIL_MAX_ATTEMPTS', 5));
+    const messages = recipients.map(to =>
+      this.mailRepository.create({ to, template, ...rendered, sensitive, maxAttempts, status: MailStatus.Pending, nextAttemptAt: new Date() }),
+    );
+    try {
+      const saved = await this.mailRepository.save(messages, { chunk: this.INSERT_CHUNK_SIZE });
+      this.logger.log(`Queued ${saved.length} "${template}" email(s)`);
+      return saved.map(message => this.redact(message));
+    } catch (error: any) {
+      this.logger.error(`Failed to queue "${template}" email(s): ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to queue email.');
+    }
+  }
+
+  async listMessages(queryDto: MailQueryDto): Promise<PaginatedResponse<MailMessageSummary>> {
+    const { status, template, page = 1, limit = 20 } = queryDto;
+    const where: FindOptionsWhere<MailMessage> = {};
+    if (status) where.status = status;
+    if (template) where.template = template;
+    try {
+      const [messages, total] = await this.mailRepository.findAndCount({
+        where,
+        // Bodies are only returned by the single-message endpoint
+        select: ['id', 'template', 'to', 'subject', 'sensitive', 'status', 'attempts', 'maxAttempts', 'nextAttemptAt', 'lastError', 'providerMessageId', 'sentAt', 'createdAt', 'updatedAt'],
+        order: { updatedAt: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+      return { data: messages, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error: any) {
+      this.logger.error(`Failed to list mail messages: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to retrieve mail messages.');
+    }
+  }
+
+  async getMessage(id: string): Promise<MailMessage> {
+    const message = await this.mailRepository.findOne({ where: { id } });
+    if (!message) throw new NotFoundException(`Mail message ${id} not found.`);
+    return this.redact(message);
+  }
+
+  async purgeSentMessages(): Promise<void> {
+    const retentionDays = Number(this.configService.get<number>('MAIL_RETENTION_DAYS', 30));
+    const cleared = await this.mailRepository.createQueryBuilder()
+      .update(MailMessage)
+      .set({ text: '', html: '' })
+      .where('status = :status', { status: MailStatus.Sent })
+      .andWhere('sensitive = true')
+      .andWhere("(text <> '' OR html <> '')")
+      .execute();
+    const purged = await this.mailRepository.delete({
+      status: MailStatus.Sent,
+      sentAt: LessThan(new Date(Date.now() - retentionDays * DAY_MS)),
+    });
+    this.logger.log(`Mail outbox purge: ${purged.affected ?? 0} sent message(s) deleted, ${cleared.affected ?? 0} credential body(ies) cleared.`);
+  }
+
+  // Bodies of credential emails never leave the service
+  private redact(message: MailMessage): MailMessage {
+    if (!message.sensitive) return message;
+    return { ...message, text: REDACTED_BODY, html: REDACTED_BODY };
+  }
+
+  // Puts a failed message back in the queue with a fresh set of attempts
+  async retryMessage(id: string): Promise<MailMessage> {
+    const message = await this.getMessage(id);
+    if (message.status !== MailStatus.Failed) {
+      throw new BadRequestException(`Only failed messages can be retried; this one is ${message.status}.`);
+    }
+    await this.mailRepository.update(
+      { id, status: MailStatus.Failed },
+      { status: MailStatus.Pending, attempts: 0, nextAttemptAt: new Date() },
+    );
+    this.logger.log(`Re-queued failed mail message ${id}`);
+    return this.getMessage(id);
+  }
+}
@@ -0,0 +1,18 @@
+// src/mail/templates/approval.template.ts
+import type { RenderedMail } from './mail-template.interface';
+import { renderButton, renderLayout, renderParagraph } from './layout';
+
+export interface ApprovalTemplateData {
+  recipientName: string;
+  // The moderation outcome, including any reviewer reason
+  message: string;
+  notificationsUrl: string;
+}
+
+export function renderApproval({ recipientName, message, notificationsUrl }: ApprovalTemplateData): RenderedMail {
+  return {
+    subject: 'Review update - CIVE Gallery',
+    text: `Hello ${recipientName},\n\n${message}\n\nView your notifications here: ${notificationsUrl}\n\nRegards,\nThe CIVE Gallery Team`,
+    html: renderLayout(`Hello ${recipientName},`, renderParagraph(message) + renderButton(notificationsUrl, 'View notifications')),
+  };
+}
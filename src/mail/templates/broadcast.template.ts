@@ -0,0 +1,19 @@
+// src/mail/templates/broadcast.template.ts
+import type { RenderedMail } from './mail-template.interface';
+import { renderLayout, renderParagraph } from './layout';
+
+export interface BroadcastTemplateData {
+  message: string;
+}
+
+export function renderBroadcast({ message }: BroadcastTemplateData): RenderedMail {
+  return {
+    subject: 'Important CIVE Gallery Broadcast',
+    text: message,
+    html: renderLayout(
+      'Important announcement',
+      message.split(/\n{2,}/).map(paragraph => renderParagraph(paragraph)).join(''),
+      'This message was sent to all affected CIVE Gallery users.',
+    ),
+  };
+}
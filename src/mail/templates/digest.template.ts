@@ -0,0 +1,50 @@
+// src/mail/templates/digest.template.ts
+import type { RenderedMail } from './mail-template.interface';
+import { escapeHtml, renderButton, renderLayout, renderParagraph } from './layout';
+
+export interface DigestTemplateItem {
+  type: string;
+  message: string;
+  createdAt: Date;
+}
+
+export interface DigestTemplateData {
+  recipientName: string;
+  // Lower-case label used in the copy, e.g. "daily"
+  frequencyLabel: string;
+  items: DigestTemplateItem[];
+  notificationsUrl: string;
+  preferencesUrl: string;
+  timeZone: string;
+}
+
+const formatDate = (date: Date, timeZone: string): string =>
+  new Date(date).toLocaleString('en-GB', { timeZone, day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export function renderDigest(data: DigestTemplateData): RenderedMail {
+  const { recipientName, frequencyLabel, items, notificationsUrl, preferencesUrl, timeZone } = data;
+
+  const textItems = items
+    .map(item => `- (${item.type}) ${item.message} [${formatDate(item.createdAt, timeZone)}]`)
+    .join('\n');
+  const text = `Hello ${recipientName},\n\nHere is your ${frequencyLabel} digest from CIVE Gallery:\n\n${textItems}\n\n`
+    + `View all notifications here: ${notificationsUrl}\nChange how often you receive this email: ${preferencesUrl}\n\nRegards,\nThe CIVE Gallery Team`;
+
+  const htmlItems = items
+    .map(item => `
+      <div style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+        <span style="display:inline-block;padding:2px 8px;border-radius:10px;background:#eef2ff;color:#3730a3;font-size:12px;">${escapeHtml(item.type)}</span>
+        <div style="margin-top:6px;color:#111827;font-size:14px;">${escapeHtml(item.message)}</div>
+        <div style="margin-top:4px;color:#6b7280;font-size:12px;">${escapeHtml(formatDate(item.createdAt, timeZone))}</div>
+      </div>`)
+    .join('');
+  const html = renderLayout(
+    `Hello ${recipientName},`,
+    renderParagraph(`Here is your ${frequencyLabel} digest from CIVE Gallery (${items.length} unread).`)
+      + htmlItems
+      + `<div style="padding-top:20px;">${renderButton(notificationsUrl, 'View all notifications')}</div>`,
+    `You receive this email because digests are enabled for your account. <a href="${escapeHtml(preferencesUrl)}" style="color:#6b7280;">Change digest settings</a>`,
+  );
+
+  return { subject: `Your ${frequencyLabel} CIVE Gallery Digest`, text, html };
+}
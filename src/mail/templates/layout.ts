@@ -0,0 +1,40 @@
+// src/mail/templates/layout.ts
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const renderButton = (href: string, label: string): string =>
+  `<a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 18px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;">${escapeHtml(label)}</a>`;
+
+export const renderParagraph = (text: string): string =>
+  `<p style="margin:0 0 12px;color:#374151;font-size:14px;line-height:1.5;">${escapeHtml(text)}</p>`;
+
+// Shared HTML shell; inline styles only, since most mail clients strip <style> blocks
+export function renderLayout(heading: string, bodyHtml: string, footerHtml = ''): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;padding:24px;">
+            <tr>
+              <td style="padding-bottom:12px;color:#111827;font-size:18px;font-weight:bold;">${escapeHtml(heading)}</td>
+            </tr>
+            <tr>
+              <td>${bodyHtml}</td>
+            </tr>
+            <tr>
+              <td style="padding-top:20px;color:#9ca3af;font-size:12px;">${footerHtml || 'CIVE Gallery'}</td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
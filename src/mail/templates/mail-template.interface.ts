@@ -0,0 +1,23 @@
+// src/mail/templates/mail-template.interface.ts
+import { DigestTemplateData } from './digest.template';
+import { ResetPasswordTemplateData } from './reset-password.template';
+import { BroadcastTemplateData } from './broadcast.template';
+import { ApprovalTemplateData } from './approval.template';
+import { NotificationTemplateData } from './notification.template';
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Template name -> the data it is rendered with
+export interface MailTemplateDataMap {
+  'reset-password': ResetPasswordTemplateData;
+  digest: DigestTemplateData;
+  broadcast: BroadcastTemplateData;
+  approval: ApprovalTemplateData;
+  notification: NotificationTemplateData;
+}
+
+export type MailTemplateName = keyof MailTemplateDataMap;
@@ -0,0 +1,18 @@
+// src/mail/templates/mail-templates.ts
+import { MailTemplateDataMap, MailTemplateName, RenderedMail } from './mail-template.interface';
+import { renderResetPassword } from './reset-password.template';
+import { renderDigest } from './digest.template';
+import { renderBroadcast } from './broadcast.template';
+import { renderApproval } from './approval.template';
+import { renderNotification } from './notification.template';
+
+// Templates whose bodies carry credentials; see MailMessage.sensitive
+export const SENSITIVE_MAIL_TEMPLATES: ReadonlySet<MailTemplateName> = new Set<MailTemplateName>(['reset-password']);
+
+export const MAIL_TEMPLATES: { [K in MailTemplateName]: (data: MailTemplateDataMap[K]) => RenderedMail } = {
+  'reset-password': renderResetPassword,
+  digest: renderDigest,
+  broadcast: renderBroadcast,
+  approval: renderApproval,
+  notification: renderNotification,
+};
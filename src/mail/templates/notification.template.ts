@@ -0,0 +1,18 @@
+// src/mail/templates/notification.template.ts
+import type { RenderedMail } from './mail-template.interface';
+import { renderButton, renderLayout, renderParagraph } from './layout';
+
+export interface NotificationTemplateData {
+  type: string;
+  message: string;
+  notificationsUrl: string;
+}
+
+// Fallback for notification types without a dedicated template
+export function renderNotification({ type, message, notificationsUrl }: NotificationTemplateData): RenderedMail {
+  return {
+    subject: `[${type}] New CIVE Gallery Notification`,
+    text: `New Notification: ${message}\n\nView all notifications here: ${notificationsUrl}`,
+    html: renderLayout('New notification', renderParagraph(message) + renderButton(notificationsUrl, 'View notifications')),
+  };
+}
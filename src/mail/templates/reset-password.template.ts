@@ -0,0 +1,23 @@
+// src/mail/templates/reset-password.template.ts
+import type { RenderedMail } from './mail-template.interface';
+import { renderButton, renderLayout, renderParagraph } from './layout';
+
+export interface ResetPasswordTemplateData {
+  resetLink: string;
+  expiresInHours: number;
+}
+
+export function renderResetPassword({ resetLink, expiresInHours }: ResetPasswordTemplateData): RenderedMail {
+  return {
+    subject: 'Password Reset Request - CIVE Gallery',
+    text: `You requested a password reset for your CIVE Gallery account. Please click the following link to reset your password: ${resetLink}\n\n`
+      + `This link will expire in ${expiresInHours} hours.\n\nIf you did not request this reset, please ignore this email.`,
+    html: renderLayout(
+      'Reset your password',
+      renderParagraph('You requested a password reset for your CIVE Gallery account.')
+        + renderParagraph(`Please click the button below to reset your password. This link is valid for ${expiresInHours} hours.`)
+        + renderButton(resetLink, 'Reset Password'),
+      'If you did not request this reset, please ignore this email.',
+    ),
+  };
+}
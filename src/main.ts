@@ -3,7 +3,7 @@ import { AppModule } from './app.module';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
+import { StorageService } from './common/storage/storage.service';
 import { IoAdapter } from '@nestjs/platform-socket.io';
 
 async function bootstrap() {
@@ -36,12 +36,16 @@ async function bootstrap() {
   logger.log('Global ValidationPipe configured.');
 
   // --- Static Assets ---
-  const staticAssetsPath = join(__dirname, '..', 'Uploads');
-  const staticAssetsPrefix = '/uploads/';
-  app.useStaticAssets(staticAssetsPath, {
-    prefix: staticAssetsPrefix,
-  });
-  logger.log(`Serving static assets from '${staticAssetsPath}' at '${staticAssetsPrefix}'`);
+  // Only the local storage driver needs this; S3 objects are served from their public URL
+  const storageService = app.get(StorageService);
+  const staticAssetsPrefix = storageService.getLocalPublicPrefix();
+  if (storageService.isLocal()) {
+    const staticAssetsPath = storageService.getLocalPublicRoot();
+    app.useStaticAssets(staticAssetsPath, {
+      prefix: staticAssetsPrefix,
+    });
+    logger.log(`Serving static assets from '${staticAssetsPath}' at '${staticAssetsPrefix}'`);
+  }
 
   // --- Use WebSocket Adapter ---
   app.useWebSocketAdapter(new IoAdapter(app));
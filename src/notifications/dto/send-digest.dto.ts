@@ -1,14 +1,10 @@
-import { IsString, IsEnum } from 'class-validator';
-
-export enum DigestFrequency {
-  Daily = 'Daily',
-  Weekly = 'Weekly',
-}
+import { IsString, IsIn } from 'class-validator';
+import { DigestFrequency } from '../entities/notification-preference.entity';
 
 export class SendDigestDto {
   @IsString()
   userId: string;
 
-  @IsEnum(DigestFrequency)
-  frequency: DigestFrequency;
+  @IsIn([DigestFrequency.Daily, DigestFrequency.Weekly], { message: 'frequency must be one of: Daily, Weekly.' })
+  frequency: DigestFrequency.Daily | DigestFrequency.Weekly;
 }
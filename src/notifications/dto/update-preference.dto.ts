@@ -1,5 +1,7 @@
-import { IsOptional, IsObject, IsArray, IsString } from 'class-validator';
+import { IsOptional, IsObject, IsArray, IsString, IsEnum, IsInt, Min, Max, IsTimeZone } from 'class-validator';
+import { Type } from 'class-transformer';
 import { NotificationType } from '../entities/notification.entity';
+import { DigestFrequency } from '../entities/notification-preference.entity';
 
 export class UpdatePreferenceDto {
   @IsOptional()
@@ -12,4 +14,20 @@ export class UpdatePreferenceDto {
   @IsArray()
   @IsString({ each: true })
   categories?: string[];
+
+  @IsOptional()
+  @IsEnum(DigestFrequency, { message: `digestFrequency must be one of: ${Object.values(DigestFrequency).join(', ')}.` })
+  digestFrequency?: DigestFrequency;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  digestHour?: number;
+
+  // IANA name, e.g. Africa/Dar_es_Salaam
+  @IsOptional()
+  @IsTimeZone({ message: 'digestTimezone must be a valid IANA time zone.' })
+  digestTimezone?: string;
 }
@@ -1,8 +1,15 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, OneToOne, JoinColumn, Index } from 'typeorm';
 import { User } from '../../auth/entities/user.entity';
 import { NotificationType } from './notification.entity';
 
+export enum DigestFrequency {
+  None = 'None',
+  Daily = 'Daily',
+  Weekly = 'Weekly',
+}
+
 @Entity()
+@Index('idx_notification_preference_digest', ['digestFrequency'])
 export class NotificationPreference {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -18,4 +25,17 @@ export class NotificationPreference {
 
   @Column({ type: 'json', default: [] })
   categories: string[];
+
+  @Column({ type: 'enum', enum: DigestFrequency, default: DigestFrequency.None })
+  digestFrequency: DigestFrequency;
+
+  // Local hour (0-23) in digestTimezone; weekly digests go out on Mondays
+  @Column({ type: 'int', default: 8 })
+  digestHour: number;
+
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  digestTimezone: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastDigestSentAt: Date | null;
 }
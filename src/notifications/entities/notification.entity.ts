@@ -13,6 +13,9 @@ export enum NotificationType {
   Update = 'Update',
   Event = 'Event',
   Emergency = 'Emergency',
+  ExportReady = 'ExportReady',
+  UploadRejected = 'UploadRejected',
+  EventReminder = 'EventReminder',
 }
 
 @Entity()
@@ -0,0 +1,226 @@
+// src/notifications/notification-digest.service.ts
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, MoreThanOrEqual, MoreThan, Not, IsNull, FindOptionsWhere } from 'typeorm';
+import { Notification, NotificationType } from './entities/notification.entity';
+import { NotificationPreference, DigestFrequency } from './entities/notification-preference.entity';
+import { User } from '../auth/entities/user.entity';
+import { MailService } from '../mail/mail.service';
+import { SendDigestDto } from './dto/send-digest.dto';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+
+interface LocalDateParts {
+  date: string; // YYYY-MM-DD
+  hour: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Email digests of unread notifications. Users opt in through their NotificationPreference
+ * (frequency, local hour, time zone); an hourly job sends every digest that has come due.
+ * lastDigestSentAt is claimed before sending, so a digest period is never delivered twice.
+ */
+@Injectable()
+export class NotificationDigestService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationDigestService.name);
+  private readonly MAX_DIGEST_ITEMS = 50;
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(NotificationPreference)
+    private readonly preferenceRepository: Repository<NotificationPreference>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'notification-digests',
+      description: 'Emails daily and weekly notification digests to users whose preferred hour has come.',
+      cronExpression: '0 * * * *',
+      lockTtlMs: 30 * 60 * 1000,
+      handler: () => this.dispatchDueDigests(),
+    });
+  }
+
+  // Manual, admin-triggered digest for one user (POST /notifications/digest)
+  async sendDigest(dto: SendDigestDto): Promise<void> {
+    this.logger.log(`Preparing to send ${dto.frequency} digest for user ID=${dto.userId}`);
+
+    const user = await this.userRepository.findOne({ where: { id: dto.userId } });
+    if (!user) {
+      this.logger.warn(`User not found for digest: ID=${dto.userId}`);
+      throw new NotFoundException(`User with ID ${dto.userId} not found.`);
+    }
+    if (!user.email) {
+      this.logger.warn(`User ${dto.userId} has no email address. Skipping digest.`);
+      return;
+    }
+
+    const preference = await this.preferenceRepository.findOne({ where: { user: { id: dto.userId } } });
+    if (!preference?.channels?.[NotificationType.Update]?.email) {
+      this.logger.log(`Email digest requires 'Update' email preference enabled for user ID=${dto.userId}. Skipping digest.`);
+      return;
+    }
+
+    const since = new Date(Date.now() - this.getPeriodMs(dto.frequency));
+    try {
+      const sent = await this.deliver(user, preference, dto.frequency, since);
+      if (sent) await this.preferenceRepository.update({ id: preference.id }, { lastDigestSentAt: new Date() });
+    } catch (error: any) {
+      this.logger.error(`Error preparing/sending digest for user ${dto.userId}: ${error.message}`, error.stack);
+    }
+  }
+
+  async dispatchDueDigests(): Promise<void> {
+    const now = new Date();
+    const batchSize = Number(this.configService.get<number>('DIGEST_BATCH_SIZE', 50));
+    let lastId: string | null = null;
+    let checked = 0;
+    let sent = 0;
+
+    // Keyset pagination keeps each batch small regardless of how many users opted in
+    for (;;) {
+      const where: FindOptionsWhere<NotificationPreference> = { digestFrequency: Not(DigestFrequency.None) };
+      if (lastId) where.id = MoreThan(lastId);
+      const batch = await this.preferenceRepository.find({
+        where,
+        relations: ['user'],
+        order: { id: 'ASC' },
+        take: batchSize,
+      });
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+      checked += batch.length;
+
+      const due = batch.filter(preference => preference.user?.email && this.isDigestDue(preference, now));
+      const results = await Promise.allSettled(due.map(preference => this.sendScheduledDigest(preference, now)));
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          if (result.value) sent++;
+        } else {
+          this.logger.error(`Scheduled digest for user ${due[index].user.id} failed: ${result.reason?.message}`);
+        }
+      });
+      if (batch.length < batchSize) break;
+    }
+    this.logger.log(`Digest dispatch finished: ${sent} sent, ${checked} opted-in users checked.`);
+  }
+
+  private async sendScheduledDigest(preference: NotificationPreference, now: Date): Promise<boolean> {
+    const frequency = preference.digestFrequency as DigestFrequency.Daily | DigestFrequency.Weekly;
+    const previous = preference.lastDigestSentAt;
+    // Notifications already covered by an earlier digest are not repeated
+    const periodStart = new Date(now.getTime() - this.getPeriodMs(frequency));
+    const since = previous && previous > periodStart ? previous : periodStart;
+
+    // Claim the period first; another run that read the same row loses the race and skips it
+    const claim = await this.preferenceRepository.update(
+      { id: preference.id, lastDigestSentAt: previous ?? IsNull() },
+      { lastDigestSentAt: now },
+    );
+    if (claim.affected !== 1) return false;
+
+    let sent = false;
+    try {
+      sent = await this.deliver(preference.user, preference, frequency, since);
+    } finally {
+      // Nothing went out, so hand the period back for the next run
+      if (!sent) {
+        await this.preferenceRepository.update({ id: preference.id, lastDigestSentAt: now }, { lastDigestSentAt: previous });
+      }
+    }
+    return sent;
+  }
+
+  private async deliver(
+    user: User,
+    preference: NotificationPreference,
+    frequency: DigestFrequency.Daily | DigestFrequency.Weekly,
+    since: Date,
+  ): Promise<boolean> {
+    const notifications = await this.notificationRepository.find({
+      where: {
+        user: { id: user.id },
+        createdAt: MoreThanOrEqual(since),
+        isRead: false,
+      },
+      order: { createdAt: 'DESC' },
+      take: this.MAX_DIGEST_ITEMS,
+    });
+    if (notifications.length === 0) {
+      this.logger.log(`No unread notifications found for ${frequency} digest for user ID=${user.id}. Skipping send.`);
+      return false;
+    }
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    await this.mailService.enqueue(user.email, 'digest', {
+      recipientName: user.fullName || 'User',
+      frequencyLabel: frequency.toLowerCase(),
+      items: notifications.map(({ type, message, createdAt }) => ({ type, message, createdAt })),
+      notificationsUrl: `${frontendUrl}/notifications`,
+      preferencesUrl: `${frontendUrl}/settings/notifications`,
+      timeZone: this.resolveTimeZone(preference.digestTimezone),
+    });
+    this.logger.log(`Queued ${frequency} digest (${notifications.length} items) for user ID=${user.id}`);
+    return true;
+  }
+
+  // Due once the preferred local hour has passed in the current period (local day, or week starting Monday)
+  private isDigestDue(preference: NotificationPreference, now: Date): boolean {
+    const timeZone = this.resolveTimeZone(preference.digestTimezone);
+    const local = this.getLocalParts(now, timeZone);
+    if (local.hour < preference.digestHour) return false;
+    if (!preference.lastDigestSentAt) return true;
+
+    const daysIntoPeriod = preference.digestFrequency === DigestFrequency.Weekly ? (local.weekday + 6) % 7 : 0;
+    const periodStartDate = this.shiftDate(local.date, -daysIntoPeriod);
+    return this.getLocalParts(preference.lastDigestSentAt, timeZone).date < periodStartDate;
+  }
+
+  private getLocalParts(date: Date, timeZone: string): LocalDateParts {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short',
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)?.value ?? '';
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      hour: Number(part('hour')),
+      weekday: WEEKDAYS.indexOf(part('weekday')),
+    };
+  }
+
+  private shiftDate(isoDate: string, days: number): string {
+    return new Date(new Date(`${isoDate}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  // Stored zones are validated on update, but fall back rather than fail the whole batch
+  private resolveTimeZone(timeZone: string | null | undefined): string {
+    if (!timeZone) return 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      this.logger.warn(`Invalid digest time zone "${timeZone}", using UTC`);
+      return 'UTC';
+    }
+  }
+
+  private getPeriodMs(frequency: DigestFrequency): number {
+    return frequency === DigestFrequency.Weekly ? 7 * DAY_MS : DAY_MS;
+  }
+}
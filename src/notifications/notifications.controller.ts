@@ -18,6 +18,7 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { NotificationsService } from './notifications.service';
+import { NotificationDigestService } from './notification-digest.service';
 import { CreateNotificationDto } from './dto/create-notification.dto';
 import { UpdatePreferenceDto } from './dto/update-preference.dto';
 import { SendDigestDto } from './dto/send-digest.dto';
@@ -40,7 +41,10 @@ export interface AuthenticatedRequest extends express.Request {
 export class NotificationsController {
   private readonly logger = new Logger(NotificationsController.name);
 
-  constructor(private notificationsService: NotificationsService) {
+  constructor(
+    private notificationsService: NotificationsService,
+    private notificationDigestService: NotificationDigestService,
+  ) {
     this.logger.log('NotificationsController initialized');
   }
 
@@ -174,7 +178,7 @@ export class NotificationsController {
     if (!dto.userId) {
       throw new BadRequestException('userId is required in the request body.');
     }
-    await this.notificationsService.sendDigest(dto);
+    await this.notificationDigestService.sendDigest(dto);
     return {
       message: 'Digest processed successfully',
     };
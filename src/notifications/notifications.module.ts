@@ -2,6 +2,7 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { NotificationsService } from './notifications.service';
+import { NotificationDigestService } from './notification-digest.service';
 import { NotificationsController } from './notifications.controller';
 import { Notification } from './entities/notification.entity';
 import { NotificationPreference } from './entities/notification-preference.entity';
@@ -9,15 +10,20 @@ import { User } from '../auth/entities/user.entity';
 import { NotificationsGateway } from './notifications.gateway';
 import { AuthModule } from '../auth/auth.module';
 import { WsJwtGuard } from '../auth/ws-jwt.guard';
+import { CommonModule } from '../common/common.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Notification, NotificationPreference, User]),
     AuthModule,
+    CommonModule,
+    MailModule,
   ],
   controllers: [NotificationsController],
   providers: [
     NotificationsService,
+    NotificationDigestService,
     NotificationsGateway,
     WsJwtGuard
   ],
@@ -11,22 +11,20 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThanOrEqual, FindOptionsWhere, UpdateResult, DeleteResult } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import * as nodemailer from 'nodemailer';
 import { Notification, NotificationType } from './entities/notification.entity';
 import { NotificationPreference } from './entities/notification-preference.entity';
 import { CreateNotificationDto } from './dto/create-notification.dto';
 import { UpdatePreferenceDto } from './dto/update-preference.dto';
-import { DigestFrequency, SendDigestDto } from './dto/send-digest.dto';
 import { User } from '../auth/entities/user.entity';
 import { UserRole } from '../common/interfaces/entities.interface';
 import { NotificationsGateway } from './notifications.gateway';
 import { GetNotificationsQueryDto } from './dto/get-notifications-query.dto';
 import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+import { MailService } from '../mail/mail.service';
 
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
-  private readonly transporter: nodemailer.Transporter | null;
 
   constructor(
     @InjectRepository(Notification)
@@ -38,35 +36,9 @@ export class NotificationsService {
     private configService: ConfigService,
     @Inject(forwardRef(() => NotificationsGateway))
     private notificationsGateway: NotificationsGateway,
+    private mailService: MailService,
   ) {
-    const emailService = this.configService.get<string>('EMAIL_SERVICE');
-    const emailUser = this.configService.get<string>('EMAIL_USER');
-    const emailPass = this.configService.get<string>('EMAIL_PASS');
-    const emailFromName = this.configService.get<string>('EMAIL_FROM_NAME', 'CIVE Gallery');
-
-    if (!emailUser || !emailPass) {
-      this.logger.error(
-        'Email credentials (EMAIL_USER, EMAIL_PASS) not found. Email functionality disabled.',
-      );
-      this.transporter = null;
-    } else {
-      try {
-        this.transporter = nodemailer.createTransport({
-          service: emailService,
-          auth: {
-            user: emailUser,
-            pass: emailPass,
-          },
-        });
-        this.transporter.verify()
-          .then(() => this.logger.log(`Nodemailer transporter configured successfully for service: ${emailService}`))
-          .catch(error => this.logger.error(`Nodemailer transporter configuration error: ${error.message}`, error.stack));
-      } catch (error: any) {
-        this.logger.error(`Failed to create Nodemailer transporter: ${error.message}`, error.stack);
-        this.transporter = null;
-      }
-    }
-    this.logger.log(`NotificationsService initialized. Email Service: ${emailService || 'N/A'}, Sender Name: ${emailFromName}`);
+    this.logger.log('NotificationsService initialized');
   }
 
   async createNotification(dto: CreateNotificationDto): Promise<Notification> {
@@ -155,7 +127,7 @@ export class NotificationsService {
           this.shouldSendEmail(dto.type, user)
         ) {
           if (user.email) {
-            await this.sendEmail(user.email, `New Notification: ${dto.message}`, `[${dto.type}] New CIVE Gallery Notification`);
+            await this.queueNotificationEmail(user, dto);
           } else {
             this.logger.warn(`User ${dto.userId} has no email address. Skipping email for notification ${savedNotification.id}.`);
           }
@@ -174,6 +146,30 @@ export class NotificationsService {
     }
   }
 
+  /**
+   * Delivers over the channels the user enabled for the notification type: in-app (with the
+   * WebSocket push and, if enabled, email) or email alone. Without a saved choice for the type,
+   * in-app is on and email off, as with createNotification.
+   */
+  async notifyByPreference(dto: CreateNotificationDto): Promise<void> {
+    const preference = await this.preferenceRepository.findOne({ where: { user: { id: dto.userId } } });
+    const channel = preference?.channels?.[dto.type];
+    if (channel?.inApp !== false) {
+      await this.createNotification(dto);
+      return;
+    }
+    if (!channel.email) {
+      this.logger.debug(`All channels disabled for ${dto.type} notifications of user ID=${dto.userId}, skipping.`);
+      return;
+    }
+    const user = await this.userRepository.findOne({ where: { id: dto.userId } });
+    if (!user?.email) {
+      this.logger.warn(`User ${dto.userId} has no email address. Skipping email-only ${dto.type} notification.`);
+      return;
+    }
+    await this.queueNotificationEmail(user, dto);
+  }
+
   // --- Modified getNotifications ---
   async getNotifications(
     userId: string,
@@ -322,52 +318,6 @@ export class NotificationsService {
     return preference;
   }
 
-  // --- sendEmail - No changes needed here ---
-  async sendEmail(to: string, message: string, subject: string = 'CIVE Gallery Notification'): Promise<void> {
-    this.logger.debug(`Attempting to send email to: ${to}, Subject: ${subject}`);
-
-    if (!this.transporter) {
-      this.logger.error('Nodemailer transporter not configured. Cannot send email.');
-      return;
-    }
-    const emailFrom = this.configService.get<string>('EMAIL_USER');
-    const emailFromName = this.configService.get<string>('EMAIL_FROM_NAME', 'CIVE Gallery');
-    if (!emailFrom) {
-      this.logger.error('EMAIL_USER not configured. Cannot set "from" address.');
-      return;
-    }
-
-    const mailOptions = {
-      from: `"${emailFromName}" <${emailFrom}>`,
-      to,
-      subject,
-      text: message,
-    };
-
-    try {
-      const info = await this.transporter.sendMail(mailOptions);
-      this.logger.log(`Successfully sent email to: ${to}, Message ID: ${info.messageId}`);
-    } catch (error: any) {
-      this.logger.error(`Initial email delivery failed to ${to}: ${error.message}`, error.stack);
-
-      this.logger.log(`Retrying email delivery to ${to}...`);
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      try {
-        const retryInfo = await this.transporter.sendMail({
-          ...mailOptions,
-          subject: `[Retry] ${subject}`
-        });
-        this.logger.log(`Retry email successful to: ${to}, Message ID: ${retryInfo.messageId}`);
-      } catch (retryError: any) {
-        this.logger.error(
-          `Retry email failed to ${to}: ${retryError.message}`,
-          retryError.stack,
-        );
-      }
-    }
-  }
-
   // --- markNotificationRead - No changes needed here ---
   async markNotificationRead(notificationId: string, userId: string): Promise<Notification> {
     this.logger.log(`Attempting to mark notification ID=${notificationId} as read for user ID=${userId}`);
@@ -444,6 +394,10 @@ export class NotificationsService {
       }
     }
 
+    if (dto.digestFrequency !== undefined) preference.digestFrequency = dto.digestFrequency;
+    if (dto.digestHour !== undefined) preference.digestHour = dto.digestHour;
+    if (dto.digestTimezone !== undefined) preference.digestTimezone = dto.digestTimezone;
+
     try {
       const savedPreference = await this.preferenceRepository.save(preference);
       this.logger.log(`Successfully updated preferences for user ID=${userId}`);
@@ -457,76 +411,6 @@ export class NotificationsService {
     }
   }
 
-  // --- sendDigest - No changes needed here ---
-  async sendDigest(dto: SendDigestDto): Promise<void> {
-    this.logger.log(
-      `Preparing to send ${dto.frequency} digest for user ID=${dto.userId}`,
-    );
-
-    const user = await this.userRepository.findOne({ where: { id: dto.userId } });
-    if (!user) {
-      this.logger.warn(`User not found for digest: ID=${dto.userId}`);
-      throw new NotFoundException(`User with ID ${dto.userId} not found.`);
-    }
-    if (!user.email) {
-      this.logger.warn(`User ${dto.userId} has no email address. Skipping digest.`);
-      return;
-    }
-
-    const preference = await this.preferenceRepository.findOne({
-      where: { user: { id: dto.userId } },
-    });
-    if (!preference?.channels?.[NotificationType.Update]?.email) {
-      this.logger.log(
-        `Email digest requires 'Update' email preference enabled for user ID=${dto.userId}. Skipping digest.`,
-      );
-      return;
-    }
-
-    const startDate = new Date();
-    if (dto.frequency === DigestFrequency.Daily) {
-      startDate.setDate(startDate.getDate() - 1);
-    } else if (dto.frequency === DigestFrequency.Weekly) {
-      startDate.setDate(startDate.getDate() - 7);
-    } else {
-      this.logger.error(`Invalid digest frequency specified: '${String(dto.frequency)}'`);
-      throw new BadRequestException('Invalid digest frequency specified.');
-    }
-
-    try {
-      const notifications = await this.notificationRepository.find({
-        where: {
-          user: { id: dto.userId },
-          createdAt: MoreThanOrEqual(startDate),
-          isRead: false,
-        },
-        order: { createdAt: 'DESC' },
-        take: 50,
-      });
-
-      if (notifications.length === 0) {
-        this.logger.log(
-          `No unread notifications found for ${dto.frequency} digest for user ID=${dto.userId}. Skipping send.`,
-        );
-        return;
-      }
-
-      const frontendNotificationsUrl = `${this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000')}/notifications`;
-
-      const messageBody = notifications
-        .map(n => `- (${n.type}) ${n.message} [${n.createdAt.toLocaleDateString()}]`)
-        .join('\n');
-      const message = `Hello ${user.fullName || 'User'},\n\nHere is your ${dto.frequency} digest from CIVE Gallery:\n\n${messageBody}\n\nView all notifications here: ${frontendNotificationsUrl}\n\nRegards,\nThe CIVE Gallery Team`;
-      const subject = `Your ${dto.frequency} CIVE Gallery Digest`;
-
-      await this.sendEmail(user.email, message, subject);
-      this.logger.log(`Sent ${dto.frequency} digest email to ${user.email}`);
-
-    } catch (error: any) {
-      this.logger.error(`Error preparing/sending digest for user ${dto.userId}: ${error.message}`, error.stack);
-    }
-  }
-
   // --- sendBroadcast - Needs update for WS payload ---
   async sendBroadcast(message: string, role?: UserRole): Promise<void> {
     this.logger.log(
@@ -588,25 +472,15 @@ export class NotificationsService {
         }
       });
 
-      this.logger.log(`Starting email broadcast to ${users.length} users...`);
-      let successCount = 0;
-      let failureCount = 0;
-      const emailPromises = users.map(async (user) => {
-        if (!user.email) {
-          this.logger.warn(`User ${user.id} has no email for broadcast. Skipping email.`);
-          failureCount++;
-          return;
-        }
-        try {
-          await this.sendEmail(user.email, message, 'Important CIVE Gallery Broadcast');
-          successCount++;
-        } catch {
-          failureCount++;
-        }
-      });
-
-      await Promise.all(emailPromises);
-      this.logger.log(`Email broadcast finished. Success: ${successCount}, Failures: ${failureCount}`);
+      // Queued rather than sent inline; the mail outbox paces delivery
+      const recipients = users.filter(user => user.email).map(user => user.email);
+      if (recipients.length < users.length) {
+        this.logger.warn(`${users.length - recipients.length} broadcast recipients have no email address. Skipping their email.`);
+      }
+      if (recipients.length > 0) {
+        await this.mailService.enqueueMany(recipients, 'broadcast', { message });
+      }
+      this.logger.log(`Queued broadcast email for ${recipients.length} users.`);
 
     } catch (error: any) {
       this.logger.error(`Error during broadcast database save or WS push phase: ${error.message}`, error.stack);
@@ -614,6 +488,19 @@ export class NotificationsService {
     }
   }
 
+  private async queueNotificationEmail(user: User, dto: CreateNotificationDto): Promise<void> {
+    const notificationsUrl = `${this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000')}/notifications`;
+    if (dto.type === NotificationType.Approval) {
+      await this.mailService.enqueue(user.email, 'approval', {
+        recipientName: user.fullName || 'User',
+        message: dto.message,
+        notificationsUrl,
+      });
+    } else {
+      await this.mailService.enqueue(user.email, 'notification', { type: dto.type, message: dto.message, notificationsUrl });
+    }
+  }
+
   // --- shouldSendEmail - No changes needed here ---
   private shouldSendEmail(type: NotificationType, user: User): boolean {
     if (!user.email) {
@@ -1,16 +1,17 @@
-import { IsArray, IsString, ValidateNested } from 'class-validator';
+import { ArrayNotEmpty, IsArray, IsString, IsUUID, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 class ItemId {
   @IsString()
   type: string;
 
-  @IsString()
+  @IsUUID()
   id: string;
 }
 
 export class BulkDownloadDto {
   @IsArray()
+  @ArrayNotEmpty()
   @ValidateNested({ each: true })
   @Type(() => ItemId)
   itemIds: ItemId[];
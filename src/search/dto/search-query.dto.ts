@@ -7,6 +7,7 @@ export enum SearchableItemType {
   Gallery = 'gallery',
   Event = 'event',
   Update = 'update',
+  Album = 'album',
 }
 
 export class SearchQueryDto {
@@ -0,0 +1,67 @@
+// src/search/entities/export-job.entity.ts
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, Index } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import type { BulkDownloadManifestEntry } from '../search.service';
+
+export enum ExportJobStatus {
+  Pending = 'Pending',
+  Processing = 'Processing',
+  Ready = 'Ready',
+  Failed = 'Failed',
+  Expired = 'Expired',
+}
+
+@Entity()
+@Index('idx_export_job_status', ['status'])
+export class ExportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'json' })
+  items: { type: string; id: string }[];
+
+  @Column({ type: 'enum', enum: ExportJobStatus, default: ExportJobStatus.Pending })
+  status: ExportJobStatus;
+
+  @Column({ default: 0 })
+  totalItems: number;
+
+  @Column({ default: 0 })
+  totalFiles: number;
+
+  @Column({ default: 0 })
+  processedFiles: number;
+
+  @Column({ default: 0 })
+  progress: number; // Percentage 0-100
+
+  @Column({ type: 'json', nullable: true })
+  manifest: BulkDownloadManifestEntry[] | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  fileName: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  fileSize: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @ManyToOne(() => User, { eager: false, onDelete: 'CASCADE' })
+  requestedBy: User;
+
+  @Column('uuid')
+  requestedById: string;
+
+  @CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+}
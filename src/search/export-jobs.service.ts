@@ -0,0 +1,333 @@
+// src/search/export-jobs.service.ts
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  InternalServerErrorException,
+  StreamableFile,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import { Response } from 'express';
+import { ExportJob, ExportJobStatus } from './entities/export-job.entity';
+import { User } from '../auth/entities/user.entity';
+import { UserRole } from '../common/interfaces/entities.interface';
+import { SearchService, BulkDownloadFile, BulkDownloadManifestEntry } from './search.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { StorageService } from '../common/storage/storage.service';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
+
+@Injectable()
+export class ExportJobsService implements OnModuleInit {
+  private readonly logger = new Logger(ExportJobsService.name);
+  // Archives are stored privately and only reachable through the job download endpoint
+  private readonly EXPORT_PREFIX = 'exports';
+  private readonly PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+  private readonly queue: string[] = [];
+  private isProcessing = false;
+
+  constructor(
+    @InjectRepository(ExportJob)
+    private readonly exportJobRepository: Repository<ExportJob>,
+    private readonly searchService: SearchService,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly jobSchedulerService: JobSchedulerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'export-cleanup',
+      description: 'Expires finished export jobs past their retention period and deletes their archives.',
+      cronExpression: '15 * * * *',
+      handler: async () => { await this.cleanupExpiredJobs(); },
+    });
+    await this.jobSchedulerService.register({
+      name: 'export-job-recovery',
+      description: 'Re-queues export jobs left pending or stuck in processing by an instance that stopped.',
+      cronExpression: '*/10 * * * *',
+      handler: () => this.resumeUnfinished(),
+    });
+    // Resume jobs interrupted by a restart; jobs another instance claims first are skipped
+    try {
+      await this.resumeUnfinished();
+    } catch (error: any) {
+      this.logger.error(`Failed to resume unfinished export jobs: ${error.message}`, error.stack);
+    }
+  }
+
+  async resumeUnfinished(): Promise<void> {
+    const staleMinutes = Number(this.configService.get<number>('EXPORT_JOB_STALE_MINUTES', 60));
+    const released = await this.exportJobRepository.update(
+      { status: ExportJobStatus.Processing, startedAt: LessThan(new Date(Date.now() - staleMinutes * 60 * 1000)) },
+      { status: ExportJobStatus.Pending },
+    );
+    if (released.affected) this.logger.warn(`Released ${released.affected} export jobs stuck in processing.`);
+
+    const pendingJobs = await this.exportJobRepository.find({
+      where: { status: ExportJobStatus.Pending },
+      select: ['id'],
+      order: { createdAt: 'ASC' },
+    });
+    pendingJobs.forEach(job => this.enqueue(job.id));
+    if (pendingJobs.length > 0) {
+      this.logger.log(`Queued ${pendingJobs.length} pending export jobs.`);
+    }
+  }
+
+  async createJob(user: User, itemIds: { type: string; id: string }[]): Promise<ExportJob> {
+    this.logger.log(`Export job request for ${itemIds?.length ?? 0} items from user ${user.id}`);
+    if (user.role === UserRole.Visitor) {
+      throw new ForbiddenException('Visitors are not permitted to create export jobs.');
+    }
+    if (!itemIds || itemIds.length === 0) {
+      throw new BadRequestException('No items were selected for export.');
+    }
+    const maxItems = this.configService.get<number>('EXPORT_JOB_MAX_ITEMS', 5000);
+    if (itemIds.length > maxItems) {
+      throw new BadRequestException(`An export job can include at most ${maxItems} items.`);
+    }
+
+    const job = this.exportJobRepository.create({
+      items: itemIds.map(({ type, id }) => ({ type, id })),
+      totalItems: itemIds.length,
+      status: ExportJobStatus.Pending,
+      requestedBy: user,
+      requestedById: user.id,
+    });
+
+    try {
+      const savedJob = await this.exportJobRepository.save(job);
+      this.logger.log(`Created export job ${savedJob.id} (${savedJob.totalItems} items) for user ${user.id}`);
+      this.enqueue(savedJob.id);
+      return this.toPublicJob(savedJob);
+    } catch (error: any) {
+      this.logger.error(`Failed to create export job for user ${user.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not create the export job.');
+    }
+  }
+
+  async getJob(user: User, jobId: string): Promise<ExportJob> {
+    const job = await this.findAccessibleJob(user, jobId);
+    return this.toPublicJob(job);
+  }
+
+  async getJobFileStream(user: User, jobId: string, res: Response): Promise<StreamableFile> {
+    const job = await this.findAccessibleJob(user, jobId);
+    if (job.status !== ExportJobStatus.Ready || !job.fileName) {
+      throw new BadRequestException(`Export job is not ready for download (status: ${job.status}).`);
+    }
+
+    const key = `${this.EXPORT_PREFIX}/${job.fileName}`;
+    try {
+      const stats = await this.storageService.stat(key, 'private');
+      if (!stats) {
+        this.logger.warn(`Export archive missing for job ${job.id}: ${key}`);
+        throw new NotFoundException('Export archive is no longer available.');
+      }
+      res.set({
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="cive-gallery-export-${job.id}.zip"`,
+        'Content-Length': stats.size.toString(),
+      });
+      return new StreamableFile(await this.storageService.createReadStream(key, 'private'));
+    } catch (error: any) {
+      if (error instanceof NotFoundException) throw error;
+      this.logger.error(`Error streaming export archive for job ${job.id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not retrieve the export archive.');
+    }
+  }
+
+  async cleanupExpiredJobs(): Promise<number> {
+    const expiredJobs = await this.exportJobRepository.find({
+      where: {
+        status: In([ExportJobStatus.Ready, ExportJobStatus.Failed]),
+        expiresAt: LessThan(new Date()),
+      },
+    });
+    if (expiredJobs.length === 0) return 0;
+
+    for (const job of expiredJobs) {
+      if (job.fileName) {
+        await this.deleteStoredArchive(job.fileName);
+      }
+      job.status = ExportJobStatus.Expired;
+      job.fileName = null;
+    }
+    await this.exportJobRepository.save(expiredJobs);
+    this.logger.log(`Expired ${expiredJobs.length} export jobs and removed their archives.`);
+    return expiredJobs.length;
+  }
+
+  private enqueue(jobId: string): void {
+    if (this.queue.includes(jobId)) return;
+    this.queue.push(jobId);
+    void this.drainQueue();
+  }
+
+  // Jobs are processed one at a time so large exports do not starve the API of disk/CPU
+  private async drainQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      let jobId = this.queue.shift();
+      while (jobId) {
+        try {
+          await this.processJob(jobId);
+        } catch (error: any) {
+          this.logger.error(`Unexpected error processing export job ${jobId}: ${error.message}`, error.stack);
+        }
+        jobId = this.queue.shift();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processJob(jobId: string): Promise<void> {
+    // Claimed atomically, so a job queued on several instances is processed once
+    const claim = await this.exportJobRepository.update(
+      { id: jobId, status: ExportJobStatus.Pending },
+      { status: ExportJobStatus.Processing, startedAt: new Date(), progress: 0, processedFiles: 0 },
+    );
+    if (claim.affected !== 1) {
+      this.logger.debug(`Skipping export job ${jobId}: no longer pending.`);
+      return;
+    }
+    const job = await this.exportJobRepository.findOne({ where: { id: jobId }, relations: ['requestedBy'] });
+    if (!job) {
+      this.logger.warn(`Export job ${jobId} disappeared before processing.`);
+      return;
+    }
+    if (!job.requestedBy) {
+      await this.failJob(job, 'Requesting user no longer exists.');
+      return;
+    }
+
+    const startTime = Date.now();
+    this.logger.log(`Processing export job ${job.id} (${job.totalItems} items)`);
+
+    try {
+      const { files, manifest } = await this.searchService.collectBulkDownloadFiles(job.requestedBy, job.items);
+      job.manifest = manifest;
+      job.totalFiles = files.length;
+      await this.exportJobRepository.save(job);
+
+      if (files.length === 0) {
+        await this.failJob(job, 'None of the selected items could be included in the export.');
+        return;
+      }
+
+      const fileName = `export-${job.id}.zip`;
+      const filePath = await this.storageService.createStagingPath(fileName);
+
+      await this.writeArchive(job, files, manifest, filePath);
+
+      const stats = await fsp.stat(filePath);
+      await this.storageService.moveFile(`${this.EXPORT_PREFIX}/${fileName}`, filePath, { visibility: 'private', contentType: 'application/zip' });
+      const retentionHours = this.configService.get<number>('EXPORT_RETENTION_HOURS', 24);
+      job.status = ExportJobStatus.Ready;
+      job.fileName = fileName;
+      job.fileSize = stats.size.toString();
+      job.processedFiles = files.length;
+      job.progress = 100;
+      job.completedAt = new Date();
+      job.expiresAt = new Date(Date.now() + retentionHours * 60 * 60 * 1000);
+      await this.exportJobRepository.save(job);
+      this.logger.log(`Export job ${job.id} ready: ${files.length} files, ${stats.size} bytes, duration=${Date.now() - startTime}ms`);
+
+      try {
+        await this.notificationsService.createNotification({
+          userId: job.requestedById,
+          message: `Your export of ${job.totalItems} items is ready to download. It will be available until ${job.expiresAt.toLocaleString()}.`,
+          type: NotificationType.ExportReady,
+          referenceId: job.id,
+        });
+      } catch (notificationError: any) {
+        this.logger.error(`Failed to send export ready notification for job ${job.id}: ${notificationError.message}`, notificationError.stack);
+      }
+    } catch (error: any) {
+      this.logger.error(`Export job ${job.id} failed: ${error.message}`, error.stack);
+      await fsp.rm(path.join(this.storageService.getStagingDirectory(), `export-${job.id}.zip`), { force: true });
+      await this.deleteStoredArchive(`export-${job.id}.zip`);
+      await this.failJob(job, 'The export archive could not be created.');
+    }
+  }
+
+  private async writeArchive(
+    job: ExportJob,
+    files: BulkDownloadFile[],
+    manifest: BulkDownloadManifestEntry[],
+    filePath: string,
+  ): Promise<void> {
+    const archive = this.searchService.buildBulkArchive(files, manifest, job.requestedBy);
+    const output = fs.createWriteStream(filePath);
+    let lastProgressSave = 0;
+
+    archive.on('progress', (progress) => {
+      const now = Date.now();
+      if (now - lastProgressSave < this.PROGRESS_SAVE_INTERVAL_MS) return;
+      lastProgressSave = now;
+      const processedFiles = Math.min(progress.entries.processed, files.length);
+      const percentage = Math.floor((processedFiles / files.length) * 100);
+      this.exportJobRepository.update({ id: job.id }, { processedFiles, progress: Math.min(percentage, 99) })
+        .catch(error => this.logger.warn(`Failed to record progress for export job ${job.id}: ${error.message}`));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      output.on('close', () => resolve());
+      output.on('error', reject);
+      archive.on('error', reject);
+      archive.pipe(output);
+      archive.finalize().catch(reject);
+    });
+  }
+
+  private async failJob(job: ExportJob, reason: string): Promise<void> {
+    const retentionHours = this.configService.get<number>('EXPORT_RETENTION_HOURS', 24);
+    job.status = ExportJobStatus.Failed;
+    job.errorMessage = reason;
+    job.completedAt = new Date();
+    job.expiresAt = new Date(Date.now() + retentionHours * 60 * 60 * 1000);
+    try {
+      await this.exportJobRepository.save(job);
+    } catch (error: any) {
+      this.logger.error(`Failed to mark export job ${job.id} as failed: ${error.message}`, error.stack);
+    }
+  }
+
+  private async findAccessibleJob(user: User, jobId: string): Promise<ExportJob> {
+    const job = await this.exportJobRepository.findOne({ where: { id: jobId } });
+    if (!job) throw new NotFoundException(`Export job ${jobId} not found.`);
+    if (job.requestedById !== user.id && user.role !== UserRole.Admin) {
+      throw new ForbiddenException('Access denied to this export job.');
+    }
+    return job;
+  }
+
+  // Strips the server-side filename so clients only see job state
+  private toPublicJob(job: ExportJob): ExportJob {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { fileName, requestedBy, ...publicJob } = job;
+    return publicJob as ExportJob;
+  }
+
+  private async deleteStoredArchive(fileName: string): Promise<void> {
+    try {
+      await this.storageService.delete(`${this.EXPORT_PREFIX}/${fileName}`, 'private');
+      this.logger.log(`Deleted export archive: ${fileName}`);
+    } catch (err: any) {
+      this.logger.error(`Failed delete export archive ${fileName}: ${err.message}`);
+    }
+  }
+}
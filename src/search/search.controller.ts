@@ -14,6 +14,8 @@ import {
   StreamableFile,
   Res,
   BadRequestException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { SearchService, PaginatedSearchResults, SearchResultItem } from './search.service';
 import { JwtAuthGuard } from '../auth/wt-auth.guard';
@@ -28,6 +30,8 @@ import { ShareItemDto } from './dto/share-item.dto';
 import { BulkDownloadDto } from './dto/bulk-download.dto';
 import type { Response } from 'express';
 import { Annotation } from './entities/annotation.entity';
+import { ExportJob } from './entities/export-job.entity';
+import { ExportJobsService } from './export-jobs.service';
 
 
 import * as express from 'express';
@@ -52,9 +56,9 @@ interface SuggestionsApiResponse {
   message: string;
   data: SearchResultItem[];
 }
-interface BulkDownloadApiResponse {
+interface ExportJobApiResponse {
   message: string;
-  data: { url: string };
+  data: ExportJob;
 }
 
 interface ShareApiResponse {
@@ -81,7 +85,10 @@ interface AnnotationsListApiResponse {
 export class SearchController {
   private readonly logger = new Logger(SearchController.name);
 
-  constructor(private readonly searchService: SearchService) {
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly exportJobsService: ExportJobsService,
+  ) {
     this.logger.log('SearchController initialized');
   }
 
@@ -119,6 +126,44 @@ export class SearchController {
     return { message: 'Content suggestions fetched', data: suggestions };
   }
 
+  @Post('download/jobs')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createExportJob(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ whitelist: true })) body: BulkDownloadDto,
+  ): Promise<ExportJobApiResponse> {
+    this.logger.log(`Handling export job create: userId=${req.user.id}, items=${body.itemIds.length}`);
+    const job = await this.exportJobsService.createJob(req.user, body.itemIds);
+    return { message: 'Export job created', data: job };
+  }
+
+  // Declared before 'download/:itemType/:id' so "jobs" is not treated as an item type
+  @Get('download/jobs/:id')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async getExportJob(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ExportJobApiResponse> {
+    this.logger.log(`Handling export job status: id=${id}, userId=${req.user.id}`);
+    const job = await this.exportJobsService.getJob(req.user, id);
+    return { message: 'Export job fetched successfully', data: job };
+  }
+
+  @Get('download/jobs/:id/file')
+  @Roles(UserRole.Admin, UserRole.Staff)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async downloadExportJobFile(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Handling export job download: id=${id}, userId=${req.user.id}`);
+    return this.exportJobsService.getJobFileStream(req.user, id, res);
+  }
+
   @Get('download/:itemType/:id')
   @UseGuards(JwtAuthGuard)
   async downloadItem(
@@ -126,23 +171,23 @@ export class SearchController {
     @Param('itemType') itemType: string, // Basic validation, service handles specifics
     @Param('id', ParseUUIDPipe) id: string,
     @Res({ passthrough: true }) res: Response,
-  ): Promise<StreamableFile> {
+  ): Promise<StreamableFile | undefined> {
     this.logger.log(`Handling download request: type=${itemType}, id=${id}, userId=${req.user.id}`);
     const filename = await this.searchService.downloadItem(req.user, itemType, id);
-    // Delegate streaming to the service (which might further delegate)
-    return this.searchService.getAttachmentStream(filename, res);
+    // Delegate streaming to the service (which might further delegate); supports Range and conditional requests
+    return this.searchService.getAttachmentStream(filename, req, res);
   }
 
   @Post('download/bulk')
   @Roles(UserRole.Admin, UserRole.Staff)
   @UseGuards(JwtAuthGuard, RolesGuard)
-  bulkDownload(
+  async bulkDownload(
     @Req() req: AuthenticatedRequest,
     @Body(new ValidationPipe({ whitelist: true })) body: BulkDownloadDto,
-  ): BulkDownloadApiResponse {
-    this.logger.log(`Handling bulk download: userId=${req.user.id}`);
-    const url = this.searchService.downloadBulk(req.user, body.itemIds);
-    return { message: 'Bulk download initiated (placeholder)', data: { url } };
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Handling bulk download: userId=${req.user.id}, items=${body.itemIds.length}`);
+    return this.searchService.downloadBulk(req.user, body.itemIds, res);
   }
 
   @Post('share')
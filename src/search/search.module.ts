@@ -7,16 +7,20 @@ import { SearchController } from './search.controller';
 import { SearchHistory } from './entities/search-history.entity';
 import { ShareLink } from './entities/share-link.entity';
 import { Annotation } from './entities/annotation.entity';
+import { ExportJob } from './entities/export-job.entity';
+import { ExportJobsService } from './export-jobs.service';
 import { GalleryModule } from '../gallery/gallery.module';
 import { EventsModule } from '../events/events.module';
 import { UpdatesModule } from '../updates/updates.module';
 import { AuthModule } from '../auth/auth.module';
 import { CommonModule } from '../common/common.module';
 import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Album } from '../gallery/entities/album.entity';
 import { Event } from '../events/entities/event.entity';
 import { Update } from '../updates/entities/update.entity';
 import { User } from '../auth/entities/user.entity';
 import { ConfigModule } from '@nestjs/config';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
@@ -24,7 +28,9 @@ import { ConfigModule } from '@nestjs/config';
       SearchHistory,
       ShareLink,
       Annotation,
+      ExportJob,
       GalleryItem,
+      Album,
       Event,
       Update,
       User,
@@ -36,9 +42,10 @@ import { ConfigModule } from '@nestjs/config';
     CommonModule,
     CacheModule.register(),
     ConfigModule,
+    NotificationsModule,
   ],
   controllers: [SearchController],
-  providers: [SearchService],
+  providers: [SearchService, ExportJobsService],
 })
 export class SearchModule {
 }
@@ -8,10 +8,11 @@ import {
   Inject,
   InternalServerErrorException,
   StreamableFile,
-  NotImplementedException,
+  HttpException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, ILike, Not } from 'typeorm';
+import { Repository, ILike, Not, LessThan } from 'typeorm';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import type { Cache } from 'cache-manager';
 import { Event, EventStatus } from '../events/entities/event.entity';
@@ -22,13 +23,18 @@ import { Annotation } from './entities/annotation.entity';
 import { User } from '../auth/entities/user.entity';
 import { UserRole } from '../common/interfaces/entities.interface';
 import { GalleryItem } from '../gallery/entities/gallery.entity';
+import { Album, AlbumVisibility } from '../gallery/entities/album.entity';
 import { SearchQueryDto, SearchableItemType } from './dto/search-query.dto';
 import { SharingPlatform } from './dto/share-item.dto';
 import { ConfigService } from '@nestjs/config';
 import * as path from 'path';
-import { Response } from 'express';
+import { Readable } from 'stream';
+import archiver from 'archiver';
+import { Request, Response } from 'express';
 import { UpdatesService } from '../updates/updates.service';
 import { GalleryService } from '../gallery/gallery.service';
+import { StorageService } from '../common/storage/storage.service';
+import { JobSchedulerService } from '../common/scheduler/job-scheduler.service';
 
 export interface SearchResultItem {
   id: string;
@@ -40,6 +46,19 @@ export interface SearchResultItem {
   tags?: string[];
 }
 
+export interface BulkDownloadManifestEntry {
+  type: string;
+  id: string;
+  status: 'included' | 'skipped' | 'forbidden' | 'not_found';
+  files?: string[];
+  reason?: string;
+}
+
+export interface BulkDownloadFile {
+  storageKey: string;
+  archiveName: string;
+}
+
 export interface PaginatedSearchResults {
   items: SearchResultItem[];
   total: number;
@@ -49,16 +68,19 @@ export interface PaginatedSearchResults {
 }
 
 @Injectable()
-export class SearchService {
+export class SearchService implements OnModuleInit {
   private readonly logger = new Logger(SearchService.name);
   private readonly SUGGESTIONS_LIMIT = 6;
   private readonly HISTORY_LIMIT = 5;
   private readonly CACHE_TTL_SECONDS = 300;
+  private readonly GALLERY_MEDIA_PREFIX = 'media';
+  private readonly UPDATE_ATTACHMENTS_PREFIX = 'updates';
 
   constructor(
     @InjectRepository(GalleryItem) private galleryRepository: Repository<GalleryItem>,
     @InjectRepository(Event) private eventRepository: Repository<Event>,
     @InjectRepository(Update) private updateRepository: Repository<Update>,
+    @InjectRepository(Album) private albumRepository: Repository<Album>,
     @InjectRepository(SearchHistory) private searchHistoryRepository: Repository<SearchHistory>,
     @InjectRepository(ShareLink) private shareLinkRepository: Repository<ShareLink>,
     @InjectRepository(Annotation) private annotationRepository: Repository<Annotation>,
@@ -66,16 +88,32 @@ export class SearchService {
     private configService: ConfigService,
     private updatesService: UpdatesService,
     private galleryService: GalleryService,
+    private storageService: StorageService,
+    private jobSchedulerService: JobSchedulerService,
   ) {
     this.logger.log('SearchService initialized');
   }
 
+  async onModuleInit(): Promise<void> {
+    await this.jobSchedulerService.register({
+      name: 'purge-share-links',
+      description: 'Deletes share links past their expiry.',
+      cronExpression: '30 3 * * *',
+      handler: () => this.purgeExpiredShareLinks(),
+    });
+  }
+
+  async purgeExpiredShareLinks(): Promise<void> {
+    const result = await this.shareLinkRepository.delete({ expiresAt: LessThan(new Date()) });
+    this.logger.log(`Purged ${result.affected ?? 0} expired share links`);
+  }
+
   async search(user: User | null, params: SearchQueryDto): Promise<PaginatedSearchResults> {
     const { query, tags, types = [], startDate, endDate, page = 1, limit = 12, skipCache = false } = params;
     const userIdForLog = user?.id || 'guest';
     this.logger.log(`Searching: query="${query}", types=${types.join(',')}, tags=${tags?.join(',')}, dates=${startDate}-${endDate}, page=${page}, limit=${limit}, user=${userIdForLog}`);
 
-    const searchTypes = types.length === 0 ? [SearchableItemType.Gallery, SearchableItemType.Event, SearchableItemType.Update] : types;
+    const searchTypes = types.length === 0 ? [SearchableItemType.Gallery, SearchableItemType.Event, SearchableItemType.Update, SearchableItemType.Album] : types;
     const cacheKey = `search:${userIdForLog}:${JSON.stringify(params)}`;
 
     if (!skipCache) {
@@ -208,16 +246,52 @@ export class SearchService {
       countPromises.push(Promise.resolve(0));
     }
 
+    // Album Query (only approved public albums are discoverable)
+    if (searchTypes.includes(SearchableItemType.Album)) {
+      const itemQb = this.albumRepository.createQueryBuilder('item')
+        .leftJoinAndSelect('item.coverItem', 'coverItem')
+        .where('item.isApproved = true')
+        .andWhere('item.visibility = :publicVisibility', { publicVisibility: AlbumVisibility.Public });
+      const countQb = this.albumRepository.createQueryBuilder('item')
+        .where('item.isApproved = true')
+        .andWhere('item.visibility = :publicVisibility', { publicVisibility: AlbumVisibility.Public });
+
+      if (prefixTsQuery) {
+        itemQb.andWhere(`to_tsvector(:config, coalesce(item.title, '') || ' ' || coalesce(item.description, '')) @@ to_tsquery(:config, :query)`, { config: textSearchConfig, query: prefixTsQuery });
+        countQb.andWhere(`to_tsvector(:config, coalesce(item.title, '') || ' ' || coalesce(item.description, '')) @@ to_tsquery(:config, :query)`, { config: textSearchConfig, query: prefixTsQuery });
+      }
+      if (dateStart) {
+        itemQb.andWhere('item.createdAt >= :startDate', { startDate: dateStart });
+        countQb.andWhere('item.createdAt >= :startDate', { startDate: dateStart });
+      }
+      if (dateEnd) {
+        itemQb.andWhere('item.createdAt <= :endDate', { endDate: dateEnd });
+        countQb.andWhere('item.createdAt <= :endDate', { endDate: dateEnd });
+      }
+      // Albums carry no tags of their own, so a tag filter excludes them
+      if (tags?.length) {
+        itemPromises.push(Promise.resolve([]));
+        countPromises.push(Promise.resolve(0));
+      } else {
+        itemPromises.push(itemQb.getMany());
+        countPromises.push(countQb.getCount());
+      }
+    } else {
+      itemPromises.push(Promise.resolve([]));
+      countPromises.push(Promise.resolve(0));
+    }
+
     let galleryItems: GalleryItem[] = [];
     let eventItems: Event[] = [];
     let updateItems: Update[] = [];
+    let albumItems: Album[] = [];
     let counts: number[] = [];
 
     try {
       // Execute item fetches and count queries in parallel
       const results = await Promise.all([...itemPromises, ...countPromises]);
       const midPoint = results.length / 2;
-      [galleryItems, eventItems, updateItems] = results.slice(0, midPoint) as [GalleryItem[], Event[], Update[]];
+      [galleryItems, eventItems, updateItems, albumItems] = results.slice(0, midPoint) as [GalleryItem[], Event[], Update[], Album[]];
       counts = results.slice(midPoint) as number[];
 
     } catch (error: any) {
@@ -249,6 +323,12 @@ export class SearchService {
         createdAt: item.createdAt, // Use the correct date field for sorting
         tags: item.tags,
       })),
+      ...albumItems.map(item => ({
+        id: item.id, type: SearchableItemType.Album, title: item.title,
+        description: item.description, thumbnailUrl: item.coverItem?.thumbnailUrl ?? null,
+        createdAt: item.createdAt,
+        tags: [],
+      })),
     ];
 
     this.logger.debug(`Search Service - Combined Items (after map, before sort/slice): ${JSON.stringify(allCombinedItems.filter(i => i.type === SearchableItemType.Gallery).map(g => ({ id: g.id, thumbnailUrl: g.thumbnailUrl })), null, 2)}`);
@@ -325,7 +405,7 @@ export class SearchService {
       const [galleryTags, eventTitles, updateTitles, updateTags] = await Promise.all([
         // Suggest matching tags from Gallery
         this.galleryRepository.manager.query<TagResult[]>(
-          `SELECT DISTINCT unnest(tags) as tag FROM gallery_item WHERE "isApproved" = true AND EXISTS (SELECT 1 FROM unnest(tags) t WHERE t ILIKE $1) LIMIT 5`,
+          `SELECT DISTINCT unnest(tags) as tag FROM gallery_item WHERE "isApproved" = true AND "deletedAt" IS NULL AND EXISTS (SELECT 1 FROM unnest(tags) t WHERE t ILIKE $1) LIMIT 5`,
           [searchTerm],
         ),
         // Suggest matching titles from Events
@@ -344,7 +424,7 @@ export class SearchService {
         }),
         // Suggest matching tags from Updates
         this.updateRepository.manager.query<TagResult[]>(
-          `SELECT DISTINCT unnest(tags) as tag FROM update WHERE "isApproved" = true AND EXISTS (SELECT 1 FROM unnest(tags) t WHERE t ILIKE $1) LIMIT 5`,
+          `SELECT DISTINCT unnest(tags) as tag FROM update WHERE "isApproved" = true AND "deletedAt" IS NULL AND EXISTS (SELECT 1 FROM unnest(tags) t WHERE t ILIKE $1) LIMIT 5`,
           [searchTerm],
         ),
       ]);
@@ -543,7 +623,16 @@ export class SearchService {
 
   async downloadItem(user: User, itemType: string, itemId: string): Promise<string> {
     this.logger.log(`Download request: type=${itemType}, id=${itemId}, user=${user.id}`);
+    const fileUrls = await this.resolveDownloadableFiles(user, itemType, itemId);
+    // Single downloads only serve the *first* file; bulk downloads include all of them
+    return path.basename(fileUrls[0]);
+  }
 
+  /**
+   * Applies the download access rules for a single item and returns the stored file URLs.
+   * Throws NotFound/Forbidden/BadRequest exactly as the single-item download route expects.
+   */
+  private async resolveDownloadableFiles(user: User, itemType: string, itemId: string): Promise<string[]> {
     const searchableItemType = itemType as SearchableItemType;
 
     if (searchableItemType === SearchableItemType.Gallery) {
@@ -557,8 +646,7 @@ export class SearchService {
       if (!canAccess) throw new ForbiddenException('Access denied to this gallery item.');
       if (!item.fileUrl) throw new NotFoundException('File URL is missing for this gallery item.');
 
-      // Return only the filename, assuming the controller/service handles path construction
-      return path.basename(item.fileUrl);
+      return [item.fileUrl];
 
     } else if (searchableItemType === SearchableItemType.Update) {
       const item = await this.updateRepository.findOne({ where: { id: itemId }, relations: ['author'] });
@@ -573,19 +661,24 @@ export class SearchService {
         throw new BadRequestException('This update has no attachments available for download.');
       }
 
-      // Return only the filename of the *first* attachment
-      return path.basename(item.attachmentUrls[0]);
+      return item.attachmentUrls;
 
     } else {
       throw new BadRequestException(`Downloads are not supported for item type: ${itemType}`);
     }
   }
 
-  async getAttachmentStream(filename: string, res: Response): Promise<StreamableFile> {
+  private resolveStorageKey(itemType: SearchableItemType, fileUrl: string): string {
+    // Only the basename is trusted; the prefix is fixed per item type
+    const prefix = itemType === SearchableItemType.Update ? this.UPDATE_ATTACHMENTS_PREFIX : this.GALLERY_MEDIA_PREFIX;
+    return `${prefix}/${path.basename(fileUrl)}`;
+  }
+
+  async getAttachmentStream(filename: string, req: Request, res: Response): Promise<StreamableFile | undefined> {
     this.logger.log(`Attempting to get attachment stream for filename: ${filename}`);
     if (filename.startsWith('update-attachment-')) {
       try {
-        return await this.updatesService.getAttachmentStream(filename, res);
+        return await this.updatesService.getAttachmentStream(filename, req, res);
       } catch (error) {
         if (error instanceof NotFoundException) {
           this.logger.warn(`Attachment ${filename} not found via UpdatesService.`);
@@ -595,8 +688,9 @@ export class SearchService {
     }
 
     try {
-      return await this.galleryService.getAttachmentStream(filename, res);
+      return await this.galleryService.getAttachmentStream(filename, req, res);
     } catch (error) {
+      if (error instanceof HttpException && !(error instanceof NotFoundException)) throw error;
       this.logger.error(`Failed to get stream for ${filename} from any known source: ${error.message}`);
       if (error instanceof NotFoundException) {
         throw new NotFoundException(`Attachment file '${filename}' not found.`);
@@ -605,8 +699,8 @@ export class SearchService {
     }
   }
 
-  downloadBulk(user: User, itemIds: { type: string; id: string }[]): string {
-    this.logger.log(`Bulk download request received for ${itemIds.length} items from user ${user.id}.`);
+  async downloadBulk(user: User, itemIds: { type: string; id: string }[], res: Response): Promise<StreamableFile> {
+    this.logger.log(`Bulk download request received for ${itemIds?.length ?? 0} items from user ${user.id}.`);
 
     // Basic permission check
     if (user.role === UserRole.Visitor) {
@@ -615,12 +709,104 @@ export class SearchService {
     if (!itemIds || itemIds.length === 0) {
       throw new BadRequestException('No items were selected for bulk download.');
     }
+    const maxItems = this.configService.get<number>('BULK_DOWNLOAD_MAX_ITEMS', 200);
+    if (itemIds.length > maxItems) {
+      throw new BadRequestException(`A bulk download can include at most ${maxItems} items. Create an export job for larger selections.`);
+    }
+
+    const { files, manifest } = await this.collectBulkDownloadFiles(user, itemIds);
+    if (files.length === 0) {
+      this.logger.warn(`Bulk download by user ${user.id} produced no downloadable files.`);
+      throw new BadRequestException('None of the selected items could be included in the download.');
+    }
+
+    const archive = this.buildBulkArchive(files, manifest, user);
+    archive.finalize().catch(error => {
+      this.logger.error(`Failed to finalize bulk download archive: ${error.message}`, error.stack);
+    });
+
+    const archiveFilename = `cive-gallery-${Date.now()}.zip`;
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${archiveFilename}"`,
+    });
+
+    this.logger.log(`Streaming bulk download ${archiveFilename}: ${files.length} files, ${manifest.length} items for user ${user.id}`);
+    return new StreamableFile(archive);
+  }
+
+  /**
+   * Resolves every requested {type,id} pair through the single-download access rules.
+   * Items that cannot be included are recorded in the manifest instead of failing the whole request.
+   */
+  async collectBulkDownloadFiles(user: User, itemIds: { type: string; id: string }[]): Promise<{ files: BulkDownloadFile[]; manifest: BulkDownloadManifestEntry[] }> {
+    const manifest: BulkDownloadManifestEntry[] = [];
+    const files: BulkDownloadFile[] = [];
+    const seenKeys = new Set<string>();
+
+    for (const { type, id } of itemIds) {
+      const key = `${type}:${id}`;
+      if (seenKeys.has(key)) continue; // Ignore duplicate selections
+      seenKeys.add(key);
+
+      try {
+        const fileUrls = await this.resolveDownloadableFiles(user, type, id);
+        const includedFiles: string[] = [];
+        for (const fileUrl of fileUrls) {
+          const storageKey = this.resolveStorageKey(type as SearchableItemType, fileUrl);
+          if (!(await this.storageService.exists(storageKey, 'public'))) {
+            this.logger.warn(`Bulk download: file missing from storage for ${key}: ${storageKey}`);
+            continue;
+          }
+          const archiveName = `${type}/${id}/${path.basename(fileUrl)}`;
+          files.push({ storageKey, archiveName });
+          includedFiles.push(archiveName);
+        }
+
+        if (includedFiles.length === 0) {
+          manifest.push({ type, id, status: 'skipped', reason: 'Files for this item are missing on the server.' });
+        } else {
+          manifest.push({ type, id, status: 'included', files: includedFiles });
+        }
+      } catch (error: any) {
+        if (error instanceof ForbiddenException) {
+          manifest.push({ type, id, status: 'forbidden', reason: error.message });
+        } else if (error instanceof NotFoundException) {
+          manifest.push({ type, id, status: 'not_found', reason: error.message });
+        } else if (error instanceof BadRequestException) {
+          manifest.push({ type, id, status: 'skipped', reason: error.message });
+        } else {
+          this.logger.error(`Bulk download: failed resolving ${key}: ${error.message}`, error.stack);
+          manifest.push({ type, id, status: 'skipped', reason: 'Item could not be processed.' });
+        }
+      }
+    }
 
-    // Bulk download functionality is complex (fetching files, zipping, streaming).
-    // Throwing NotImplementedException is appropriate until fully implemented.
-    this.logger.warn(`Bulk download initiated by user ${user.id}, but the feature is not implemented.`);
-    throw new NotImplementedException('Bulk download feature is not yet available.');
-    // When implemented, this should initiate an async process and potentially return a job ID or status link.
+    return { files, manifest };
+  }
+
+  /** Creates a ZIP archive of the given files plus a manifest.json. The caller must finalize it. */
+  buildBulkArchive(files: BulkDownloadFile[], manifest: BulkDownloadManifestEntry[], user: User): archiver.Archiver {
+    // Media files are already compressed, so store them as-is to keep CPU usage low
+    const archive = archiver('zip', { store: true });
+    archive.on('warning', (warning) => this.logger.warn(`Bulk download archive warning: ${warning.message}`));
+    archive.on('error', (error) => this.logger.error(`Bulk download archive error: ${error.message}`, error.stack));
+
+    // Each object is only opened when the archiver reaches it, so large selections do not hold many open streams
+    for (const file of files) {
+      const storageService = this.storageService;
+      const lazyStream = Readable.from((async function* () {
+        yield* await storageService.createReadStream(file.storageKey, 'public');
+      })());
+      archive.append(lazyStream, { name: file.archiveName });
+    }
+    archive.append(JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      requestedBy: user.id,
+      items: manifest,
+    }, null, 2), { name: 'manifest.json' });
+
+    return archive;
   }
 
   async shareItem(user: User, itemType: SearchableItemType, itemId: string, platform: SharingPlatform): Promise<string> {
@@ -651,6 +837,11 @@ export class SearchService {
         if (!item) throw new NotFoundException('Approved update not found.');
         itemUrlPath = `/updates/${item.id}`; // Example path, adjust as per frontend routing
         itemTitle = item.title;
+      } else if (itemType === SearchableItemType.Album) {
+        const item = await this.albumRepository.findOne({ where: { id: itemId, isApproved: true, visibility: Not(AlbumVisibility.Private) } });
+        if (!item) throw new NotFoundException('Approved album not found.');
+        itemUrlPath = `/gallery/albums/${item.id}`;
+        itemTitle = item.title;
       } else {
         throw new BadRequestException('Invalid item type specified for sharing.');
       }
@@ -761,6 +952,9 @@ export class SearchService {
         case SearchableItemType.Update:
           itemExists = !!await this.updateRepository.count({ where: { id: itemId, isApproved: true } });
           break;
+        case SearchableItemType.Album:
+          itemExists = !!await this.albumRepository.count({ where: { id: itemId, isApproved: true, visibility: Not(AlbumVisibility.Private) } });
+          break;
         default:
           throw new BadRequestException('Invalid item type provided for annotation.');
       }
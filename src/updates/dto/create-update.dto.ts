@@ -1,7 +1,7 @@
 // src/updates/dto/create-update.dto.ts (or wherever your DTO resides)
 
 import { Transform } from 'class-transformer';
-import { IsString, IsNotEmpty, IsOptional, IsArray, MaxLength, MinLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsArray, MaxLength, MinLength, IsUUID } from 'class-validator';
 
 export class CreateUpdateDto {
   @IsString()
@@ -45,6 +45,11 @@ export class CreateUpdateDto {
   // @ArrayMaxSize(10, { message: 'A maximum of 10 tags are allowed.' }) // Requires enabling forbidNonWhitelisted in ValidationPipe usually
   @IsOptional()
   tags?: string[];
+
+  // Event the update reports on
+  @IsUUID()
+  @IsOptional()
+  eventId?: string;
 }
 
 export class UpdateUpdateDto {
@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional, IsArray, IsBoolean } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsArray, IsBoolean, IsUUID } from 'class-validator';
 
 export class UpdateUpdateDto {
   @IsString()
@@ -19,4 +19,9 @@ export class UpdateUpdateDto {
   @IsBoolean()
   @IsOptional()
   isApproved?: boolean;
+
+  // null unlinks the update from its event
+  @IsUUID()
+  @IsOptional()
+  eventId?: string | null;
 }
@@ -1,5 +1,6 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn } from 'typeorm';
 import type { User } from '../../auth/entities/user.entity';
+import type { Event } from '../../events/entities/event.entity';
 
 @Entity()
 export class Update {
@@ -34,4 +35,23 @@ export class Update {
 
   @ManyToOne('User', 'updates', { eager: true, onDelete: 'SET NULL', nullable: true })
   author: User | null;
+
+  // Event the update reports on; listed on the event's page once approved
+  @Column({ type: 'uuid', nullable: true })
+  eventId: string | null;
+
+  @ManyToOne('Event', { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'eventId' })
+  event?: Event | null;
+
+  // Set while the update is in the trash; attachments stay in storage until it is purged
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  deletedById: string | null;
+
+  @ManyToOne('User', { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deletedById' })
+  deletedBy?: User | null;
 }
@@ -34,6 +34,8 @@ import { UserRole } from '../common/interfaces/entities.interface'; // Adjust pa
 import { Roles } from '../auth/roles.decorator'; // Adjust path if needed
 import { RolesGuard } from '../auth/roles.guard'; // Adjust path if needed
 import { diskStorage } from 'multer';
+import { stagingDestination } from '../common/storage/upload-staging';
+import { createUploadFileFilter } from '../common/upload-validation/upload-allow-lists';
 import { extname } from 'path';
 import type { Response } from 'express';
 import * as express from 'express'; // Only if needed for AuthenticatedRequest type
@@ -45,24 +47,7 @@ export interface AuthenticatedRequest extends express.Request {
   user: User;
 }
 
-// Constants for file validation
-const ALLOWED_MIME_TYPES_ARRAY = [
-  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'image/tiff',
-  'image/bmp', 'image/x-icon', 'image/vnd.microsoft.icon',
-  'application/pdf', 'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.oasis.opendocument.text',
-  'application/rtf', 'text/plain', 'text/csv',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.oasis.opendocument.spreadsheet',
-  'application/vnd.ms-powerpoint',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'application/vnd.oasis.opendocument.presentation',
-  'application/zip',
-  'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/aac', 'audio/flac',
-  'video/mp4', 'video/webm', 'video/ogg',
-];
+// Constants for file validation (allowed types live in upload-allow-lists)
 const MAX_FILE_SIZE_BYTES = 15 * 1024 * 1024; // 15 MB
 
 // Custom File Validator Class (can be moved to a shared file)
@@ -103,7 +88,7 @@ export class UpdatesController {
   @UseGuards(JwtAuthGuard, RolesGuard)        // Apply relevant guards
   @UseInterceptors(FilesInterceptor('attachments', 5, { // Field name, max count
     storage: diskStorage({
-      destination: './uploads/updates',       // Ensure this folder exists
+      destination: stagingDestination,       // Moved into storage by UpdatesService
       filename: (req, file, cb) => {
         const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
         const ext = extname(file.originalname);
@@ -111,6 +96,7 @@ export class UpdatesController {
         cb(null, filename);
       },
     }),
+    fileFilter: createUploadFileFilter('updateAttachment'), // Content is sniffed again by UpdatesService
   }))
   create(
     @Req() req: AuthenticatedRequest,
@@ -4,15 +4,18 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { UpdatesService } from './updates.service';
 import { Update } from './entities/update.entity';
 import { User } from '../auth/entities/user.entity';
+import { Event } from '../events/entities/event.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { AuthModule } from '../auth/auth.module';
 import { UpdatesController } from './updates.controller';
+import { CommonModule } from '../common/common.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Update, User]),
+    TypeOrmModule.forFeature([Update, User, Event]),
     NotificationsModule,
     AuthModule,
+    CommonModule,
   ],
   providers: [UpdatesService],
   controllers: [UpdatesController],
@@ -7,34 +7,42 @@ import {
   Logger,
   InternalServerErrorException,
   StreamableFile,
+  HttpException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, QueryFailedError, In, Not, FindOptionsWhere, DeepPartial } from 'typeorm';
 import { Update } from './entities/update.entity';
 import { User } from '../auth/entities/user.entity';
+import { Event } from '../events/entities/event.entity';
 import { CreateUpdateDto } from './dto/create-update.dto';
 import { UpdateUpdateDto } from './dto/update-update.dto';
 import { FilterUpdateDto } from './dto/filter-update.dto';
 import { UserRole } from '../common/interfaces/entities.interface';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType } from '../notifications/entities/notification.entity';
-import * as fs from 'fs';
 import * as fsp from 'fs/promises';
 import * as path from 'path';
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { PaginatedResponse } from '../common/interfaces/paginated-response.interface';
+import { StorageService } from '../common/storage/storage.service';
+import { StorageVisibility } from '../common/storage/storage-driver.interface';
+import { UploadValidationService } from '../common/upload-validation/upload-validation.service';
 
 @Injectable()
 export class UpdatesService {
   private readonly logger = new Logger(UpdatesService.name);
-  private readonly UPLOAD_PATH = 'uploads/updates';
+  private readonly ATTACHMENTS_PREFIX = 'updates';
 
   constructor(
     @InjectRepository(Update)
     private readonly updateRepository: Repository<Update>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
     private readonly notificationsService: NotificationsService,
+    private readonly storageService: StorageService,
+    private readonly uploadValidationService: UploadValidationService,
   ) {
   }
 
@@ -43,13 +51,16 @@ export class UpdatesService {
     if (author.role !== UserRole.Admin && author.role !== UserRole.Staff) {
       throw new ForbiddenException('Only Admin or Staff can create updates');
     }
-    const attachmentUrls: string[] = files?.map(file => `/${this.UPLOAD_PATH}/${file.filename}`) ?? [];
+    // One rejected attachment fails the whole update rather than publishing it without that file
+    await this.uploadValidationService.validateUploads(files ?? [], 'updateAttachment', author.id);
+    const eventId = await this.resolveEventId(createUpdateDto.eventId, files ?? []);
+    const attachmentUrls: string[] = await this.storeAttachments(files ?? []);
     const tags: string[] = this.normalizeTags(createUpdateDto.tags);
     const isApproved = true; // Default approve
 
     const updateData: DeepPartial<Update> = {
       title: createUpdateDto.title, content: createUpdateDto.content, tags,
-      author: author, isApproved: isApproved, attachmentUrls: attachmentUrls,
+      author: author, isApproved: isApproved, attachmentUrls: attachmentUrls, eventId,
     };
     const update = this.updateRepository.create(updateData);
 
@@ -68,7 +79,7 @@ export class UpdatesService {
       this.logger.error(`Error creating update: ${error.message}`, error.stack);
       if (files?.length) {
         this.logger.warn(`DB save failed, cleaning up ${files.length} files...`);
-        await Promise.allSettled(files.map(file => this.deleteFileOnDisk(file.path, 'update attachment (on error)')));
+        await Promise.allSettled(attachmentUrls.map(url => this.deleteStoredFile(this.getAttachmentKey(url), 'update attachment (on error)')));
       }
       throw new InternalServerErrorException('Failed to create update');
     }
@@ -174,6 +185,7 @@ export class UpdatesService {
     if (updateUpdateDto.content !== undefined) update.content = updateUpdateDto.content;
     if (updateUpdateDto.tags !== undefined) update.tags = this.normalizeTags(updateUpdateDto.tags);
     if (updateUpdateDto.isApproved !== undefined) update.isApproved = updateUpdateDto.isApproved;
+    if (updateUpdateDto.eventId !== undefined) update.eventId = await this.resolveEventId(updateUpdateDto.eventId);
 
     try {
       const savedUpdate = await this.updateRepository.save(update);
@@ -202,45 +214,94 @@ export class UpdatesService {
       this.logger.warn(`Update not found for deletion: ${id}`);
       throw new NotFoundException('Update not found');
     }
-    if (update.attachmentUrls && update.attachmentUrls.length > 0) {
-      this.logger.log(`Deleting ${update.attachmentUrls.length} attachments for update ${id}`);
-      const deletePromises = update.attachmentUrls.map(url => {
-        const filename = path.basename(url);
-        const filePath = path.join(process.cwd(), this.UPLOAD_PATH, filename);
-        return this.deleteFileOnDisk(filePath, 'update attachment');
-      });
-      await Promise.allSettled(deletePromises);
+    await this.updateRepository.update({ id }, { deletedById: deleter.id });
+    const deleteResult = await this.updateRepository.softDelete({ id });
+    if (deleteResult.affected === 0) {
+      this.logger.error(`Soft delete failed for update ${id}.`);
+      throw new InternalServerErrorException('Failed to delete update record from database.');
     }
+    this.logger.log(`Moved update ${id} to the trash`);
+    await this.setAttachmentsVisibility(update, 'public', 'private');
+  }
+
+  async restoreUpdate(id: string): Promise<Update> {
+    const update = await this.updateRepository.findOne({ where: { id }, withDeleted: true });
+    if (!update?.deletedAt) throw new NotFoundException('Update is not in the trash');
+    await this.updateRepository.restore({ id });
+    await this.updateRepository.update({ id }, { deletedById: null });
+    this.logger.log(`Restored update ${id} from the trash`);
+    await this.setAttachmentsVisibility(update, 'private', 'public');
+    return this.getUpdateById(id);
+  }
+
+  // Permanently removes a trashed update and its attachments; only reachable through the trash
+  async purgeUpdate(id: string): Promise<void> {
+    const update = await this.updateRepository.findOne({ where: { id }, withDeleted: true });
+    if (!update?.deletedAt) throw new NotFoundException('Update is not in the trash');
     const deleteResult = await this.updateRepository.delete({ id });
     if (deleteResult.affected === 0) {
-      this.logger.error(`DB record deletion failed for update ${id}. Files might have been deleted.`);
+      this.logger.error(`DB record deletion failed for update ${id}.`);
       throw new InternalServerErrorException('Failed to delete update record from database.');
     }
-    this.logger.log(`Deleted update record: ${id}`);
+    this.logger.log(`Purged update record: ${id}`);
+    if (update.attachmentUrls && update.attachmentUrls.length > 0) {
+      this.logger.log(`Deleting ${update.attachmentUrls.length} attachments for update ${id}`);
+      const deletePromises = update.attachmentUrls.map(url =>
+        this.deleteStoredFile(this.getAttachmentKey(url), 'update attachment', 'private'));
+      await Promise.allSettled(deletePromises);
+    }
   }
 
-  async getAttachmentStream(filename: string, res: Response): Promise<StreamableFile> {
-    const filePath = path.join(process.cwd(), this.UPLOAD_PATH, filename);
-    this.logger.log(`Attempting to stream file: ${filePath}`);
+  // Attachments of trashed updates are kept in private storage so they are no longer served
+  private async setAttachmentsVisibility(update: Update, from: StorageVisibility, to: StorageVisibility): Promise<void> {
+    for (const url of update.attachmentUrls ?? []) {
+      const key = this.getAttachmentKey(url);
+      try {
+        await this.storageService.setVisibility(key, from, to);
+      } catch (err: any) {
+        this.logger.error(`Failed to make attachment ${key} of update ${update.id} ${to}: ${err.message}`);
+      }
+    }
+  }
+
+  async getAttachmentStream(filename: string, req: Request, res: Response): Promise<StreamableFile | undefined> {
+    const key = this.getAttachmentKey(filename);
+    this.logger.log(`Attempting to stream file: ${key}`);
     try {
-      await fsp.access(filePath);
-      const contentType = this.getMimeTypeFromFilename(filename);
-      const stats = await fsp.stat(filePath);
-      res.set({
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': stats.size.toString(),
+      return await this.storageService.streamFile(req, res, key, 'public', {
+        contentType: this.getMimeTypeFromFilename(filename),
+        contentDisposition: `attachment; filename="${filename}"`,
       });
-      const fileStream = fs.createReadStream(filePath);
-      return new StreamableFile(fileStream);
     } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        throw new NotFoundException('Attachment file not found.');
-      } else {
-        this.logger.error(`Error accessing attachment ${filename}: ${error.message}`, error.stack);
-        throw new InternalServerErrorException('Could not retrieve attachment.');
+      if (error instanceof NotFoundException) throw new NotFoundException('Attachment file not found.');
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`Error accessing attachment ${filename}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not retrieve attachment.');
+    }
+  }
+
+  // Moves staged uploads into storage; on failure nothing from this batch is left behind
+  private async storeAttachments(files: Express.Multer.File[]): Promise<string[]> {
+    const storedKeys: string[] = [];
+    try {
+      for (const file of files) {
+        const key = this.getAttachmentKey(file.filename);
+        await this.storageService.moveFile(key, file.path, { visibility: 'public', contentType: file.mimetype });
+        storedKeys.push(key);
       }
+    } catch (error: any) {
+      this.logger.error(`Failed to store update attachments: ${error.message}`, error.stack);
+      await Promise.allSettled([
+        ...storedKeys.map(key => this.deleteStoredFile(key, 'update attachment (on error)')),
+        ...files.map(file => fsp.rm(file.path, { force: true })),
+      ]);
+      throw new InternalServerErrorException('Failed to store update attachments.');
     }
+    return storedKeys.map(key => this.storageService.getPublicUrl(key));
+  }
+
+  private getAttachmentKey(urlOrFilename: string): string {
+    return `${this.ATTACHMENTS_PREFIX}/${path.basename(urlOrFilename)}`;
   }
 
   private getMimeTypeFromFilename(filename: string): string {
@@ -297,6 +358,16 @@ export class UpdatesService {
     }
   }
 
+  private async resolveEventId(eventId?: string | null, stagedFiles: Express.Multer.File[] = []): Promise<string | null> {
+    if (!eventId) return null;
+    const exists = await this.eventRepository.exists({ where: { id: eventId } });
+    if (!exists) {
+      await Promise.allSettled(stagedFiles.map(file => fsp.rm(file.path, { force: true })));
+      throw new BadRequestException(`Event not found: ${eventId}`);
+    }
+    return eventId;
+  }
+
   private normalizeTags(tagsInput: string[] | string | undefined): string[] {
     if (!tagsInput) return [];
     let tagsArray: string[];
@@ -335,14 +406,12 @@ export class UpdatesService {
     await Promise.all(notificationPromises);
   }
 
-  private async deleteFileOnDisk(filePath: string, fileType: string): Promise<void> {
+  private async deleteStoredFile(key: string, fileType: string, visibility: StorageVisibility = 'public'): Promise<void> {
     try {
-      await fsp.access(filePath);
-      await fsp.unlink(filePath);
-      this.logger.log(`Deleted ${fileType} file: ${filePath}`);
+      await this.storageService.delete(key, visibility);
+      this.logger.log(`Deleted ${fileType} file: ${key}`);
     } catch (err: any) {
-      if (err.code !== 'ENOENT') this.logger.error(`Failed delete ${fileType} file ${filePath}: ${err.message}`);
-      else this.logger.warn(`${fileType} file not found: ${filePath}`);
+      this.logger.error(`Failed delete ${fileType} file ${key}: ${err.message}`);
     }
   }
 }